@@ -0,0 +1,71 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import { getMemberCollection } from '@/lib/queries/cards';
+import { getViewer } from '@/lib/auth/viewer';
+import { Card } from '@/components/ui/card';
+import { CollectionBinder, CollectionCard } from '@/components/cards/collection-binder';
+import { getCardCredits } from '@/lib/cards';
+import { ChevronLeft, Lock } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+interface MemberCardsPageProps {
+  params: Promise<{ serverId: string; memberId: string }>;
+}
+
+export default async function MemberCardsPage({ params }: MemberCardsPageProps) {
+  const { serverId, memberId } = await params;
+
+  const server = await getServer(serverId);
+  if (!server) {
+    notFound();
+  }
+
+  const viewer = await getViewer();
+  const collection = await getMemberCollection(serverId, memberId, viewer);
+
+  if (!collection) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <Link
+          href={`/${serverId}/${memberId}`}
+          className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          <span>Back to profile</span>
+        </Link>
+        <Card className="text-center py-12">
+          <Lock className="w-8 h-8 text-gray-500 mx-auto mb-3" />
+          <p className="text-white font-medium mb-1">This collection isn&apos;t available</p>
+          <p className="text-sm text-gray-400">
+            The member doesn&apos;t exist or has limited who can see their stats.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  const cards: CollectionCard[] = collection.entries.map(({ card, requirement, unlockedAt }) => ({
+    id: card.id,
+    src: card.src,
+    alt: unlockedAt ? card.alt : `Locked card: ${requirement}`,
+    effect: card.effect,
+    locked: !unlockedAt,
+    caption: unlockedAt
+      ? `${card.name} · Unlocked ${new Date(unlockedAt).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric',
+        })}\n${getCardCredits(card)}`
+      : `Locked · ${requirement}\n${getCardCredits(card)}`,
+    info: card,
+  }));
+
+  return (
+    <CollectionBinder
+      cards={cards}
+      status={`${collection.ownedCount}/${collection.availableCount} collected (${collection.completionPercent}%)`}
+    />
+  );
+}
@@ -0,0 +1,47 @@
+import type { Metadata } from 'next';
+import { getServer } from '@/lib/queries/server';
+import { getMemberProfile } from '@/lib/queries/profile';
+import { ANONYMOUS_VIEWER } from '@/lib/queries/privacy';
+import { formatNumber, formatVoiceTime } from '@/lib/utils';
+
+interface MemberLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ serverId: string; memberId: string }>;
+}
+
+// Link previews are public, so metadata only uses what anonymous viewers can see
+export async function generateMetadata({
+  params,
+}: Omit<MemberLayoutProps, 'children'>): Promise<Metadata> {
+  const { serverId, memberId } = await params;
+
+  const [server, member] = await Promise.all([
+    getServer(serverId),
+    getMemberProfile(serverId, memberId, ANONYMOUS_VIEWER),
+  ]);
+  const serverName = server?.name || 'Unknown server';
+
+  if (!member) {
+    return {
+      title: `Private profile - ${serverName} | PBot`,
+      description: `A member of ${serverName} on PBot`,
+    };
+  }
+
+  const name = member.display_name || member.username || 'Unknown User';
+  const title = `${name} - ${serverName} | PBot`;
+  const description =
+    `Level ${member.level} with ${formatNumber(member.xp)} XP in ${serverName}. ` +
+    `${formatNumber(member.message_count)} messages and ${formatVoiceTime(member.voice_minutes)} in voice.`;
+
+  return {
+    title,
+    description,
+    openGraph: { title, description },
+    twitter: { card: 'summary_large_image', title, description },
+  };
+}
+
+export default function MemberLayout({ children }: MemberLayoutProps) {
+  return children;
+}
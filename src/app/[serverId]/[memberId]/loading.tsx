@@ -0,0 +1,22 @@
+import { Skeleton, CardSkeleton, StatCardSkeleton } from '@/components/ui/skeleton';
+
+export default function MemberProfileLoading() {
+  return (
+    <div className="max-w-4xl mx-auto">
+      <Skeleton className="h-6 w-32 mb-6" />
+      <div className="flex items-center gap-4 mb-8">
+        <Skeleton className="h-32 w-32 rounded-full" />
+        <div className="space-y-2">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-4 w-32" />
+        </div>
+      </div>
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4 mb-8">
+        {[...Array(4)].map((_, i) => (
+          <StatCardSkeleton key={i} />
+        ))}
+      </div>
+      <CardSkeleton />
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { ImageResponse } from 'next/og';
+import { getServer } from '@/lib/queries/server';
+import { getMemberProfile } from '@/lib/queries/profile';
+import { getMemberRank } from '@/lib/queries/members';
+import { getMemberAchievements } from '@/lib/queries/achievements';
+import { ANONYMOUS_VIEWER } from '@/lib/queries/privacy';
+import { OgAvatar, OgFrame, OG_COLORS } from '@/components/og/og-frame';
+import { formatNumber, getXpProgress } from '@/lib/utils';
+
+export const alt = 'Member profile';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+export const revalidate = 3600;
+
+const TOP_ACHIEVEMENTS = 3;
+
+interface MemberImageProps {
+  params: Promise<{ serverId: string; memberId: string }>;
+}
+
+export default async function MemberOpenGraphImage({ params }: MemberImageProps) {
+  const { serverId, memberId } = await params;
+
+  // Link previews are fetched by crawlers, so only public profiles get stats
+  const [server, member] = await Promise.all([
+    getServer(serverId),
+    getMemberProfile(serverId, memberId, ANONYMOUS_VIEWER),
+  ]);
+  const footer = server?.name || 'Discord server stats';
+
+  if (!member) {
+    return new ImageResponse(
+      (
+        <OgFrame footer={footer}>
+          <div style={{ display: 'flex', flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+            <span style={{ fontSize: 56, fontWeight: 700, color: OG_COLORS.muted }}>This profile is private</span>
+          </div>
+        </OgFrame>
+      ),
+      size
+    );
+  }
+
+  const [rank, achievements] = await Promise.all([
+    getMemberRank(serverId, memberId),
+    getMemberAchievements(serverId, memberId),
+  ]);
+
+  // Highest XP first; the list is already newest first, so ties favor recent unlocks
+  const topAchievements = [...achievements].sort((a, b) => b.xp - a.xp).slice(0, TOP_ACHIEVEMENTS);
+  const progress = getXpProgress(member.xp);
+  const name = member.display_name || member.username || 'Unknown User';
+
+  return new ImageResponse(
+    (
+      <OgFrame footer={footer}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 48 }}>
+          <OgAvatar src={member.avatar_url} size={200} />
+          <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+            <span style={{ fontSize: 64, fontWeight: 800 }}>{name}</span>
+            <div style={{ display: 'flex', gap: 32, fontSize: 32, color: OG_COLORS.muted }}>
+              <span style={{ color: '#facc15' }}>Rank #{rank}</span>
+              <span>Level {member.level}</span>
+              <span>{formatNumber(member.xp)} XP</span>
+            </div>
+
+            {/* XP Progress */}
+            <div
+              style={{
+                display: 'flex',
+                width: '100%',
+                height: 24,
+                marginTop: 24,
+                borderRadius: 12,
+                backgroundColor: OG_COLORS.light,
+              }}
+            >
+              <div
+                style={{
+                  display: 'flex',
+                  width: `${Math.max(2, progress.progressPercent)}%`,
+                  height: '100%',
+                  borderRadius: 12,
+                  backgroundColor: OG_COLORS.blurple,
+                }}
+              />
+            </div>
+            <span style={{ fontSize: 22, color: OG_COLORS.muted, marginTop: 8 }}>
+              {formatNumber(progress.xpForCurrentLevel)} / {formatNumber(progress.xpForNextLevel)} XP to level{' '}
+              {progress.currentLevel + 1}
+            </span>
+          </div>
+        </div>
+
+        {topAchievements.length > 0 && (
+          <div style={{ display: 'flex', gap: 20, marginTop: 40 }}>
+            {topAchievements.map((achievement) => (
+              <div
+                key={achievement.id}
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  flex: 1,
+                  padding: '16px 20px',
+                  borderRadius: 16,
+                  backgroundColor: OG_COLORS.light,
+                }}
+              >
+                <span style={{ fontSize: 26, fontWeight: 700 }}>{achievement.name}</span>
+                <span style={{ fontSize: 20, color: OG_COLORS.muted }}>+{achievement.xp} XP</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </OgFrame>
+    ),
+    size
+  );
+}
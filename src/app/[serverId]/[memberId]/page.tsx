@@ -1,15 +1,13 @@
-'use client';
-
-import { useEffect, useState } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
-import { useParams } from 'next/navigation';
+import { notFound } from 'next/navigation';
 import { Avatar } from '@/components/ui/avatar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { Skeleton, CardSkeleton, StatCardSkeleton } from '@/components/ui/skeleton';
 import { MemberActivityChart } from '@/components/charts/member-activity-chart';
+import { MemberHourHeatmap } from '@/components/charts/member-hour-heatmap';
 import { VoiceTimeline } from '@/components/profile/voice-timeline';
+import { StreakBadges } from '@/components/profile/streak-badges';
 import { AchievementsSection } from '@/components/profile/achievements';
 import {
   formatNumber,
@@ -25,8 +23,16 @@ import {
 import { getMemberRank } from '@/lib/queries/members';
 import { getServer } from '@/lib/queries/server';
 import { getCombinedTopFriends, getServerActivityWeight } from '@/lib/queries/text-connections';
-import { getMemberAchievements } from '@/lib/queries/achievements';
-import { MemberWithLevel, EmojiUsage, Guild, CombinedFriend, ServerActivityWeight, EarnedAchievement } from '@/types';
+import {
+  getAchievementRarities,
+  getMemberAchievementProgress,
+  getMemberAchievements,
+} from '@/lib/queries/achievements';
+import { getAchievementDefinitions } from '@/lib/queries/achievement-definitions';
+import { maskSecretAchievement } from '@/lib/achievements';
+import { getMemberStreakDays } from '@/lib/queries/streaks';
+import { canViewerSeeMember } from '@/lib/queries/privacy';
+import { getViewer } from '@/lib/auth/viewer';
 import {
   MessageSquare,
   Mic,
@@ -34,79 +40,81 @@ import {
   Hash,
   ChevronLeft,
   Users,
+  Lock,
+  Layers,
+  Scale,
+  Sparkles,
+  Shield,
 } from 'lucide-react';
 
-export default function MemberProfilePage() {
-  const params = useParams();
-  const serverId = params.serverId as string;
-  const memberId = params.memberId as string;
-
-  const [server, setServer] = useState<Guild | null>(null);
-  const [member, setMember] = useState<MemberWithLevel | null>(null);
-  const [rank, setRank] = useState<number>(0);
-  const [topEmojis, setTopEmojis] = useState<EmojiUsage[]>([]);
-  const [topFriends, setTopFriends] = useState<CombinedFriend[]>([]);
-  const [activityWeight, setActivityWeight] = useState<ServerActivityWeight | null>(null);
-  const [achievements, setAchievements] = useState<EarnedAchievement[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// Rendered per request so privacy is checked against the signed-in viewer on the
+// server, and hidden members' data never reaches the browser
+export const dynamic = 'force-dynamic';
 
-  useEffect(() => {
-    async function loadData() {
-      try {
-        const [serverData, memberData, rankData, emojisData, friendsData, weightData, achievementsData] = await Promise.all([
-          getServer(serverId),
-          getMemberProfile(serverId, memberId),
-          getMemberRank(serverId, memberId),
-          getMemberTopEmojis(serverId, memberId, 10),
-          getCombinedTopFriends(serverId, memberId, 5),
-          getServerActivityWeight(serverId),
-          getMemberAchievements(serverId, memberId),
-        ]);
+interface MemberProfilePageProps {
+  params: Promise<{ serverId: string; memberId: string }>;
+}
 
-        setServer(serverData);
-        setMember(memberData);
-        setRank(rankData);
-        setTopEmojis(emojisData);
-        setTopFriends(friendsData);
-        setActivityWeight(weightData);
-        setAchievements(achievementsData);
-      } catch (err) {
-        setError('Failed to load member profile');
-        console.error(err);
-      } finally {
-        setLoading(false);
-      }
-    }
+export default async function MemberProfilePage({ params }: MemberProfilePageProps) {
+  const { serverId, memberId } = await params;
 
-    loadData();
-  }, [serverId, memberId]);
+  const [server, viewer] = await Promise.all([getServer(serverId), getViewer()]);
+  if (!server) {
+    notFound();
+  }
 
-  if (loading) {
+  // Members who hid their profile only get the server header
+  if (!(await canViewerSeeMember(serverId, memberId, viewer))) {
     return (
       <div className="max-w-4xl mx-auto">
-        <Skeleton className="h-6 w-32 mb-6" />
-        <div className="flex items-center gap-4 mb-8">
-          <Skeleton className="h-32 w-32 rounded-full" />
-          <div className="space-y-2">
-            <Skeleton className="h-8 w-48" />
-            <Skeleton className="h-4 w-32" />
-          </div>
-        </div>
-        <div className="grid gap-4 grid-cols-2 md:grid-cols-4 mb-8">
-          {[...Array(4)].map((_, i) => (
-            <StatCardSkeleton key={i} />
-          ))}
-        </div>
-        <CardSkeleton />
+        <Link
+          href={`/${serverId}`}
+          className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          <span>{server.name}</span>
+        </Link>
+        <Card className="text-center py-12">
+          <Lock className="w-8 h-8 text-gray-500 mx-auto mb-3" />
+          <p className="text-white font-medium mb-1">This profile is private</p>
+          <p className="text-sm text-gray-400">
+            {viewer.userId
+              ? 'This member has limited who can see their stats.'
+              : 'Sign in with Discord to see profiles shared with server members.'}
+          </p>
+        </Card>
       </div>
     );
   }
 
-  if (error || !member || !server) {
+  const [
+    member,
+    rank,
+    topEmojis,
+    topFriends,
+    activityWeight,
+    achievements,
+    achievementProgress,
+    achievementRarities,
+    achievementDefinitions,
+    streakDays,
+  ] = await Promise.all([
+    getMemberProfile(serverId, memberId, viewer),
+    getMemberRank(serverId, memberId),
+    getMemberTopEmojis(serverId, memberId, 10),
+    getCombinedTopFriends(serverId, memberId, viewer, 5),
+    getServerActivityWeight(serverId),
+    getMemberAchievements(serverId, memberId),
+    getMemberAchievementProgress(serverId, memberId, viewer),
+    getAchievementRarities(serverId),
+    getAchievementDefinitions(serverId),
+    getMemberStreakDays(serverId, memberId, viewer),
+  ]);
+
+  if (!member) {
     return (
       <div className="max-w-4xl mx-auto text-center py-12">
-        <p className="text-gray-400">{error || 'Member not found'}</p>
+        <p className="text-gray-400">Member not found</p>
         <Link
           href={`/${serverId}`}
           className="text-discord-blurple hover:underline mt-4 inline-block"
@@ -138,9 +146,43 @@ export default function MemberProfilePage() {
           size="xl"
         />
         <div className="text-center sm:text-left flex-1">
-          <h1 className="text-3xl font-bold text-white mb-1">
-            {member.display_name || member.username || 'Unknown User'}
-          </h1>
+          <div className="flex items-center justify-center sm:justify-between gap-4 mb-1">
+            <h1 className="text-3xl font-bold text-white">
+              {member.display_name || member.username || 'Unknown User'}
+            </h1>
+            <div className="flex items-center gap-4">
+              <Link
+                href={`/${serverId}/compare?a=${memberId}`}
+                className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                <Scale className="w-4 h-4" />
+                Compare
+              </Link>
+              <Link
+                href={`/${serverId}/${memberId}/wrapped/${new Date().getUTCFullYear()}`}
+                className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                <Sparkles className="w-4 h-4" />
+                Wrapped
+              </Link>
+              <Link
+                href={`/${serverId}/${memberId}/cards`}
+                className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                <Layers className="w-4 h-4" />
+                Cards
+              </Link>
+              {viewer.userId === memberId && (
+                <Link
+                  href={`/${serverId}/settings`}
+                  className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+                >
+                  <Shield className="w-4 h-4" />
+                  Privacy settings
+                </Link>
+              )}
+            </div>
+          </div>
           {member.display_name && member.username && (
             <p className="text-gray-400 mb-2">@{member.username}</p>
           )}
@@ -214,6 +256,16 @@ export default function MemberProfilePage() {
         <MemberActivityChart serverId={serverId} memberId={memberId} />
       </div>
 
+      {/* Streaks */}
+      <div className="mb-8">
+        <StreakBadges days={streakDays || []} isSelf={viewer.userId === memberId} />
+      </div>
+
+      {/* Hour-of-Week Heatmap */}
+      <div className="mb-8">
+        <MemberHourHeatmap serverId={serverId} memberId={memberId} />
+      </div>
+
       {/* Voice Timeline */}
       <div className="mb-8">
         <VoiceTimeline serverId={serverId} memberId={memberId} />
@@ -224,6 +276,10 @@ export default function MemberProfilePage() {
         <AchievementsSection
           achievements={achievements}
           totalXp={achievements.reduce((sum, a) => sum + a.xp_awarded, 0)}
+          progress={achievementProgress || []}
+          streakDays={streakDays || []}
+          rarities={achievementRarities}
+          definitions={achievementDefinitions.map(maskSecretAchievement)}
         />
       </div>
 
@@ -0,0 +1,155 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import { getMemberWrapped, getWrappedYears, isValidWrappedYear } from '@/lib/queries/wrapped';
+import { getViewer } from '@/lib/auth/viewer';
+import { Avatar } from '@/components/ui/avatar';
+import { Card } from '@/components/ui/card';
+import { WrappedSlides, WrappedSlide } from '@/components/wrapped/wrapped-slides';
+import { getSummarySlides, SlideKicker, SlideStat } from '@/components/wrapped/wrapped-slide-parts';
+import { formatDuration } from '@/lib/utils';
+import { ChevronLeft, Lock } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+interface MemberWrappedPageProps {
+  params: Promise<{ serverId: string; memberId: string; year: string }>;
+}
+
+export default async function MemberWrappedPage({ params }: MemberWrappedPageProps) {
+  const { serverId, memberId, year: yearParam } = await params;
+  const year = Number(yearParam);
+
+  if (!isValidWrappedYear(year)) {
+    notFound();
+  }
+
+  const server = await getServer(serverId);
+  if (!server) {
+    notFound();
+  }
+
+  const viewer = await getViewer();
+  const wrapped = await getMemberWrapped(serverId, memberId, year, viewer);
+
+  const backLink = (
+    <Link
+      href={`/${serverId}/${memberId}`}
+      className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+    >
+      <ChevronLeft className="w-4 h-4" />
+      <span>Back to profile</span>
+    </Link>
+  );
+
+  // Private and missing members look the same so hidden members can't be probed
+  if (!wrapped) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        {backLink}
+        <Card className="text-center py-12">
+          <Lock className="w-8 h-8 text-gray-500 mx-auto mb-3" />
+          <p className="text-white font-medium mb-1">This Wrapped isn&apos;t available</p>
+          <p className="text-sm text-gray-400">
+            The member doesn&apos;t exist or has limited who can see their stats.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  const name = wrapped.member.display_name || wrapped.member.username || 'Unknown';
+  const years = getWrappedYears(server.joined_at);
+  const hasActivity = wrapped.activeDays > 0;
+
+  const slides: WrappedSlide[] = [
+    {
+      key: 'intro',
+      gradient: 'from-discord-blurple to-indigo-900',
+      content: (
+        <div className="flex flex-col items-center text-center">
+          <Avatar src={wrapped.member.avatar_url} alt={name} size="xl" />
+          <h1 className="text-4xl font-extrabold text-white mt-4">{name}&apos;s {year}</h1>
+          <p className="text-white/70 mt-2">
+            {hasActivity ? `A year in ${server.name}` : `No activity in ${server.name} this year`}
+          </p>
+        </div>
+      ),
+    },
+  ];
+
+  if (hasActivity) {
+    slides.push(...getSummarySlides(wrapped, { subject: 'You' }));
+
+    if (wrapped.topFriends.length > 0) {
+      slides.push({
+        key: 'friends',
+        gradient: 'from-rose-500 to-purple-700',
+        content: (
+          <div>
+            <SlideKicker>Your voice crew</SlideKicker>
+            <ol className="space-y-3 mt-4">
+              {wrapped.topFriends.map((friend) => (
+                <li key={friend.user_id} className="flex items-center gap-3">
+                  <Avatar src={friend.avatar_url} alt={friend.username || 'User'} size="sm" />
+                  <span className="flex-1 text-lg font-semibold text-white truncate">
+                    {friend.display_name || friend.username || 'Unknown'}
+                  </span>
+                  <span className="text-white/70">{formatDuration(friend.shared_seconds)}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ),
+      });
+    }
+
+    const ranks = [
+      { label: 'for messages', value: wrapped.percentiles.messages },
+      { label: 'for voice time', value: wrapped.percentiles.voice },
+      { label: 'for XP', value: wrapped.percentiles.xp },
+    ].filter((rank): rank is { label: string; value: number } => rank.value !== null);
+
+    if (ranks.length > 0) {
+      slides.push({
+        key: 'percentiles',
+        gradient: 'from-amber-500 to-yellow-700',
+        content: (
+          <div className="space-y-6 text-center">
+            <SlideKicker>Compared to everyone else</SlideKicker>
+            {ranks.map((rank) => (
+              <SlideStat key={rank.label} value={`Top ${rank.value}%`} label={rank.label} />
+            ))}
+          </div>
+        ),
+      });
+    }
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      {backLink}
+
+      <WrappedSlides key={year} slides={slides} shareTitle={`${name}'s ${year} Wrapped`} />
+
+      {/* Other Years */}
+      {years.length > 1 && (
+        <div className="flex flex-wrap gap-1 mt-6">
+          {years.map((y) => (
+            <Link
+              key={y}
+              href={`/${serverId}/${memberId}/wrapped/${y}`}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                y === year
+                  ? 'bg-discord-blurple text-white'
+                  : 'bg-discord-darker text-gray-400 hover:text-white'
+              }`}
+            >
+              {y}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
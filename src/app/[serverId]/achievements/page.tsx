@@ -0,0 +1,95 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import { getServerAchievementStats } from '@/lib/queries/achievements';
+import { getViewer } from '@/lib/auth/viewer';
+import { Card } from '@/components/ui/card';
+import { AchievementRarityList } from '@/components/server/achievement-rarity-list';
+import { RARITY_INFO, RARITY_ORDER } from '@/lib/achievements';
+import { formatNumber } from '@/lib/utils';
+import { Award, ChevronLeft, Lock, Trophy, Users } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+interface AchievementsPageProps {
+  params: Promise<{ serverId: string }>;
+}
+
+export default async function AchievementsPage({ params }: AchievementsPageProps) {
+  const { serverId } = await params;
+
+  const viewer = await getViewer();
+  const [server, stats] = await Promise.all([
+    getServer(serverId),
+    getServerAchievementStats(serverId, viewer),
+  ]);
+
+  if (!server) {
+    notFound();
+  }
+
+  const unearnedCount = stats.achievements.filter((a) => a.earned_count === 0).length;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Back Button */}
+      <Link
+        href={`/${serverId}`}
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>{server.name}</span>
+      </Link>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="flex items-center gap-2 text-2xl font-bold text-white">
+          <Trophy className="w-6 h-6 text-yellow-400" />
+          Achievements
+        </h1>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+          {RARITY_ORDER.map((rarity) => (
+            <span key={rarity} className={RARITY_INFO[rarity].color}>
+              {RARITY_INFO[rarity].name}
+              {RARITY_INFO[rarity].minPercent > 0 && (
+                <span className="text-gray-500"> ≥{RARITY_INFO[rarity].minPercent}%</span>
+              )}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Stats Grid */}
+      <div className="grid gap-4 grid-cols-1 sm:grid-cols-3 mb-8">
+        <Card>
+          <div className="flex items-center gap-2 text-gray-400 mb-1">
+            <Award className="w-4 h-4" />
+            <span className="text-xs uppercase">Unlocks</span>
+          </div>
+          <p className="text-2xl font-bold text-white tabular-nums">{formatNumber(stats.totalUnlocks)}</p>
+        </Card>
+        <Card>
+          <div className="flex items-center gap-2 text-gray-400 mb-1">
+            <Users className="w-4 h-4" />
+            <span className="text-xs uppercase">Members with XP</span>
+          </div>
+          <p className="text-2xl font-bold text-white tabular-nums">{formatNumber(stats.memberCount)}</p>
+        </Card>
+        <Card>
+          <div className="flex items-center gap-2 text-gray-400 mb-1">
+            <Lock className="w-4 h-4" />
+            <span className="text-xs uppercase">Never Earned</span>
+          </div>
+          <p className="text-2xl font-bold text-white tabular-nums">
+            {unearnedCount} / {stats.achievements.length}
+          </p>
+        </Card>
+      </div>
+
+      <AchievementRarityList
+        serverId={serverId}
+        achievements={stats.achievements}
+        memberCount={stats.memberCount}
+      />
+    </div>
+  );
+}
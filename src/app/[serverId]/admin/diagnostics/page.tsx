@@ -0,0 +1,290 @@
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { getSession } from '@/lib/auth/session';
+import { isGuildAdmin } from '@/lib/auth/admin';
+import { getServer } from '@/lib/queries/server';
+import {
+  OVERLAP_WINDOW_DAYS,
+  STALE_SESSION_HOURS,
+  getOverlappingSessions,
+  getStaleSessions,
+  getSuspiciousDurationSessions,
+  getVoicePairDiagnostics,
+} from '@/lib/queries/diagnostics';
+import { formatDuration } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LocalDateTime } from '@/components/ui/local-time';
+import { DiagnosticSession } from '@/types';
+import { AlertCircle, AlertTriangle, Check, ChevronLeft, Clock, Copy, Users } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+interface DiagnosticsPageProps {
+  params: Promise<{ serverId: string }>;
+  searchParams: Promise<{ saved?: string; error?: string; a?: string; b?: string }>;
+}
+
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+
+const inputClass =
+  'bg-discord-darker text-white text-sm px-2 py-1.5 rounded-lg border border-discord-lighter/20 focus:outline-none focus:border-discord-blurple';
+
+function SessionSummary({ serverId, session }: { serverId: string; session: DiagnosticSession }) {
+  return (
+    <div className="min-w-0">
+      <Link
+        href={`/${serverId}/${session.user_id}`}
+        className="text-sm font-medium text-white hover:text-discord-blurple transition-colors truncate block"
+      >
+        {session.display_name || session.username || session.user_id}
+      </Link>
+      <p className="text-xs text-gray-400 truncate">
+        #{session.id} · {session.channel_name || session.channel_id} ·{' '}
+        <LocalDateTime isoString={session.joined_at} />
+        {session.left_at && (
+          <>
+            {' → '}
+            <LocalDateTime isoString={session.left_at} />
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
+
+function EmptyCheck({ label }: { label: string }) {
+  return (
+    <p className="flex items-center justify-center gap-2 text-sm text-discord-green py-4">
+      <Check className="w-4 h-4" />
+      {label}
+    </p>
+  );
+}
+
+export default async function DiagnosticsPage({ params, searchParams }: DiagnosticsPageProps) {
+  const { serverId } = await params;
+  const { saved, error, a, b } = await searchParams;
+
+  const user = await getSession();
+  if (!user) {
+    redirect(`/api/auth/login?returnTo=/${serverId}/admin/diagnostics`);
+  }
+
+  const server = await getServer(serverId);
+  if (!server || !(await isGuildAdmin(user, serverId))) {
+    notFound();
+  }
+
+  // Only look up a pair once both IDs are valid, since they end up in a filter string
+  const pairIds = a && b && SNOWFLAKE_PATTERN.test(a) && SNOWFLAKE_PATTERN.test(b) && a !== b ? [a, b] : null;
+
+  const [staleSessions, suspiciousSessions, overlaps, pair] = await Promise.all([
+    getStaleSessions(serverId),
+    getSuspiciousDurationSessions(serverId),
+    getOverlappingSessions(serverId),
+    pairIds ? getVoicePairDiagnostics(serverId, pairIds[0], pairIds[1]) : null,
+  ]);
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <Link
+        href={`/${serverId}/admin`}
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>Server admin</span>
+      </Link>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-white mb-1">Data diagnostics</h1>
+        <p className="text-gray-400">Voice session checks for {server.name}</p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 mb-6 px-4 py-3 rounded-lg bg-discord-red/10 text-discord-red text-sm">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+      {saved && !error && (
+        <div className="flex items-center gap-2 mb-6 px-4 py-3 rounded-lg bg-discord-green/10 text-discord-green text-sm">
+          <Check className="w-4 h-4" />
+          Session closed
+        </div>
+      )}
+
+      {/* Stale Sessions */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Stale Sessions ({staleSessions.length})
+          </CardTitle>
+          <p className="text-xs text-gray-500 mt-1">
+            Still open after {STALE_SESSION_HOURS}+ hours. Closing one ends it at the member&apos;s last
+            recorded voice state change, or at its join time if there is none.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {staleSessions.length === 0 ? (
+            <EmptyCheck label="No stale sessions" />
+          ) : (
+            <div className="space-y-2">
+              {staleSessions.map((session) => (
+                <form
+                  key={session.id}
+                  action={`/api/admin/${serverId}/diagnostics`}
+                  method="post"
+                  className="flex flex-wrap items-center gap-3 p-2 rounded-lg bg-discord-darker"
+                >
+                  <input type="hidden" name="session_id" value={session.id} />
+                  <div className="flex-1 min-w-0">
+                    <SessionSummary serverId={serverId} session={session} />
+                  </div>
+                  <span className="text-sm text-discord-yellow">
+                    open {formatDuration(Math.round((Date.now() - new Date(session.joined_at).getTime()) / 1000))}
+                  </span>
+                  <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer">
+                    <input type="checkbox" name="confirm" className="accent-discord-red" />
+                    Confirm
+                  </label>
+                  <button
+                    type="submit"
+                    className="bg-discord-red/80 hover:bg-discord-red text-white text-sm px-3 py-1.5 rounded-lg transition-colors"
+                  >
+                    Close session
+                  </button>
+                </form>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Suspicious Durations */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" />
+            Suspicious Durations ({suspiciousSessions.length})
+          </CardTitle>
+          <p className="text-xs text-gray-500 mt-1">Negative durations, or sessions longer than a day.</p>
+        </CardHeader>
+        <CardContent>
+          {suspiciousSessions.length === 0 ? (
+            <EmptyCheck label="All durations look plausible" />
+          ) : (
+            <div className="space-y-2">
+              {suspiciousSessions.map((session) => (
+                <div key={session.id} className="flex items-center gap-3 p-2 rounded-lg bg-discord-darker">
+                  <div className="flex-1 min-w-0">
+                    <SessionSummary serverId={serverId} session={session} />
+                  </div>
+                  <span className="text-sm font-mono text-discord-red">
+                    {(session.duration_seconds ?? 0) < 0
+                      ? `${session.duration_seconds}s`
+                      : formatDuration(session.duration_seconds ?? 0)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Overlapping Sessions */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Copy className="w-5 h-5" />
+            Overlapping Sessions ({overlaps.length})
+          </CardTitle>
+          <p className="text-xs text-gray-500 mt-1">
+            The same member recorded in two sessions at once, in the last {OVERLAP_WINDOW_DAYS} days.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {overlaps.length === 0 ? (
+            <EmptyCheck label="No duplicate sessions" />
+          ) : (
+            <div className="space-y-2">
+              {overlaps.map((overlap) => (
+                <div
+                  key={`${overlap.first.id}-${overlap.second.id}`}
+                  className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] items-center gap-3 p-2 rounded-lg bg-discord-darker"
+                >
+                  <SessionSummary serverId={serverId} session={overlap.first} />
+                  <SessionSummary serverId={serverId} session={overlap.second} />
+                  <span className="text-sm text-discord-yellow">{formatDuration(overlap.overlap_seconds)} overlap</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pair Check */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Shared Time Check
+          </CardTitle>
+          <p className="text-xs text-gray-500 mt-1">
+            Recalculate two members&apos; shared voice time and compare it with the cached connection.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form method="get" className="flex flex-wrap items-center gap-2 mb-4">
+            <input type="text" name="a" defaultValue={a} placeholder="Member A ID" className={`${inputClass} w-52 font-mono`} />
+            <input type="text" name="b" defaultValue={b} placeholder="Member B ID" className={`${inputClass} w-52 font-mono`} />
+            <button
+              type="submit"
+              className="bg-discord-blurple hover:bg-discord-blurple/80 text-white text-sm px-3 py-1.5 rounded-lg transition-colors"
+            >
+              Check
+            </button>
+          </form>
+
+          {(a || b) && !pairIds && (
+            <p className="text-sm text-discord-red">Enter two different Discord user IDs.</p>
+          )}
+
+          {pair && (
+            <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+              {[pair.user_a, pair.user_b].map((member) => (
+                <div key={member.user_id} className="p-3 rounded-lg bg-discord-darker">
+                  <p className="text-xs uppercase text-gray-400 truncate">{member.username || member.user_id}</p>
+                  <p className="text-xl font-bold text-white">{formatDuration(member.total_seconds)}</p>
+                  <p className="text-xs text-gray-500">{member.session_count} sessions</p>
+                </div>
+              ))}
+              <div className="p-3 rounded-lg bg-discord-darker">
+                <p className="text-xs uppercase text-gray-400">Shared (fresh)</p>
+                <p className="text-xl font-bold text-white">{formatDuration(pair.shared_seconds)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-discord-darker">
+                <p className="text-xs uppercase text-gray-400">Shared (cached)</p>
+                <p
+                  className={`text-xl font-bold ${
+                    pair.cached_shared_seconds !== null &&
+                    Math.abs(pair.cached_shared_seconds - pair.shared_seconds) > 60
+                      ? 'text-discord-yellow'
+                      : 'text-white'
+                  }`}
+                >
+                  {pair.cached_shared_seconds !== null ? formatDuration(pair.cached_shared_seconds) : '—'}
+                </p>
+                {pair.cached_at && (
+                  <p className="text-xs text-gray-500">
+                    <LocalDateTime isoString={pair.cached_at} />
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { getSession } from '@/lib/auth/session';
+import { isGuildAdmin } from '@/lib/auth/admin';
+import { getServer } from '@/lib/queries/server';
+import { getLevelRoles } from '@/lib/queries/members';
+import { getConfiguredAchievements } from '@/lib/queries/admin';
+import { CATEGORY_INFO } from '@/lib/achievements';
+import { formatNumber } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AchievementCategory } from '@/types';
+import {
+  Activity,
+  ChevronLeft,
+  ChevronUp,
+  ChevronDown,
+  Check,
+  AlertCircle,
+  Award,
+  Shield,
+  Trash2,
+  Plus,
+} from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+interface AdminPageProps {
+  params: Promise<{ serverId: string }>;
+  searchParams: Promise<{ saved?: string; error?: string }>;
+}
+
+const inputClass =
+  'bg-discord-darker text-white text-sm px-2 py-1.5 rounded-lg border border-discord-lighter/20 focus:outline-none focus:border-discord-blurple';
+const buttonClass =
+  'p-1.5 rounded-lg bg-discord-darker text-gray-400 hover:text-white transition-colors disabled:opacity-30 disabled:hover:text-gray-400';
+
+export default async function AdminPage({ params, searchParams }: AdminPageProps) {
+  const { serverId } = await params;
+  const { saved, error } = await searchParams;
+
+  const user = await getSession();
+  if (!user) {
+    redirect(`/api/auth/login?returnTo=/${serverId}/admin`);
+  }
+
+  const server = await getServer(serverId);
+  if (!server) {
+    notFound();
+  }
+
+  if (!(await isGuildAdmin(user, serverId))) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <Link
+          href={`/${serverId}`}
+          className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          <span>{server.name}</span>
+        </Link>
+        <Card className="text-center py-12">
+          <Shield className="w-8 h-8 text-gray-500 mx-auto mb-3" />
+          <p className="text-white font-medium mb-1">Administrator permission required</p>
+          <p className="text-sm text-gray-400">
+            Only the server owner and members with the Administrator permission can manage it.
+            Role changes on Discord can take a few minutes to apply here.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  const [levelRoles, achievements] = await Promise.all([
+    getLevelRoles(serverId),
+    getConfiguredAchievements(serverId),
+  ]);
+
+  const categories = Object.keys(CATEGORY_INFO) as AchievementCategory[];
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <Link
+        href={`/${serverId}`}
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>{server.name}</span>
+      </Link>
+
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-1">Server admin</h1>
+          <p className="text-gray-400">Level roles and achievements for {server.name}</p>
+        </div>
+        <Link
+          href={`/${serverId}/admin/diagnostics`}
+          className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          <Activity className="w-4 h-4" />
+          Data diagnostics
+        </Link>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 mb-6 px-4 py-3 rounded-lg bg-discord-red/10 text-discord-red text-sm">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+      {saved && !error && (
+        <div className="flex items-center gap-2 mb-6 px-4 py-3 rounded-lg bg-discord-green/10 text-discord-green text-sm">
+          <Check className="w-4 h-4" />
+          Changes saved
+        </div>
+      )}
+
+      {/* Level Roles */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="w-5 h-5" />
+            Level Roles
+          </CardTitle>
+          <p className="text-xs text-gray-500 mt-1">
+            Members are given each role when they reach its level. Moving a role swaps its level with its neighbour.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {levelRoles.length === 0 && (
+              <p className="text-gray-400 text-sm text-center py-4">No level roles yet</p>
+            )}
+            {levelRoles.map((role, index) => (
+              <form
+                key={role.id}
+                action={`/api/admin/${serverId}/level-roles`}
+                method="post"
+                className="flex flex-wrap items-center gap-2 p-2 rounded-lg"
+                style={{ backgroundColor: role.role_color ? `${role.role_color}15` : 'rgba(255,255,255,0.03)' }}
+              >
+                <input type="hidden" name="id" value={role.id} />
+                {/* Default button, so pressing Enter saves instead of moving the role */}
+                <button type="submit" name="action" value="update" className="hidden" tabIndex={-1} aria-hidden />
+                <div className="flex flex-col gap-1">
+                  <button type="submit" name="action" value="up" disabled={index === 0} className={buttonClass} title="Move up">
+                    <ChevronUp className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="submit"
+                    name="action"
+                    value="down"
+                    disabled={index === levelRoles.length - 1}
+                    className={buttonClass}
+                    title="Move down"
+                  >
+                    <ChevronDown className="w-3 h-3" />
+                  </button>
+                </div>
+                <input type="number" name="level" min={1} defaultValue={role.level} className={`${inputClass} w-20`} aria-label="Level" />
+                <input type="text" name="role_name" defaultValue={role.role_name || ''} placeholder="Role name" className={`${inputClass} flex-1 min-w-[8rem]`} />
+                <input type="text" name="role_id" defaultValue={role.role_id} placeholder="Role ID" className={`${inputClass} w-48 font-mono`} />
+                <input type="color" name="role_color" defaultValue={role.role_color || '#99aab5'} className="h-8 w-10 bg-transparent cursor-pointer" aria-label="Color" />
+                <button
+                  type="submit"
+                  name="action"
+                  value="update"
+                  className="bg-discord-blurple hover:bg-discord-blurple/80 text-white text-sm px-3 py-1.5 rounded-lg transition-colors"
+                >
+                  Save
+                </button>
+                <button type="submit" name="action" value="delete" className={`${buttonClass} hover:text-discord-red`} title="Delete">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </form>
+            ))}
+          </div>
+
+          <form
+            action={`/api/admin/${serverId}/level-roles`}
+            method="post"
+            className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-discord-lighter/20"
+          >
+            <input type="hidden" name="action" value="create" />
+            <input type="number" name="level" min={1} placeholder="Level" required className={`${inputClass} w-20`} />
+            <input type="text" name="role_name" placeholder="Role name" className={`${inputClass} flex-1 min-w-[8rem]`} />
+            <input type="text" name="role_id" placeholder="Role ID" required className={`${inputClass} w-48 font-mono`} />
+            <input type="color" name="role_color" defaultValue="#5865f2" className="h-8 w-10 bg-transparent cursor-pointer" aria-label="Color" />
+            <button
+              type="submit"
+              className="inline-flex items-center gap-1 bg-discord-darker text-gray-400 hover:text-white text-sm px-3 py-1.5 rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add role
+            </button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Achievements */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Award className="w-5 h-5" />
+            Achievements
+          </CardTitle>
+          <p className="text-xs text-gray-500 mt-1">
+            Disabled achievements are no longer awarded. Leave XP empty to use the default.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-6">
+            {categories.map((category) => {
+              const categoryAchievements = achievements.filter((a) => a.category === category);
+              if (categoryAchievements.length === 0) return null;
+              const info = CATEGORY_INFO[category];
+
+              return (
+                <div key={category}>
+                  <h3 className={`text-sm font-medium mb-2 ${info.color}`}>{info.name}</h3>
+                  <div className="space-y-2">
+                    {categoryAchievements.map((achievement) => (
+                      <form
+                        key={achievement.id}
+                        action={`/api/admin/${serverId}/achievements`}
+                        method="post"
+                        className={`flex flex-wrap items-center gap-3 p-2 rounded-lg bg-discord-darker ${
+                          achievement.enabled ? '' : 'opacity-60'
+                        }`}
+                      >
+                        <input type="hidden" name="achievement_id" value={achievement.id} />
+                        <label className="flex items-center gap-2 flex-1 min-w-[12rem] cursor-pointer">
+                          <input
+                            type="checkbox"
+                            name="enabled"
+                            defaultChecked={achievement.enabled}
+                            className="accent-discord-blurple"
+                          />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-white truncate">{achievement.name}</p>
+                            <p className="text-xs text-gray-400 truncate">{achievement.description}</p>
+                          </div>
+                        </label>
+                        <input
+                          type="number"
+                          name="xp"
+                          min={0}
+                          defaultValue={achievement.xp_overridden ? achievement.xp : ''}
+                          placeholder={formatNumber(achievement.default_xp)}
+                          className={`${inputClass} w-24`}
+                          aria-label="XP"
+                        />
+                        <span className="text-xs text-gray-500">XP</span>
+                        <button
+                          type="submit"
+                          className="bg-discord-blurple hover:bg-discord-blurple/80 text-white text-sm px-3 py-1.5 rounded-lg transition-colors"
+                        >
+                          Save
+                        </button>
+                      </form>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { notFound, redirect } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import { getBinderPage } from '@/lib/queries/cards';
+import { getViewer } from '@/lib/auth/viewer';
+import { ServerCardBinder } from '@/components/cards/server-card-binder';
+
+export const dynamic = 'force-dynamic';
+
+interface ServerCardsPageProps {
+  params: Promise<{ serverId: string }>;
+  searchParams: Promise<{ page?: string }>;
+}
+
+export default async function ServerCardsPage({ params, searchParams }: ServerCardsPageProps) {
+  const { serverId } = await params;
+  const { page: pageParam } = await searchParams;
+  const page = Math.max(1, parseInt(pageParam || '1', 10) || 1);
+
+  const server = await getServer(serverId);
+  if (!server) {
+    notFound();
+  }
+
+  const viewer = await getViewer();
+  const binder = await getBinderPage(serverId, page, viewer);
+  if (page > binder.totalPages) {
+    redirect(`/${serverId}/cards?page=${binder.totalPages}`);
+  }
+
+  const cards = binder.entries.map((entry) => ({
+    id: entry.user_id,
+    src: `/api/cards/${serverId}/${entry.user_id}`,
+    alt: entry.name ? `${entry.name} trading card` : 'Face-down trading card',
+  }));
+
+  return (
+    <ServerCardBinder
+      serverId={serverId}
+      cards={cards}
+      page={page}
+      totalPages={binder.totalPages}
+    />
+  );
+}
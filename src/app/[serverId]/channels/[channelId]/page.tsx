@@ -0,0 +1,175 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import { getChannelDetail, isVoiceChannel } from '@/lib/queries/channels';
+import { getViewer } from '@/lib/auth/viewer';
+import { Avatar } from '@/components/ui/avatar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LocalHour } from '@/components/ui/local-time';
+import { ChannelActivityChart } from '@/components/charts/channel-activity-chart';
+import { HourlyActivityChart } from '@/components/charts/hourly-activity-chart';
+import { formatNumber, formatVoiceTime } from '@/lib/utils';
+import { ChevronLeft, Clock, Hash, MessageSquare, Mic, Users, Volume2 } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+interface ChannelPageProps {
+  params: Promise<{ serverId: string; channelId: string }>;
+}
+
+export default async function ChannelPage({ params }: ChannelPageProps) {
+  const { serverId, channelId } = await params;
+
+  const viewer = await getViewer();
+  const [server, detail] = await Promise.all([
+    getServer(serverId),
+    getChannelDetail(serverId, channelId, viewer),
+  ]);
+
+  if (!server || !detail) {
+    notFound();
+  }
+
+  const { channel, category } = detail;
+  const isVoice = isVoiceChannel(channel);
+  const Icon = isVoice ? Volume2 : Hash;
+
+  // Busiest UTC hour across messages and voice; LocalHour shows it in the viewer's timezone
+  const hourTotals = detail.hourlyMessages.map((count, hour) => count + detail.hourlyVoiceMinutes[hour]);
+  const maxHourTotal = Math.max(...hourTotals);
+  const peakHour = maxHourTotal > 0 ? hourTotals.indexOf(maxHourTotal) : null;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Back Button */}
+      <Link
+        href={`/${serverId}/channels`}
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>Channels</span>
+      </Link>
+
+      {/* Channel Header */}
+      <div className="mb-8">
+        {category && (
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">
+            {category.name}
+          </p>
+        )}
+        <h1 className="flex items-center gap-2 text-3xl font-bold text-white">
+          <Icon className="w-7 h-7 text-gray-500" />
+          {channel.name}
+          {channel.is_deleted && (
+            <span className="px-2 py-0.5 rounded bg-discord-darker text-xs font-medium text-gray-400">
+              Deleted
+            </span>
+          )}
+        </h1>
+      </div>
+
+      {/* Stats Grid */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4 mb-8">
+        <Card>
+          <div className="flex items-center gap-2 text-gray-400 mb-1">
+            <MessageSquare className="w-4 h-4" />
+            <span className="text-xs uppercase">Messages</span>
+          </div>
+          <p className="text-2xl font-bold text-white tabular-nums">
+            {formatNumber(detail.message_count)}
+          </p>
+        </Card>
+
+        <Card>
+          <div className="flex items-center gap-2 text-gray-400 mb-1">
+            <Mic className="w-4 h-4" />
+            <span className="text-xs uppercase">Voice Time</span>
+          </div>
+          <p className="text-2xl font-bold text-white tabular-nums">
+            {formatVoiceTime(detail.voice_minutes)}
+          </p>
+        </Card>
+
+        <Card>
+          <div className="flex items-center gap-2 text-gray-400 mb-1">
+            <Users className="w-4 h-4" />
+            <span className="text-xs uppercase">Participants</span>
+          </div>
+          <p className="text-2xl font-bold text-white tabular-nums">
+            {formatNumber(detail.unique_participants)}
+          </p>
+        </Card>
+
+        <Card>
+          <div className="flex items-center gap-2 text-gray-400 mb-1">
+            <Clock className="w-4 h-4" />
+            <span className="text-xs uppercase">Peak Hour</span>
+          </div>
+          <p className="text-2xl font-bold text-white">
+            <LocalHour utcHour={peakHour} />
+          </p>
+        </Card>
+      </div>
+
+      {/* Activity Chart */}
+      <div className="mb-8">
+        <ChannelActivityChart serverId={serverId} channelId={channelId} />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Peak Hours */}
+        <HourlyActivityChart
+          hourlyMessages={detail.hourlyMessages}
+          hourlyVoiceMinutes={detail.hourlyVoiceMinutes}
+        />
+
+        {/* Top Participants */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              {isVoice ? 'Top Voice Members' : 'Top Posters'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {detail.topParticipants.length === 0 ? (
+              <p className="text-gray-400 text-center py-8">No activity yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {detail.topParticipants.map((participant, index) => (
+                  <Link
+                    key={participant.user_id}
+                    href={`/${serverId}/${participant.user_id}`}
+                    className="flex items-center gap-3 p-2 rounded-lg hover:bg-discord-lighter/20 transition-colors"
+                  >
+                    <span className="w-6 text-center text-sm font-bold text-gray-400">
+                      {index + 1}
+                    </span>
+                    <Avatar
+                      src={participant.avatar_url}
+                      alt={participant.username || 'User'}
+                      size="sm"
+                    />
+                    <span className="flex-1 truncate text-white">
+                      {participant.display_name || participant.username || 'Unknown'}
+                    </span>
+                    {participant.message_count > 0 && (
+                      <span className="text-sm text-gray-400 tabular-nums">
+                        {formatNumber(participant.message_count)} msgs
+                      </span>
+                    )}
+                    {participant.voice_minutes > 0 && (
+                      <span className="text-sm text-gray-400 tabular-nums">
+                        {formatVoiceTime(participant.voice_minutes)}
+                      </span>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
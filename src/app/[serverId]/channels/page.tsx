@@ -0,0 +1,122 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import { getChannelDirectory, isVoiceChannel } from '@/lib/queries/channels';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatNumber, formatVoiceTime } from '@/lib/utils';
+import { ChannelSummary } from '@/types';
+import { Archive, ChevronLeft, Hash, ListTree, Volume2 } from 'lucide-react';
+
+export const revalidate = 60;
+
+interface ChannelsPageProps {
+  params: Promise<{ serverId: string }>;
+}
+
+function ChannelRow({ serverId, channel }: { serverId: string; channel: ChannelSummary }) {
+  const Icon = isVoiceChannel(channel) ? Volume2 : Hash;
+
+  return (
+    <Link
+      href={`/${serverId}/channels/${channel.id}`}
+      className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-discord-lighter/20 transition-colors"
+    >
+      <Icon className="w-4 h-4 text-gray-500 shrink-0" />
+      <span className={`flex-1 truncate ${channel.is_deleted ? 'text-gray-500 line-through' : 'text-white'}`}>
+        {channel.name}
+      </span>
+      {channel.message_count > 0 && (
+        <span className="text-sm text-gray-400 tabular-nums">
+          {formatNumber(channel.message_count)} msgs
+        </span>
+      )}
+      {channel.voice_minutes > 0 && (
+        <span className="text-sm text-gray-400 tabular-nums">
+          {formatVoiceTime(channel.voice_minutes)}
+        </span>
+      )}
+    </Link>
+  );
+}
+
+export default async function ChannelsPage({ params }: ChannelsPageProps) {
+  const { serverId } = await params;
+
+  const [server, directory] = await Promise.all([
+    getServer(serverId),
+    getChannelDirectory(serverId),
+  ]);
+
+  if (!server) {
+    notFound();
+  }
+
+  const channelCount = directory.categories.reduce((sum, c) => sum + c.channels.length, 0);
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {/* Back Button */}
+      <Link
+        href={`/${serverId}`}
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>{server.name}</span>
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <ListTree className="w-5 h-5 text-discord-blurple" />
+              Channels
+            </CardTitle>
+            <span className="text-sm text-gray-400">
+              {formatNumber(channelCount)} {channelCount === 1 ? 'channel' : 'channels'}
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {channelCount === 0 ? (
+            <p className="text-gray-400 text-center py-8">No channels tracked yet.</p>
+          ) : (
+            <div className="space-y-6">
+              {directory.categories.map((category) => (
+                <div key={category.id || 'uncategorized'}>
+                  {category.name && (
+                    <h2 className="px-3 mb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">
+                      {category.name}
+                    </h2>
+                  )}
+                  <div className="space-y-0.5">
+                    {category.channels.map((channel) => (
+                      <ChannelRow key={channel.id} serverId={serverId} channel={channel} />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {directory.deleted.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Archive className="w-4 h-4 text-gray-500" />
+              Deleted Channels
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-0.5">
+              {directory.deleted.map((channel) => (
+                <ChannelRow key={channel.id} serverId={serverId} channel={channel} />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import { getMembers } from '@/lib/queries/members';
+import { getMemberComparison } from '@/lib/queries/compare';
+import { getViewer } from '@/lib/auth/viewer';
+import { Avatar } from '@/components/ui/avatar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CompareActivityChart } from '@/components/charts/compare-activity-chart';
+import { formatDuration, formatNumber, formatVoiceTime, getCustomEmojiUrl } from '@/lib/utils';
+import { ComparedMember, EarnedAchievement, EmojiUsage } from '@/types';
+import { Award, ChevronLeft, Hash, Mic, Scale, Smile } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+interface ComparePageProps {
+  params: Promise<{ serverId: string }>;
+  searchParams: Promise<{ a?: string; b?: string }>;
+}
+
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+const PICKER_SIZE = 25;
+
+function getName(member: ComparedMember): string {
+  return member.profile.display_name || member.profile.username || 'Unknown';
+}
+
+interface StatRow {
+  label: string;
+  a: number;
+  b: number;
+  format: (value: number) => string;
+  lowerIsBetter?: boolean;
+}
+
+function winnerClass(row: StatRow, side: 'a' | 'b'): string {
+  if (row.a === row.b) return 'text-white';
+  const aWins = row.lowerIsBetter ? row.a < row.b : row.a > row.b;
+  return (side === 'a') === aWins ? 'text-discord-green' : 'text-gray-400';
+}
+
+function EmojiList({ emojis }: { emojis: EmojiUsage[] }) {
+  if (emojis.length === 0) {
+    return <p className="text-sm text-gray-500">No emojis yet</p>;
+  }
+  return (
+    <div className="flex flex-wrap gap-2">
+      {emojis.map((emoji) => (
+        <div
+          key={emoji.emoji_id || emoji.emoji}
+          className="flex items-center gap-2 bg-discord-darker px-2 py-1 rounded-lg"
+        >
+          {emoji.is_custom && emoji.emoji_id ? (
+            <Image
+              src={getCustomEmojiUrl(emoji.emoji_id)}
+              alt={emoji.emoji}
+              width={20}
+              height={20}
+              className="object-contain"
+              unoptimized
+            />
+          ) : (
+            <span className="text-lg">{emoji.emoji}</span>
+          )}
+          <span className="text-gray-400 text-xs">{formatNumber(emoji.total)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AchievementList({ achievements }: { achievements: EarnedAchievement[] }) {
+  if (achievements.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing the other doesn&apos;t have</p>;
+  }
+  return (
+    <div className="space-y-2">
+      {achievements.map((achievement) => (
+        <div key={achievement.id} className="p-2 rounded-lg bg-discord-darker" title={achievement.description}>
+          <p className="text-sm font-medium text-white truncate">{achievement.name}</p>
+          <p className="text-xs text-gray-400 truncate">{achievement.description}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default async function ComparePage({ params, searchParams }: ComparePageProps) {
+  const { serverId } = await params;
+  const { a, b } = await searchParams;
+
+  const server = await getServer(serverId);
+  if (!server) {
+    notFound();
+  }
+
+  const validA = a && SNOWFLAKE_PATTERN.test(a) ? a : null;
+  const validB = b && SNOWFLAKE_PATTERN.test(b) && b !== validA ? b : null;
+
+  const backLink = (
+    <Link
+      href={`/${serverId}`}
+      className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+    >
+      <ChevronLeft className="w-4 h-4" />
+      <span>{server.name}</span>
+    </Link>
+  );
+
+  // Pick whichever member is still missing from the top of the leaderboard
+  if (!validA || !validB) {
+    const { members } = await getMembers({ guildId: serverId, limit: PICKER_SIZE });
+    const picking = validA ? 'b' : 'a';
+
+    return (
+      <div className="max-w-2xl mx-auto">
+        {backLink}
+        <h1 className="text-3xl font-bold text-white mb-1">Compare members</h1>
+        <p className="text-gray-400 mb-8">
+          {validA ? 'Pick a second member to compare against' : 'Pick the first member to compare'}
+        </p>
+        <Card>
+          <CardContent className="space-y-1 pt-4">
+            {members
+              .filter((m) => m.user_id !== validA)
+              .map((member) => (
+                <Link
+                  key={member.user_id}
+                  href={
+                    picking === 'a'
+                      ? `/${serverId}/compare?a=${member.user_id}`
+                      : `/${serverId}/compare?a=${validA}&b=${member.user_id}`
+                  }
+                  className="flex items-center gap-3 p-2 rounded-lg hover:bg-discord-lighter/50 transition-colors"
+                >
+                  <Avatar src={member.avatar_url} alt={member.username || 'User'} size="sm" />
+                  <span className="flex-1 text-sm text-white truncate">
+                    {member.display_name || member.username || 'Unknown'}
+                  </span>
+                  <span className="text-xs text-gray-400">Level {member.level}</span>
+                </Link>
+              ))}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const viewer = await getViewer();
+  const comparison = await getMemberComparison(serverId, validA, validB, viewer);
+
+  if (!comparison) {
+    return (
+      <div className="max-w-4xl mx-auto text-center py-12">
+        <p className="text-gray-400">One of these members doesn&apos;t exist or has a private profile.</p>
+        <Link href={`/${serverId}/compare`} className="text-discord-blurple hover:underline mt-4 inline-block">
+          Pick other members
+        </Link>
+      </div>
+    );
+  }
+
+  const { a: memberA, b: memberB, sharedVoice, onlyA, onlyB, sharedAchievementCount } = comparison;
+
+  const rows: StatRow[] = [
+    { label: 'Level', a: memberA.profile.level, b: memberB.profile.level, format: String },
+    { label: 'XP', a: memberA.profile.xp, b: memberB.profile.xp, format: formatNumber },
+    { label: 'Rank', a: memberA.rank, b: memberB.rank, format: (v) => `#${v}`, lowerIsBetter: true },
+    { label: 'Messages', a: memberA.profile.message_count, b: memberB.profile.message_count, format: formatNumber },
+    { label: 'Voice Time', a: memberA.profile.voice_minutes, b: memberB.profile.voice_minutes, format: formatVoiceTime },
+    { label: 'Achievements', a: memberA.achievements.length, b: memberB.achievements.length, format: String },
+  ];
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {backLink}
+
+      {/* Header */}
+      <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-4 mb-8">
+        {[memberA, memberB].map((member, i) => (
+          <Link
+            key={member.profile.user_id}
+            href={`/${serverId}/${member.profile.user_id}`}
+            className={`flex items-center gap-3 min-w-0 ${i === 0 ? 'justify-end text-right' : 'order-last'}`}
+          >
+            {i === 1 && <Avatar src={member.profile.avatar_url} alt={getName(member)} size="lg" />}
+            <div className="min-w-0">
+              <p className={`text-xl font-bold truncate ${i === 0 ? 'text-discord-blurple' : 'text-pink-400'}`}>
+                {getName(member)}
+              </p>
+              <p className="text-sm text-gray-400">Level {member.profile.level}</p>
+            </div>
+            {i === 0 && <Avatar src={member.profile.avatar_url} alt={getName(member)} size="lg" />}
+          </Link>
+        ))}
+        <div className="flex flex-col items-center text-gray-500">
+          <Scale className="w-6 h-6" />
+          <span className="text-xs uppercase">vs</span>
+        </div>
+      </div>
+
+      {/* Stat Rows */}
+      <Card className="mb-8">
+        <CardContent className="pt-4 divide-y divide-discord-lighter/20">
+          {rows.map((row) => (
+            <div key={row.label} className="grid grid-cols-3 items-center py-2">
+              <span className={`text-right font-bold ${winnerClass(row, 'a')}`}>{row.format(row.a)}</span>
+              <span className="text-center text-xs uppercase text-gray-400">{row.label}</span>
+              <span className={`font-bold ${winnerClass(row, 'b')}`}>{row.format(row.b)}</span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Activity Overlay */}
+      <div className="mb-8">
+        <CompareActivityChart
+          serverId={serverId}
+          memberA={{ id: memberA.profile.user_id, name: getName(memberA) }}
+          memberB={{ id: memberB.profile.user_id, name: getName(memberB) }}
+        />
+      </div>
+
+      {/* Shared Voice */}
+      <Card className="mb-8">
+        <div className="flex items-center gap-2 text-gray-400 mb-1">
+          <Mic className="w-4 h-4" />
+          <span className="text-xs uppercase">Time Together in Voice</span>
+        </div>
+        <p className="text-2xl font-bold text-white">
+          {sharedVoice ? formatDuration(sharedVoice.shared_seconds) : 'Never'}
+        </p>
+        {sharedVoice && (
+          <p className="text-xs text-gray-500">
+            Across {formatNumber(sharedVoice.session_count)} sessions
+          </p>
+        )}
+      </Card>
+
+      {/* Top Emojis and Channels */}
+      <div className="grid gap-6 md:grid-cols-2 mb-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Smile className="w-5 h-5" />
+              Top Emojis
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {[memberA, memberB].map((member) => (
+              <div key={member.profile.user_id}>
+                <p className="text-xs uppercase text-gray-400 mb-2">{getName(member)}</p>
+                <EmojiList emojis={member.topEmojis} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hash className="w-5 h-5" />
+              Top Channels
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {[memberA, memberB].map((member) => (
+              <div key={member.profile.user_id}>
+                <p className="text-xs uppercase text-gray-400 mb-2">{getName(member)}</p>
+                {member.topChannels.length === 0 ? (
+                  <p className="text-sm text-gray-500">No messages yet</p>
+                ) : (
+                  <div className="space-y-1">
+                    {member.topChannels.map((channel) => (
+                      <div key={channel.channelId} className="flex items-center justify-between text-sm">
+                        <span className="text-white truncate">#{channel.channelName || 'unknown'}</span>
+                        <span className="text-gray-400">{formatNumber(channel.messageCount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Achievement Differences */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Award className="w-5 h-5" />
+            Achievements
+          </CardTitle>
+          <p className="text-xs text-gray-500 mt-1">{sharedAchievementCount} earned by both</p>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-6 md:grid-cols-2">
+            <div>
+              <p className="text-xs uppercase text-discord-blurple mb-2">Only {getName(memberA)}</p>
+              <AchievementList achievements={onlyA} />
+            </div>
+            <div>
+              <p className="text-xs uppercase text-pink-400 mb-2">Only {getName(memberB)}</p>
+              <AchievementList achievements={onlyB} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
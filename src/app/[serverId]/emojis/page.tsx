@@ -0,0 +1,195 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import {
+  getEmojiKey,
+  getServerEmojiStats,
+  RARELY_USED_THRESHOLD,
+  RARELY_USED_WINDOW_DAYS,
+} from '@/lib/queries/emojis';
+import { getViewer } from '@/lib/auth/viewer';
+import { Avatar } from '@/components/ui/avatar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { EmojiIcon } from '@/components/ui/emoji';
+import { EmojiTrendChart } from '@/components/charts/emoji-trend-chart';
+import { formatNumber, formatUtcDateToLocal } from '@/lib/utils';
+import { EmojiTimeRange } from '@/types';
+import { ChevronLeft, Hash, Scissors, Smile, Sparkles } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+const RANGES: { value: EmojiTimeRange; label: string }[] = [
+  { value: '30d', label: '30 Days' },
+  { value: '90d', label: '90 Days' },
+  { value: 'all', label: 'All Time' },
+];
+
+interface EmojisPageProps {
+  params: Promise<{ serverId: string }>;
+  searchParams: Promise<{ range?: string }>;
+}
+
+export default async function EmojisPage({ params, searchParams }: EmojisPageProps) {
+  const { serverId } = await params;
+  const { range: rangeParam } = await searchParams;
+  const range = RANGES.find((r) => r.value === rangeParam)?.value || '30d';
+
+  const viewer = await getViewer();
+  const [server, stats] = await Promise.all([
+    getServer(serverId),
+    getServerEmojiStats(serverId, range, viewer),
+  ]);
+
+  if (!server) {
+    notFound();
+  }
+
+  const customShare = stats.totalUses > 0 ? Math.round((stats.customUses / stats.totalUses) * 100) : 0;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Back Button */}
+      <Link
+        href={`/${serverId}`}
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>{server.name}</span>
+      </Link>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="flex items-center gap-2 text-2xl font-bold text-white">
+          <Smile className="w-6 h-6 text-yellow-400" />
+          Emojis
+        </h1>
+        <div className="flex items-center gap-1">
+          {RANGES.map((r) => (
+            <Link
+              key={r.value}
+              href={`/${serverId}/emojis${r.value === '30d' ? '' : `?range=${r.value}`}`}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                range === r.value
+                  ? 'bg-discord-blurple text-white'
+                  : 'bg-discord-darker text-gray-400 hover:text-white'
+              }`}
+            >
+              {r.label}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      {/* Stats Grid */}
+      <div className="grid gap-4 grid-cols-1 sm:grid-cols-3 mb-8">
+        <Card>
+          <div className="flex items-center gap-2 text-gray-400 mb-1">
+            <Hash className="w-4 h-4" />
+            <span className="text-xs uppercase">Emoji Uses</span>
+          </div>
+          <p className="text-2xl font-bold text-white tabular-nums">{formatNumber(stats.totalUses)}</p>
+        </Card>
+        <Card>
+          <div className="flex items-center gap-2 text-gray-400 mb-1">
+            <Smile className="w-4 h-4" />
+            <span className="text-xs uppercase">Different Emojis</span>
+          </div>
+          <p className="text-2xl font-bold text-white tabular-nums">{formatNumber(stats.uniqueEmojis)}</p>
+        </Card>
+        <Card>
+          <div className="flex items-center gap-2 text-gray-400 mb-1">
+            <Sparkles className="w-4 h-4" />
+            <span className="text-xs uppercase">Custom Share</span>
+          </div>
+          <p className="text-2xl font-bold text-white tabular-nums">{customShare}%</p>
+        </Card>
+      </div>
+
+      {/* Trends */}
+      <div className="mb-8">
+        <EmojiTrendChart emojis={stats.trendEmojis} trend={stats.trend} bucket={stats.trendBucket} />
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Ranking */}
+        <Card className="flex-1 min-w-0">
+          <CardHeader>
+            <CardTitle>Most Used</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {stats.ranking.length === 0 ? (
+              <p className="text-gray-400 text-center py-8">No emoji usage in this period.</p>
+            ) : (
+              <div className="space-y-2">
+                {stats.ranking.map((emoji, index) => (
+                  <div
+                    key={getEmojiKey(emoji)}
+                    className="flex items-center gap-3 p-2 rounded-lg bg-discord-darker"
+                  >
+                    <span className="w-6 text-center text-sm font-bold text-gray-400">{index + 1}</span>
+                    <div className="w-8 flex justify-center shrink-0">
+                      <EmojiIcon emoji={emoji} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white font-medium tabular-nums">{formatNumber(emoji.total)}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatNumber(emoji.unique_users)} {emoji.unique_users === 1 ? 'member' : 'members'}
+                        {' · '}last used {formatUtcDateToLocal(emoji.last_used)}
+                      </p>
+                    </div>
+                    <div className="flex items-center -space-x-2">
+                      {emoji.topUsers.map((user) => (
+                        <Link
+                          key={user.user_id}
+                          href={`/${serverId}/${user.user_id}`}
+                          title={`${user.display_name || user.username || 'Unknown'}: ${formatNumber(user.total)}`}
+                          className="rounded-full ring-2 ring-discord-darker hover:z-10"
+                        >
+                          <Avatar src={user.avatar_url} alt={user.username || 'User'} size="xs" />
+                        </Link>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pruning Candidates */}
+        <Card className="lg:w-80 shrink-0 self-start">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scissors className="w-5 h-5 text-gray-400" />
+              Rarely Used
+            </CardTitle>
+            <p className="text-xs text-gray-500 mt-1">
+              Custom emojis used {RARELY_USED_THRESHOLD} times or fewer in the last{' '}
+              {RARELY_USED_WINDOW_DAYS} days. Emojis that have never been used aren&apos;t tracked.
+            </p>
+          </CardHeader>
+          <CardContent>
+            {stats.rarelyUsed.length === 0 ? (
+              <p className="text-gray-400 text-sm text-center py-4">Every custom emoji is pulling its weight.</p>
+            ) : (
+              <div className="space-y-2">
+                {stats.rarelyUsed.map((emoji) => (
+                  <div key={getEmojiKey(emoji)} className="flex items-center gap-3">
+                    <div className="w-8 flex justify-center shrink-0">
+                      <EmojiIcon emoji={emoji} size={24} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">{emoji.emoji}</p>
+                      <p className="text-xs text-gray-500">
+                        {emoji.recent_uses} recent · last used {formatUtcDateToLocal(emoji.last_used)}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,399 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import { getMembers, getLevelRoles, SortField, SortOrder, GetMembersResult } from '@/lib/queries/members';
+import {
+  getPeriodLeaderboard,
+  getPeriodRange,
+  getRangeLength,
+  LeaderboardPeriod,
+  PeriodSortField,
+  GetPeriodLeaderboardResult,
+} from '@/lib/queries/period-leaderboard';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LeaderboardRow } from '@/components/server/leaderboard-row';
+import { PeriodLeaderboardRow } from '@/components/server/period-leaderboard-row';
+import { formatNumber, formatUtcDateToLocal } from '@/lib/utils';
+import {
+  ChevronLeft,
+  ChevronRight,
+  ArrowUp,
+  ArrowDown,
+  Search,
+  Trophy,
+  Calendar,
+} from 'lucide-react';
+
+export const revalidate = 60;
+
+const PAGE_SIZE = 25;
+
+type LeaderboardRange = 'all' | LeaderboardPeriod;
+type LeaderboardSort = SortField | 'reaction_count';
+
+const RANGES: { value: LeaderboardRange; label: string }[] = [
+  { value: 'all', label: 'All Time' },
+  { value: '7d', label: 'Last 7 Days' },
+  { value: '30d', label: 'Last 30 Days' },
+  { value: 'custom', label: 'Custom' },
+];
+
+// Lifetime totals come from member_levels
+const ALL_TIME_SORT_FIELDS: { value: LeaderboardSort; label: string }[] = [
+  { value: 'xp', label: 'XP' },
+  { value: 'level', label: 'Level' },
+  { value: 'message_count', label: 'Messages' },
+  { value: 'voice_minutes', label: 'Voice' },
+];
+
+// Period totals are summed from daily_member_stats
+const PERIOD_SORT_FIELDS: { value: LeaderboardSort; label: string }[] = [
+  { value: 'xp', label: 'XP' },
+  { value: 'message_count', label: 'Messages' },
+  { value: 'reaction_count', label: 'Reactions' },
+  { value: 'voice_minutes', label: 'Voice' },
+];
+
+const PERIOD_SORT_MAP: Partial<Record<LeaderboardSort, PeriodSortField>> = {
+  xp: 'xp_earned',
+  message_count: 'message_count',
+  reaction_count: 'reaction_count',
+  voice_minutes: 'voice_minutes',
+};
+
+interface LeaderboardPageProps {
+  params: Promise<{ serverId: string }>;
+  searchParams: Promise<{
+    page?: string;
+    sort?: string;
+    order?: string;
+    q?: string;
+    range?: string;
+    from?: string;
+    to?: string;
+  }>;
+}
+
+interface LeaderboardQuery {
+  page: number;
+  range: LeaderboardRange;
+  from: string;
+  to: string;
+  sort: LeaderboardSort;
+  order: SortOrder;
+  q: string;
+}
+
+function parseQuery(searchParams: Awaited<LeaderboardPageProps['searchParams']>): LeaderboardQuery {
+  const page = Math.max(1, parseInt(searchParams.page || '1', 10) || 1);
+  const range = RANGES.some((r) => r.value === searchParams.range)
+    ? (searchParams.range as LeaderboardRange)
+    : 'all';
+  const sortFields = range === 'all' ? ALL_TIME_SORT_FIELDS : PERIOD_SORT_FIELDS;
+  const sort = sortFields.some((f) => f.value === searchParams.sort)
+    ? (searchParams.sort as LeaderboardSort)
+    : 'xp';
+  const order: SortOrder = searchParams.order === 'asc' ? 'asc' : 'desc';
+  const q = (searchParams.q || '').trim();
+  return {
+    page,
+    range,
+    from: searchParams.from || '',
+    to: searchParams.to || '',
+    sort,
+    order,
+    q,
+  };
+}
+
+// Build a leaderboard URL, omitting params that are at their defaults
+function buildHref(serverId: string, query: LeaderboardQuery): string {
+  const params = new URLSearchParams();
+  if (query.range !== 'all') params.set('range', query.range);
+  if (query.range === 'custom') {
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+  }
+  if (query.page > 1) params.set('page', String(query.page));
+  if (query.sort !== 'xp') params.set('sort', query.sort);
+  if (query.range === 'all' && query.order !== 'desc') params.set('order', query.order);
+  if (query.q) params.set('q', query.q);
+  const qs = params.toString();
+  return `/${serverId}/leaderboard${qs ? `?${qs}` : ''}`;
+}
+
+// Page numbers to show around the current page, with null marking a gap
+function getPageNumbers(current: number, total: number): (number | null)[] {
+  const pages = new Set<number>([1, total, current - 1, current, current + 1]);
+  const sorted = Array.from(pages)
+    .filter((p) => p >= 1 && p <= total)
+    .sort((a, b) => a - b);
+
+  const result: (number | null)[] = [];
+  sorted.forEach((p, i) => {
+    if (i > 0 && p - sorted[i - 1] > 1) result.push(null);
+    result.push(p);
+  });
+  return result;
+}
+
+export default async function LeaderboardPage({ params, searchParams }: LeaderboardPageProps) {
+  const { serverId } = await params;
+  const query = parseQuery(await searchParams);
+
+  const isPeriod = query.range !== 'all';
+  const periodRange = isPeriod ? getPeriodRange(query.range as LeaderboardPeriod, query.from, query.to) : null;
+  const sortFields = isPeriod ? PERIOD_SORT_FIELDS : ALL_TIME_SORT_FIELDS;
+
+  const [server, result, levelRoles] = await Promise.all([
+    getServer(serverId),
+    periodRange
+      ? getPeriodLeaderboard({
+          guildId: serverId,
+          range: periodRange,
+          page: query.page,
+          limit: PAGE_SIZE,
+          sortBy: PERIOD_SORT_MAP[query.sort] || 'xp_earned',
+          search: query.q,
+        })
+      : getMembers({
+          guildId: serverId,
+          page: query.page,
+          limit: PAGE_SIZE,
+          sortBy: query.sort as SortField,
+          sortOrder: query.order,
+          search: query.q,
+        }),
+    getLevelRoles(serverId),
+  ]);
+
+  if (!server) {
+    notFound();
+  }
+
+  const { totalCount, totalPages } = result;
+  const offset = (query.page - 1) * PAGE_SIZE;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Back Button */}
+      <Link
+        href={`/${serverId}`}
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>{server.name}</span>
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4">
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-yellow-400" />
+                Leaderboard
+              </CardTitle>
+              <span className="text-sm text-gray-400">
+                {formatNumber(totalCount)} {totalCount === 1 ? 'member' : 'members'}
+                {query.q && ` matching "${query.q}"`}
+              </span>
+            </div>
+
+            {/* Range Switcher */}
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex items-center gap-1">
+                {RANGES.map((range) => (
+                  <Link
+                    key={range.value}
+                    href={buildHref(serverId, {
+                      ...query,
+                      range: range.value,
+                      sort: 'xp',
+                      page: 1,
+                      from: range.value === 'custom' && periodRange ? periodRange.start : query.from,
+                      to: range.value === 'custom' && periodRange ? periodRange.end : query.to,
+                    })}
+                    className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                      query.range === range.value
+                        ? 'bg-discord-blurple text-white'
+                        : 'bg-discord-darker text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {range.label}
+                  </Link>
+                ))}
+              </div>
+              {query.range === 'custom' && periodRange && (
+                <form action={`/${serverId}/leaderboard`} className="flex items-center gap-2 text-sm">
+                  <input type="hidden" name="range" value="custom" />
+                  <input
+                    type="date"
+                    name="from"
+                    defaultValue={periodRange.start}
+                    className="bg-discord-darker border border-discord-lighter/20 rounded-md px-2 py-1 text-white"
+                  />
+                  <span className="text-gray-500">to</span>
+                  <input
+                    type="date"
+                    name="to"
+                    defaultValue={periodRange.end}
+                    className="bg-discord-darker border border-discord-lighter/20 rounded-md px-2 py-1 text-white"
+                  />
+                  <button
+                    type="submit"
+                    className="px-3 py-1 rounded-md bg-discord-blurple text-white hover:bg-discord-blurple/80 transition-colors"
+                  >
+                    Apply
+                  </button>
+                </form>
+              )}
+            </div>
+            {periodRange && (
+              <p className="flex items-center gap-1 text-xs text-gray-500 -mt-2">
+                <Calendar className="w-3 h-3" />
+                {formatUtcDateToLocal(periodRange.start)} – {formatUtcDateToLocal(periodRange.end)}
+                {' '}(UTC days), movement compared with the previous {getRangeLength(periodRange)} days
+              </p>
+            )}
+
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              {/* Search (plain GET form so it works without client JS) */}
+              <form action={`/${serverId}/leaderboard`} className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+                <input
+                  type="text"
+                  name="q"
+                  defaultValue={query.q}
+                  placeholder="Search members..."
+                  className="w-full bg-discord-darker border border-discord-lighter/20 rounded-lg pl-9 pr-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-discord-blurple"
+                />
+                {query.range !== 'all' && <input type="hidden" name="range" value={query.range} />}
+                {query.range === 'custom' && periodRange && (
+                  <>
+                    <input type="hidden" name="from" value={periodRange.start} />
+                    <input type="hidden" name="to" value={periodRange.end} />
+                  </>
+                )}
+                {query.sort !== 'xp' && <input type="hidden" name="sort" value={query.sort} />}
+                {!isPeriod && query.order !== 'desc' && (
+                  <input type="hidden" name="order" value={query.order} />
+                )}
+              </form>
+
+              {/* Sort Field */}
+              <div className="flex items-center gap-1">
+                {sortFields.map((field) => (
+                  <Link
+                    key={field.value}
+                    href={buildHref(serverId, { ...query, sort: field.value, page: 1 })}
+                    className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                      query.sort === field.value
+                        ? 'bg-discord-blurple text-white'
+                        : 'bg-discord-darker text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {field.label}
+                  </Link>
+                ))}
+                {!isPeriod && (
+                  <Link
+                    href={buildHref(serverId, {
+                      ...query,
+                      order: query.order === 'desc' ? 'asc' : 'desc',
+                      page: 1,
+                    })}
+                    className="px-2 py-1 text-sm rounded-md bg-discord-darker text-gray-400 hover:text-white transition-colors"
+                    title={query.order === 'desc' ? 'Highest first' : 'Lowest first'}
+                  >
+                    {query.order === 'desc' ? (
+                      <ArrowDown className="w-4 h-4" />
+                    ) : (
+                      <ArrowUp className="w-4 h-4" />
+                    )}
+                  </Link>
+                )}
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {result.members.length === 0 ? (
+            <p className="text-gray-400 text-center py-8">
+              {query.q
+                ? 'No members match your search.'
+                : isPeriod
+                ? 'No activity in this period.'
+                : 'No members with XP yet.'}
+            </p>
+          ) : isPeriod ? (
+            <div className="space-y-3">
+              {(result as GetPeriodLeaderboardResult).members.map((member) => (
+                <PeriodLeaderboardRow key={member.user_id} serverId={serverId} member={member} />
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {(result as GetMembersResult).members.map((member, index) => (
+                <LeaderboardRow
+                  key={member.user_id}
+                  serverId={serverId}
+                  member={member}
+                  rank={offset + index + 1}
+                  levelRoles={levelRoles}
+                />
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6">
+              <span className="text-sm text-gray-400">
+                Page {query.page} of {totalPages}
+              </span>
+              <div className="flex items-center gap-1">
+                {query.page > 1 && (
+                  <Link
+                    href={buildHref(serverId, { ...query, page: query.page - 1 })}
+                    className="px-2 py-1 rounded-md bg-discord-darker text-gray-400 hover:text-white transition-colors"
+                    aria-label="Previous page"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Link>
+                )}
+                {getPageNumbers(query.page, totalPages).map((p, i) =>
+                  p === null ? (
+                    <span key={`gap-${i}`} className="px-2 text-gray-500">
+                      …
+                    </span>
+                  ) : (
+                    <Link
+                      key={p}
+                      href={buildHref(serverId, { ...query, page: p })}
+                      className={`px-3 py-1 text-sm rounded-md transition-colors tabular-nums ${
+                        p === query.page
+                          ? 'bg-discord-blurple text-white'
+                          : 'bg-discord-darker text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {p}
+                    </Link>
+                  )
+                )}
+                {query.page < totalPages && (
+                  <Link
+                    href={buildHref(serverId, { ...query, page: query.page + 1 })}
+                    className="px-2 py-1 rounded-md bg-discord-darker text-gray-400 hover:text-white transition-colors"
+                    aria-label="Next page"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Link>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
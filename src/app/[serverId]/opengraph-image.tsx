@@ -0,0 +1,40 @@
+import { ImageResponse } from 'next/og';
+import { getServer, getServerStats } from '@/lib/queries/server';
+import { OgAvatar, OgFrame, OgStat, OG_COLORS } from '@/components/og/og-frame';
+import { formatNumber } from '@/lib/utils';
+
+export const alt = 'Server stats';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+export const revalidate = 3600;
+
+interface ServerImageProps {
+  params: Promise<{ serverId: string }>;
+}
+
+export default async function ServerOpenGraphImage({ params }: ServerImageProps) {
+  const { serverId } = await params;
+  const [server, stats] = await Promise.all([getServer(serverId), getServerStats(serverId)]);
+
+  return new ImageResponse(
+    (
+      <OgFrame footer="Discord server stats">
+        <div style={{ display: 'flex', alignItems: 'center', gap: 40, marginBottom: 56 }}>
+          <OgAvatar src={server?.icon_url ?? null} size={160} rounded={false} />
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <span style={{ fontSize: 72, fontWeight: 800 }}>{server?.name || 'Unknown server'}</span>
+            <span style={{ fontSize: 30, color: OG_COLORS.muted }}>
+              {formatNumber(stats.totalMembers)} members with XP
+            </span>
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: 24 }}>
+          <OgStat label="Messages" value={formatNumber(stats.totalMessages)} />
+          <OgStat label="Voice Hours" value={formatNumber(stats.totalVoiceHours)} />
+          <OgStat label="Total XP" value={formatNumber(stats.totalXp)} />
+        </div>
+      </OgFrame>
+    ),
+    size
+  );
+}
@@ -1,28 +1,20 @@
+import type { Metadata } from 'next';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import { getServer, getServerStats } from '@/lib/queries/server';
 import { getMembers, getLevelRoles } from '@/lib/queries/members';
 import { Avatar } from '@/components/ui/avatar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Progress } from '@/components/ui/progress';
 import { ServerActivityChart } from '@/components/charts/server-activity-chart';
+import { ServerHourHeatmap } from '@/components/charts/server-hour-heatmap';
 import { CombinedConnectionGraph } from '@/components/charts/combined-connection-graph';
 import { VoiceActivity } from '@/components/server/voice-activity';
-import {
-  formatNumber,
-  formatVoiceTime,
-  getXpProgress,
-} from '@/lib/utils';
-import { LocalHour } from '@/components/ui/local-time';
-import {
-  MessageSquare,
-  Mic,
-  Trophy,
-  Users,
-  Calendar,
-  Clock,
-  Award,
-} from 'lucide-react';
+import { LiveLeaderboard } from '@/components/server/live-leaderboard';
+import { LiveStats } from '@/components/server/live-stats';
+import { StreakBoard } from '@/components/server/streak-board';
+import { AchievementFeed } from '@/components/server/achievement-feed';
+import { formatNumber } from '@/lib/utils';
+import { Award, ChevronRight, Hash, Layers, Smile, Sparkles, Trophy } from 'lucide-react';
 
 export const revalidate = 60;
 
@@ -30,6 +22,27 @@ interface ServerPageProps {
   params: Promise<{ serverId: string }>;
 }
 
+export async function generateMetadata({ params }: ServerPageProps): Promise<Metadata> {
+  const { serverId } = await params;
+  const [server, stats] = await Promise.all([getServer(serverId), getServerStats(serverId)]);
+
+  if (!server) {
+    return { title: 'Server not found | PBot' };
+  }
+
+  const title = `${server.name} | PBot`;
+  const description =
+    `${formatNumber(stats.totalMembers)} members, ${formatNumber(stats.totalMessages)} messages ` +
+    `and ${formatNumber(stats.totalVoiceHours)} voice hours in ${server.name}.`;
+
+  return {
+    title,
+    description,
+    openGraph: { title, description },
+    twitter: { card: 'summary_large_image', title, description },
+  };
+}
+
 export default async function ServerPage({ params }: ServerPageProps) {
   const { serverId } = await params;
 
@@ -55,70 +68,47 @@ export default async function ServerPage({ params }: ServerPageProps) {
             {formatNumber(stats.totalMembers)} members with XP
           </p>
         </div>
+        <div className="ml-auto flex items-center gap-4">
+          <Link
+            href={`/${serverId}/channels`}
+            className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <Hash className="w-4 h-4" />
+            Channels
+          </Link>
+          <Link
+            href={`/${serverId}/achievements`}
+            className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <Trophy className="w-4 h-4" />
+            Achievements
+          </Link>
+          <Link
+            href={`/${serverId}/emojis`}
+            className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <Smile className="w-4 h-4" />
+            Emojis
+          </Link>
+          <Link
+            href={`/${serverId}/cards`}
+            className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <Layers className="w-4 h-4" />
+            Cards
+          </Link>
+          <Link
+            href={`/${serverId}/wrapped/${new Date().getUTCFullYear()}`}
+            className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <Sparkles className="w-4 h-4" />
+            Wrapped
+          </Link>
+        </div>
       </div>
 
       {/* Stats Grid */}
-      <div className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-6 mb-8">
-        <Card>
-          <div className="flex items-center gap-2 text-gray-400 mb-1">
-            <MessageSquare className="w-4 h-4" />
-            <span className="text-xs uppercase">Messages</span>
-          </div>
-          <p className="text-2xl font-bold text-white">
-            {formatNumber(stats.totalMessages)}
-          </p>
-        </Card>
-
-        <Card>
-          <div className="flex items-center gap-2 text-gray-400 mb-1">
-            <Mic className="w-4 h-4" />
-            <span className="text-xs uppercase">Voice Hours</span>
-          </div>
-          <p className="text-2xl font-bold text-white">
-            {formatNumber(stats.totalVoiceHours)}
-          </p>
-        </Card>
-
-        <Card>
-          <div className="flex items-center gap-2 text-gray-400 mb-1">
-            <Trophy className="w-4 h-4" />
-            <span className="text-xs uppercase">Total XP</span>
-          </div>
-          <p className="text-2xl font-bold text-white">
-            {formatNumber(stats.totalXp)}
-          </p>
-        </Card>
-
-        <Card>
-          <div className="flex items-center gap-2 text-gray-400 mb-1">
-            <Users className="w-4 h-4" />
-            <span className="text-xs uppercase">Members</span>
-          </div>
-          <p className="text-2xl font-bold text-white">
-            {formatNumber(stats.totalMembers)}
-          </p>
-        </Card>
-
-        <Card>
-          <div className="flex items-center gap-2 text-gray-400 mb-1">
-            <Calendar className="w-4 h-4" />
-            <span className="text-xs uppercase">Most Active</span>
-          </div>
-          <p className="text-2xl font-bold text-white">
-            {stats.mostActiveDay || 'N/A'}
-          </p>
-        </Card>
-
-        <Card>
-          <div className="flex items-center gap-2 text-gray-400 mb-1">
-            <Clock className="w-4 h-4" />
-            <span className="text-xs uppercase">Peak Hour</span>
-          </div>
-          <p className="text-2xl font-bold text-white">
-            <LocalHour utcHour={stats.peakHour} />
-          </p>
-        </Card>
-      </div>
+      <LiveStats serverId={serverId} initialStats={stats} />
 
       {/* Current Voice Activity */}
       <div className="mb-8">
@@ -130,6 +120,17 @@ export default async function ServerPage({ params }: ServerPageProps) {
         <ServerActivityChart serverId={serverId} />
       </div>
 
+      {/* Hour-of-Week Heatmap */}
+      <div className="mb-8">
+        <ServerHourHeatmap serverId={serverId} />
+      </div>
+
+      {/* Streaks and Recent Unlocks */}
+      <div className="grid gap-6 lg:grid-cols-2 mb-8">
+        <StreakBoard serverId={serverId} />
+        <AchievementFeed serverId={serverId} />
+      </div>
+
       {/* Social Web (Voice + Text with switcher) */}
       <div className="mb-8">
         <CombinedConnectionGraph serverId={serverId} />
@@ -140,105 +141,23 @@ export default async function ServerPage({ params }: ServerPageProps) {
         {/* Member Leaderboard */}
         <Card className="flex-1">
           <CardHeader>
-            <CardTitle>Member Leaderboard</CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle>Member Leaderboard</CardTitle>
+              <Link
+                href={`/${serverId}/leaderboard`}
+                className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                View all
+                <ChevronRight className="w-4 h-4" />
+              </Link>
+            </div>
           </CardHeader>
           <CardContent>
-            {membersResult.members.length === 0 ? (
-              <p className="text-gray-400 text-center py-8">
-                No members with XP yet.
-              </p>
-            ) : (
-              <div className="space-y-3">
-                {membersResult.members.map((member, index) => {
-                  const progress = getXpProgress(member.xp);
-                  // Find the highest level role the member has achieved
-                  const currentRole = levelRoles
-                    .filter((lr) => lr.level <= member.level)
-                    .sort((a, b) => b.level - a.level)[0];
-                  const roleColor = currentRole?.role_color || null;
-                  return (
-                    <Link
-                      key={member.user_id}
-                      href={`/${serverId}/${member.user_id}`}
-                      className="block"
-                    >
-                      <div
-                        className="flex items-center gap-4 p-3 rounded-lg transition-colors group"
-                        style={{
-                          backgroundColor: roleColor ? `${roleColor}15` : 'rgba(255,255,255,0.03)',
-                        }}
-                      >
-                        {/* Rank */}
-                        <div className="w-8 text-center">
-                          <span
-                            className={`font-bold ${
-                              index === 0
-                                ? 'text-yellow-400'
-                                : index === 1
-                                ? 'text-gray-300'
-                                : index === 2
-                                ? 'text-amber-600'
-                                : 'text-gray-500'
-                            }`}
-                          >
-                            #{index + 1}
-                          </span>
-                        </div>
-
-                        {/* Avatar */}
-                        <Avatar
-                          src={member.avatar_url}
-                          alt={member.username || 'User'}
-                          size="md"
-                          className="group-hover:ring-2 ring-discord-blurple transition-all"
-                        />
-
-                        {/* User Info */}
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2">
-                            <p className="font-medium text-white truncate group-hover:text-discord-blurple transition-colors">
-                              {member.display_name || member.username || 'Unknown User'}
-                            </p>
-                            {currentRole && (
-                              <span
-                                className="hidden sm:inline-flex text-xs px-2 py-0.5 rounded-full font-medium shrink-0"
-                                style={{
-                                  backgroundColor: `${roleColor}20`,
-                                  color: roleColor || undefined,
-                                }}
-                              >
-                                {currentRole.role_name}
-                              </span>
-                            )}
-                          </div>
-                          <div className="flex items-center gap-4 text-sm text-gray-400">
-                            <span className="w-16">Level <span className="tabular-nums">{member.level}</span></span>
-                            <span className="tabular-nums">{formatNumber(member.xp)} XP</span>
-                          </div>
-                        </div>
-
-                        {/* Stats */}
-                        <div className="hidden sm:flex items-center text-sm text-gray-400">
-                          <div className="flex items-center gap-1 w-24 justify-end">
-                            <MessageSquare className="w-4 h-4 flex-shrink-0" />
-                            <span className="tabular-nums">{formatNumber(member.message_count)}</span>
-                          </div>
-                          <div className="flex items-center gap-1 w-20 justify-end">
-                            <Mic className="w-4 h-4 flex-shrink-0" />
-                            <span className="tabular-nums">{formatVoiceTime(member.voice_minutes)}</span>
-                          </div>
-                        </div>
-
-                        {/* Progress Bar */}
-                        <div className="hidden md:block w-32">
-                          <Progress value={progress.progressPercent} />
-                        </div>
-                      </div>
-                    </Link>
-                  );
-                })}
-              </div>
-            )}
+            <LiveLeaderboard
+              serverId={serverId}
+              initialMembers={membersResult.members}
+              levelRoles={levelRoles}
+            />
           </CardContent>
         </Card>
 
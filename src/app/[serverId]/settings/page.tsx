@@ -0,0 +1,138 @@
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { getSession } from '@/lib/auth/session';
+import { getServer } from '@/lib/queries/server';
+import { getUserGuilds } from '@/lib/queries/user';
+import { getMemberVisibility } from '@/lib/queries/privacy';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PrivacyVisibility } from '@/types';
+import { ChevronLeft, Check, Globe, Users, EyeOff, Shield } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+interface SettingsPageProps {
+  params: Promise<{ serverId: string }>;
+  searchParams: Promise<{ saved?: string }>;
+}
+
+const VISIBILITY_OPTIONS: {
+  value: PrivacyVisibility;
+  label: string;
+  description: string;
+  icon: typeof Globe;
+}[] = [
+  {
+    value: 'public',
+    label: 'Public',
+    description: 'Anyone with the link can see your profile, voice history and top friends.',
+    icon: Globe,
+  },
+  {
+    value: 'server',
+    label: 'Server members only',
+    description: 'Only signed-in members of this server can see your profile and connections.',
+    icon: Users,
+  },
+  {
+    value: 'hidden',
+    label: 'Hidden',
+    description: 'Your profile, voice history and connections are only visible to you.',
+    icon: EyeOff,
+  },
+];
+
+export default async function SettingsPage({ params, searchParams }: SettingsPageProps) {
+  const { serverId } = await params;
+  const { saved } = await searchParams;
+
+  const user = await getSession();
+  if (!user) {
+    redirect(`/api/auth/login?returnTo=/${serverId}/settings`);
+  }
+
+  const [server, guilds] = await Promise.all([
+    getServer(serverId),
+    getUserGuilds(user.id),
+  ]);
+
+  // Only members of the server have a setting to change here
+  if (!server || !guilds.some((g) => g.id === serverId)) {
+    notFound();
+  }
+
+  const visibility = await getMemberVisibility(serverId, user.id);
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <Link
+        href={`/${serverId}/${user.id}`}
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>My profile</span>
+      </Link>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-white mb-1">Privacy settings</h1>
+        <p className="text-gray-400">Choose who can see your stats in {server.name}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="w-5 h-5" />
+            Profile visibility
+          </CardTitle>
+          <p className="text-xs text-gray-500 mt-1">
+            Applies to your profile page, voice timeline, friend lists and the connection graph.
+            Server totals and leaderboards still include your activity.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form action="/api/privacy" method="post" className="space-y-3">
+            <input type="hidden" name="guildId" value={serverId} />
+            {VISIBILITY_OPTIONS.map((option) => {
+              const Icon = option.icon;
+              return (
+                <label
+                  key={option.value}
+                  className="flex items-start gap-3 p-3 rounded-lg bg-discord-darker cursor-pointer hover:bg-discord-lighter/50 transition-colors has-[:checked]:ring-2 has-[:checked]:ring-discord-blurple"
+                >
+                  <input
+                    type="radio"
+                    name="visibility"
+                    value={option.value}
+                    defaultChecked={visibility === option.value}
+                    className="mt-1 accent-discord-blurple"
+                  />
+                  <div className="flex-1">
+                    <p className="flex items-center gap-2 text-sm font-medium text-white">
+                      <Icon className="w-4 h-4 text-gray-400" />
+                      {option.label}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">{option.description}</p>
+                  </div>
+                </label>
+              );
+            })}
+
+            <div className="flex items-center gap-3 pt-2">
+              <button
+                type="submit"
+                className="bg-discord-blurple hover:bg-discord-blurple/80 text-white text-sm px-4 py-2 rounded-lg transition-colors"
+              >
+                Save
+              </button>
+              {saved && (
+                <span className="flex items-center gap-1 text-sm text-discord-green">
+                  <Check className="w-4 h-4" />
+                  Saved
+                </span>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import { getLiveVoiceRooms } from '@/lib/queries/voice-rooms';
+import { getViewer } from '@/lib/auth/viewer';
+import { VoiceRooms } from '@/components/server/voice-rooms';
+import { ServerVoiceTimeline } from '@/components/server/server-voice-timeline';
+import { ChevronLeft, Mic } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+interface VoicePageProps {
+  params: Promise<{ serverId: string }>;
+}
+
+export default async function VoicePage({ params }: VoicePageProps) {
+  const { serverId } = await params;
+
+  const server = await getServer(serverId);
+  if (!server) {
+    notFound();
+  }
+
+  const viewer = await getViewer();
+  const rooms = await getLiveVoiceRooms(serverId, viewer);
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Back Button */}
+      <Link
+        href={`/${serverId}`}
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>{server.name}</span>
+      </Link>
+
+      <h1 className="flex items-center gap-2 text-2xl font-bold text-white mb-4">
+        <Mic className="w-6 h-6 text-green-400" />
+        Voice Rooms
+      </h1>
+
+      <VoiceRooms serverId={serverId} initialRooms={rooms} />
+
+      <div className="mt-8">
+        <ServerVoiceTimeline serverId={serverId} />
+      </div>
+    </div>
+  );
+}
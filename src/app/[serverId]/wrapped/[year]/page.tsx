@@ -0,0 +1,161 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getServer } from '@/lib/queries/server';
+import { getServerWrapped, getWrappedYears, isValidWrappedYear } from '@/lib/queries/wrapped';
+import { getViewer } from '@/lib/auth/viewer';
+import { Avatar } from '@/components/ui/avatar';
+import { WrappedSlides, WrappedSlide } from '@/components/wrapped/wrapped-slides';
+import { getSummarySlides, SlideKicker, SlideStat } from '@/components/wrapped/wrapped-slide-parts';
+import { formatDuration, formatNumber } from '@/lib/utils';
+import { WrappedMember } from '@/types';
+import { ChevronLeft } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+interface ServerWrappedPageProps {
+  params: Promise<{ serverId: string; year: string }>;
+}
+
+function getName(member: WrappedMember): string {
+  return member.display_name || member.username || 'Unknown';
+}
+
+export default async function ServerWrappedPage({ params }: ServerWrappedPageProps) {
+  const { serverId, year: yearParam } = await params;
+  const year = Number(yearParam);
+
+  if (!isValidWrappedYear(year)) {
+    notFound();
+  }
+
+  const server = await getServer(serverId);
+  if (!server) {
+    notFound();
+  }
+
+  const viewer = await getViewer();
+  const wrapped = await getServerWrapped(serverId, year, viewer);
+  const years = getWrappedYears(server.joined_at);
+  const hasActivity = wrapped.activeDays > 0;
+
+  const slides: WrappedSlide[] = [
+    {
+      key: 'intro',
+      gradient: 'from-discord-blurple to-indigo-900',
+      content: (
+        <div className="flex flex-col items-center text-center">
+          <Avatar src={server.icon_url} alt={server.name} size="xl" />
+          <h1 className="text-4xl font-extrabold text-white mt-4">{server.name} {year}</h1>
+          <p className="text-white/70 mt-2">
+            {hasActivity
+              ? `${formatNumber(wrapped.activeMembers)} members made it happen`
+              : 'No activity this year'}
+          </p>
+        </div>
+      ),
+    },
+  ];
+
+  if (hasActivity) {
+    slides.push(
+      ...getSummarySlides(wrapped, {
+        subject: 'Together you',
+        streakHint: wrapped.streakHolder ? getName(wrapped.streakHolder) : undefined,
+      })
+    );
+
+    if (wrapped.achievementUnlocks > 0) {
+      slides.push({
+        key: 'unlocks',
+        gradient: 'from-violet-600 to-indigo-800',
+        content: (
+          <div className="text-center">
+            <SlideKicker>Achievement hunters</SlideKicker>
+            <SlideStat value={formatNumber(wrapped.achievementUnlocks)} label="achievements unlocked across the server" />
+          </div>
+        ),
+      });
+    }
+
+    if (wrapped.topMembers.length > 0) {
+      slides.push({
+        key: 'top-members',
+        gradient: 'from-amber-500 to-yellow-700',
+        content: (
+          <div>
+            <SlideKicker>Most XP earned</SlideKicker>
+            <ol className="space-y-3 mt-4">
+              {wrapped.topMembers.map((member, i) => (
+                <li key={member.user_id} className="flex items-center gap-3">
+                  <span className="text-2xl font-bold text-white/50 w-6">{i + 1}</span>
+                  <Avatar src={member.avatar_url} alt={member.username || 'User'} size="sm" />
+                  <span className="flex-1 text-lg font-semibold text-white truncate">{getName(member)}</span>
+                  <span className="text-white/70">{formatNumber(member.xp_earned)} XP</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ),
+      });
+    }
+
+    if (wrapped.topDuos.length > 0) {
+      slides.push({
+        key: 'duos',
+        gradient: 'from-rose-500 to-purple-700',
+        content: (
+          <div>
+            <SlideKicker>Inseparable in voice</SlideKicker>
+            <ol className="space-y-3 mt-4">
+              {wrapped.topDuos.map((duo) => (
+                <li key={`${duo.a.user_id}:${duo.b.user_id}`} className="flex items-center gap-3">
+                  <div className="flex -space-x-2">
+                    <Avatar src={duo.a.avatar_url} alt={duo.a.username || 'User'} size="sm" />
+                    <Avatar src={duo.b.avatar_url} alt={duo.b.username || 'User'} size="sm" />
+                  </div>
+                  <span className="flex-1 text-white truncate">
+                    {getName(duo.a)} &amp; {getName(duo.b)}
+                  </span>
+                  <span className="text-white/70">{formatDuration(duo.shared_seconds)}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ),
+      });
+    }
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <Link
+        href={`/${serverId}`}
+        className="inline-flex items-center gap-2 text-gray-400 hover:text-white mb-6 transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>{server.name}</span>
+      </Link>
+
+      <WrappedSlides key={year} slides={slides} shareTitle={`${server.name} ${year} Wrapped`} />
+
+      {/* Other Years */}
+      {years.length > 1 && (
+        <div className="flex flex-wrap gap-1 mt-6">
+          {years.map((y) => (
+            <Link
+              key={y}
+              href={`/${serverId}/wrapped/${y}`}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                y === year
+                  ? 'bg-discord-blurple text-white'
+                  : 'bg-discord-darker text-gray-400 hover:text-white'
+              }`}
+            >
+              {y}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGuildAdmin } from '@/lib/auth/admin';
+import { setGuildAchievementSetting } from '@/lib/queries/admin';
+import { getAchievementDefinitionMap } from '@/lib/queries/achievement-definitions';
+
+interface RouteContext {
+  params: Promise<{ guildId: string }>;
+}
+
+const MAX_XP = 100000;
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { guildId } = await params;
+
+  if (!(await getGuildAdmin(guildId))) {
+    return NextResponse.json({ error: 'Administrator permission required' }, { status: 403 });
+  }
+
+  const form = await request.formData();
+  const achievementId = String(form.get('achievement_id') || '');
+  const enabled = form.get('enabled') === 'on';
+  const xpValue = String(form.get('xp') || '').trim();
+  const xp = xpValue ? Number(xpValue) : null;
+  let error: string | null = null;
+
+  const definition = (await getAchievementDefinitionMap(guildId)).get(achievementId);
+  if (!definition) {
+    error = 'Unknown achievement';
+  } else if (xp !== null && (!Number.isInteger(xp) || xp < 0 || xp > MAX_XP)) {
+    error = `XP must be a whole number between 0 and ${MAX_XP}`;
+  } else {
+    try {
+      // Store the default XP as "no override" so later changes to the definition still apply
+      await setGuildAchievementSetting(
+        guildId,
+        achievementId,
+        enabled,
+        xp === definition.xp ? null : xp
+      );
+    } catch (err) {
+      console.error('Failed to save achievement setting:', err);
+      error = 'Could not save the achievement setting';
+    }
+  }
+
+  const destination = new URL(`/${guildId}/admin`, request.nextUrl.origin);
+  destination.searchParams.set(error ? 'error' : 'saved', error || 'achievements');
+  // 303 so the browser follows up with a GET
+  return NextResponse.redirect(destination, 303);
+}
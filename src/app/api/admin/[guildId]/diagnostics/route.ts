@@ -0,0 +1,45 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest, NextResponse } from 'next/server';
+import { getGuildAdmin } from '@/lib/auth/admin';
+import { closeStaleSession } from '@/lib/queries/diagnostics';
+
+interface RouteContext {
+  params: Promise<{ guildId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { guildId } = await params;
+
+  if (!(await getGuildAdmin(guildId))) {
+    return NextResponse.json({ error: 'Administrator permission required' }, { status: 403 });
+  }
+
+  const form = await request.formData();
+  const sessionId = Number(form.get('session_id'));
+  let error: string | null = null;
+
+  // Closing a session rewrites voice history, so the form has to be confirmed explicitly
+  if (form.get('confirm') !== 'on') {
+    error = 'Tick the confirmation box to close a session';
+  } else if (!Number.isInteger(sessionId)) {
+    error = 'Unknown session';
+  } else {
+    try {
+      if (!(await closeStaleSession(guildId, sessionId))) {
+        error = 'That session is no longer open and stale';
+      }
+    } catch (err) {
+      console.error('Failed to close stale session:', err);
+      error = 'Could not close the session';
+    }
+  }
+
+  if (!error) {
+    revalidatePath(`/${guildId}`);
+  }
+
+  const destination = new URL(`/${guildId}/admin/diagnostics`, request.nextUrl.origin);
+  destination.searchParams.set(error ? 'error' : 'saved', error || 'closed');
+  // 303 so the browser follows up with a GET
+  return NextResponse.redirect(destination, 303);
+}
@@ -0,0 +1,84 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest, NextResponse } from 'next/server';
+import { getGuildAdmin } from '@/lib/auth/admin';
+import {
+  LevelRoleInput,
+  createLevelRole,
+  deleteLevelRole,
+  moveLevelRole,
+  updateLevelRole,
+} from '@/lib/queries/admin';
+
+interface RouteContext {
+  params: Promise<{ guildId: string }>;
+}
+
+const MAX_LEVEL = 1000;
+
+function readLevelRole(form: FormData): LevelRoleInput | string {
+  const level = Number(form.get('level'));
+  const roleId = String(form.get('role_id') || '').trim();
+  const roleName = String(form.get('role_name') || '').trim();
+  const roleColor = String(form.get('role_color') || '').trim();
+
+  if (!Number.isInteger(level) || level < 1 || level > MAX_LEVEL) {
+    return `Level must be a whole number between 1 and ${MAX_LEVEL}`;
+  }
+  if (!/^\d{17,20}$/.test(roleId)) {
+    return 'Role ID must be a Discord role ID';
+  }
+  if (roleColor && !/^#[0-9a-f]{6}$/i.test(roleColor)) {
+    return 'Color must be a hex color like #5865f2';
+  }
+
+  return {
+    level,
+    role_id: roleId,
+    role_name: roleName.slice(0, 100) || null,
+    role_color: roleColor || null,
+  };
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { guildId } = await params;
+
+  if (!(await getGuildAdmin(guildId))) {
+    return NextResponse.json({ error: 'Administrator permission required' }, { status: 403 });
+  }
+
+  const form = await request.formData();
+  const action = form.get('action');
+  const id = Number(form.get('id'));
+  let error: string | null = null;
+
+  try {
+    if (action === 'create' || action === 'update') {
+      const input = readLevelRole(form);
+      if (typeof input === 'string') {
+        error = input;
+      } else if (action === 'create') {
+        await createLevelRole(guildId, input);
+      } else {
+        await updateLevelRole(guildId, id, input);
+      }
+    } else if (action === 'delete') {
+      await deleteLevelRole(guildId, id);
+    } else if (action === 'up' || action === 'down') {
+      await moveLevelRole(guildId, id, action);
+    } else {
+      error = 'Unknown action';
+    }
+  } catch (err) {
+    console.error('Failed to save level role:', err);
+    error = 'Could not save the level role. Is that level already taken?';
+  }
+
+  if (!error) {
+    revalidatePath(`/${guildId}`);
+  }
+
+  const destination = new URL(`/${guildId}/admin`, request.nextUrl.origin);
+  destination.searchParams.set(error ? 'error' : 'saved', error || 'level-roles');
+  // 303 so the browser follows up with a GET
+  return NextResponse.redirect(destination, 303);
+}
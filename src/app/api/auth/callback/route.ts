@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider, getDiscordUserFromCode, getMockUser } from '@/lib/auth/discord';
+import {
+  OAUTH_STATE_COOKIE,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  encodeSession,
+  getCookieOptions,
+  sanitizeReturnTo,
+} from '@/lib/auth/session';
+
+function readStateCookie(request: NextRequest): { state: string; returnTo: string } | null {
+  const raw = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return { state: String(parsed.state), returnTo: sanitizeReturnTo(parsed.returnTo) };
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl;
+  const code = searchParams.get('code');
+  const stored = readStateCookie(request);
+  const returnTo = stored?.returnTo || '/';
+
+  // Denied consent, missing code or a state mismatch all just return the user unchanged
+  if (!code || !stored || stored.state !== searchParams.get('state')) {
+    const response = NextResponse.redirect(new URL(returnTo, origin));
+    response.cookies.delete(OAUTH_STATE_COOKIE);
+    return response;
+  }
+
+  try {
+    const user =
+      getAuthProvider() === 'mock'
+        ? await getMockUser()
+        : await getDiscordUserFromCode(code, `${origin}/api/auth/callback`);
+
+    const response = NextResponse.redirect(new URL(returnTo, origin));
+    response.cookies.set(SESSION_COOKIE, encodeSession(user), getCookieOptions(SESSION_MAX_AGE));
+    response.cookies.delete(OAUTH_STATE_COOKIE);
+    return response;
+  } catch (err) {
+    console.error('Discord sign-in failed:', err);
+    const response = NextResponse.redirect(new URL(returnTo, origin));
+    response.cookies.delete(OAUTH_STATE_COOKIE);
+    return response;
+  }
+}
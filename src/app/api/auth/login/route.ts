@@ -0,0 +1,26 @@
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider, getAuthorizeUrl } from '@/lib/auth/discord';
+import { OAUTH_STATE_COOKIE, getCookieOptions, sanitizeReturnTo } from '@/lib/auth/session';
+
+const OAUTH_STATE_MAX_AGE = 60 * 10; // 10 minutes
+
+export function GET(request: NextRequest) {
+  const returnTo = sanitizeReturnTo(request.nextUrl.searchParams.get('returnTo'));
+  const state = randomBytes(16).toString('base64url');
+  const redirectUri = `${request.nextUrl.origin}/api/auth/callback`;
+
+  // The mock provider skips Discord and goes straight to the callback
+  const destination =
+    getAuthProvider() === 'mock'
+      ? `${redirectUri}?code=mock&state=${state}`
+      : getAuthorizeUrl(redirectUri, state);
+
+  const response = NextResponse.redirect(destination);
+  response.cookies.set(
+    OAUTH_STATE_COOKIE,
+    JSON.stringify({ state, returnTo }),
+    getCookieOptions(OAUTH_STATE_MAX_AGE)
+  );
+  return response;
+}
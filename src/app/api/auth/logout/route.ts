@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth/session';
+
+export function POST(request: NextRequest) {
+  // 303 so the browser follows up with a GET
+  const response = NextResponse.redirect(new URL('/', request.nextUrl.origin), 303);
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { getUserGuilds } from '@/lib/queries/user';
+import { SessionInfo } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const user = await getSession();
+  const body: SessionInfo = {
+    user,
+    guilds: user ? await getUserGuilds(user.id) : [],
+  };
+  return NextResponse.json(body, { headers: { 'Cache-Control': 'no-store' } });
+}
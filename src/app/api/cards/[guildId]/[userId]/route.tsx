@@ -0,0 +1,32 @@
+import { ImageResponse } from 'next/og';
+import { getServer } from '@/lib/queries/server';
+import { getMemberCard } from '@/lib/queries/cards';
+import { getViewer } from '@/lib/auth/viewer';
+import { CardBack, CARD_IMAGE_SIZE, MemberCardFace } from '@/components/cards/member-card-face';
+
+interface RouteContext {
+  params: Promise<{ guildId: string; userId: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { guildId, userId } = await params;
+
+  const viewer = await getViewer();
+  const [server, card] = await Promise.all([
+    getServer(guildId),
+    getMemberCard(guildId, userId, viewer),
+  ]);
+
+  // Depends on who's asking, so keep it out of shared caches
+  const headers = { 'Cache-Control': 'private, max-age=300' };
+
+  // Hidden and missing members both get a face-down card
+  if (!server || !card) {
+    return new ImageResponse(<CardBack />, { ...CARD_IMAGE_SIZE, headers });
+  }
+
+  return new ImageResponse(<MemberCardFace card={card} serverName={server.name} />, {
+    ...CARD_IMAGE_SIZE,
+    headers,
+  });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { getUserGuilds } from '@/lib/queries/user';
+import { setMemberVisibility } from '@/lib/queries/privacy';
+import { PrivacyVisibility } from '@/types';
+
+const VISIBILITIES: readonly PrivacyVisibility[] = ['public', 'server', 'hidden'];
+
+export async function POST(request: NextRequest) {
+  const user = await getSession();
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const form = await request.formData();
+  const guildId = form.get('guildId');
+  const visibility = form.get('visibility');
+
+  if (
+    typeof guildId !== 'string' ||
+    typeof visibility !== 'string' ||
+    !VISIBILITIES.includes(visibility as PrivacyVisibility)
+  ) {
+    return NextResponse.json({ error: 'Invalid privacy setting' }, { status: 400 });
+  }
+
+  // Members can only change their own setting, in servers they belong to
+  const guilds = await getUserGuilds(user.id);
+  if (!guilds.some((g) => g.id === guildId)) {
+    return NextResponse.json({ error: 'Not a member of this server' }, { status: 403 });
+  }
+
+  await setMemberVisibility(guildId, user.id, visibility as PrivacyVisibility);
+
+  // 303 so the browser follows up with a GET
+  return NextResponse.redirect(
+    new URL(`/${guildId}/settings?saved=1`, request.nextUrl.origin),
+    303
+  );
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getViewer } from '@/lib/auth/viewer';
+import { getMemberDailyStats } from '@/lib/queries/profile';
+import { canViewerSeeMember } from '@/lib/queries/privacy';
+
+interface RouteContext {
+  params: Promise<{ guildId: string; userId: string }>;
+}
+
+const MAX_DAYS = 365;
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { guildId, userId } = await params;
+  const days = Number(request.nextUrl.searchParams.get('days') || 30);
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    return NextResponse.json({ error: `days must be between 1 and ${MAX_DAYS}` }, { status: 400 });
+  }
+
+  // Checked here rather than in the browser, where the viewer could be made up
+  const viewer = await getViewer();
+  if (!(await canViewerSeeMember(guildId, userId, viewer))) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+  }
+
+  const stats = await getMemberDailyStats(guildId, userId, days);
+  return NextResponse.json(stats, { headers: { 'Cache-Control': 'private, no-store' } });
+}
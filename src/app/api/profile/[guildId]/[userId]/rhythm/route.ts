@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getViewer } from '@/lib/auth/viewer';
+import { getMemberHourOfWeekActivity, UTC_TIME_ZONE } from '@/lib/queries/activity-heatmap';
+import { isTimeZone } from '@/lib/utils';
+
+interface RouteContext {
+  params: Promise<{ guildId: string; userId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { guildId, userId } = await params;
+  const timeZone = request.nextUrl.searchParams.get('timeZone') || UTC_TIME_ZONE;
+
+  if (!isTimeZone(timeZone)) {
+    return NextResponse.json({ error: 'Unknown time zone' }, { status: 400 });
+  }
+
+  const viewer = await getViewer();
+  const activity = await getMemberHourOfWeekActivity(guildId, userId, viewer, timeZone);
+  if (!activity) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(activity, { headers: { 'Cache-Control': 'private, no-store' } });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getViewer } from '@/lib/auth/viewer';
+import { getMemberVoiceActivity } from '@/lib/queries/profile';
+
+interface RouteContext {
+  params: Promise<{ guildId: string; userId: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { guildId, userId } = await params;
+
+  const viewer = await getViewer();
+  const activity = await getMemberVoiceActivity(guildId, userId, viewer);
+  if (!activity) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(activity, { headers: { 'Cache-Control': 'private, no-store' } });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getViewer } from '@/lib/auth/viewer';
+import { getStreakBoard, STREAK_BOARD_LIMIT } from '@/lib/queries/streaks';
+import { isTimeZone } from '@/lib/utils';
+
+interface RouteContext {
+  params: Promise<{ guildId: string }>;
+}
+
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { guildId } = await params;
+  const timeZone = request.nextUrl.searchParams.get('timeZone') || 'UTC';
+  const limit = Number(request.nextUrl.searchParams.get('limit') || STREAK_BOARD_LIMIT);
+
+  if (!isTimeZone(timeZone)) {
+    return NextResponse.json({ error: 'Unknown time zone' }, { status: 400 });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: `limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+  }
+
+  // Hidden members are dropped here rather than in the browser, where the viewer could be made up
+  const viewer = await getViewer();
+  const board = await getStreakBoard(guildId, viewer, timeZone, limit);
+
+  return NextResponse.json(board, { headers: { 'Cache-Control': 'private, no-store' } });
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { getVoiceConnections } from '@/lib/queries/voice-connections';
+import { getTextConnections } from '@/lib/queries/text-connections';
+import { ANONYMOUS_VIEWER, filterHiddenConnections, getHiddenUserIds } from '@/lib/queries/privacy';
+import {
+  buildPagination,
+  corsPreflight,
+  jsonWithETag,
+  parseEnumParam,
+  parsePagination,
+  requireGuild,
+  withApiErrors,
+} from '@/lib/api';
+import {
+  ApiPaginatedResponse,
+  ConnectionTimeRange,
+  TextConnection,
+  VoiceConnection,
+} from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+type ConnectionType = 'voice' | 'text';
+
+const CONNECTION_TYPES: readonly ConnectionType[] = ['voice', 'text'];
+const TIME_RANGES: readonly ConnectionTimeRange[] = ['30d', '90d', 'all'];
+
+// Serves the cached connections only; recalculation stays with the site itself.
+// Responses are shared-cached, so anyone who isn't public is left out.
+export const GET = withApiErrors(async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  const { searchParams } = request.nextUrl;
+
+  const { page, limit } = parsePagination(searchParams);
+  const type = parseEnumParam(searchParams, 'type', CONNECTION_TYPES, 'voice');
+  const range = parseEnumParam(searchParams, 'range', TIME_RANGES, '30d');
+
+  await requireGuild(id);
+  const [allConnections, hiddenUserIds] = await Promise.all([
+    type === 'voice' ? getVoiceConnections(id, range) : getTextConnections(id, range),
+    getHiddenUserIds(id, ANONYMOUS_VIEWER),
+  ]);
+  const connections = filterHiddenConnections<VoiceConnection | TextConnection>(
+    allConnections,
+    hiddenUserIds
+  );
+
+  const offset = (page - 1) * limit;
+  const body: ApiPaginatedResponse<VoiceConnection | TextConnection> = {
+    data: connections.slice(offset, offset + limit),
+    pagination: buildPagination(page, limit, connections.length),
+  };
+  return jsonWithETag(request, body);
+});
+
+export function OPTIONS() {
+  return corsPreflight();
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { getMemberProfile } from '@/lib/queries/profile';
+import { getMemberRank } from '@/lib/queries/members';
+import { getMemberAchievements } from '@/lib/queries/achievements';
+import { ANONYMOUS_VIEWER } from '@/lib/queries/privacy';
+import { ApiError, corsPreflight, jsonWithETag, requireGuild, withApiErrors } from '@/lib/api';
+import { getXpProgress } from '@/lib/utils';
+import { ApiMemberProfile, ApiResponse } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string; userId: string }>;
+}
+
+// Responses are shared-cached, so only public profiles are served
+export const GET = withApiErrors(async (request: NextRequest, { params }: RouteContext) => {
+  const { id, userId } = await params;
+
+  await requireGuild(id);
+  const [member, rank, achievements] = await Promise.all([
+    getMemberProfile(id, userId, ANONYMOUS_VIEWER),
+    getMemberRank(id, userId),
+    getMemberAchievements(id, userId),
+  ]);
+
+  if (!member) {
+    throw new ApiError(404, 'Member not found');
+  }
+
+  const body: ApiResponse<ApiMemberProfile> = {
+    data: {
+      member,
+      rank,
+      progress: getXpProgress(member.xp),
+      achievements,
+    },
+  };
+  return jsonWithETag(request, body);
+});
+
+export function OPTIONS() {
+  return corsPreflight();
+}
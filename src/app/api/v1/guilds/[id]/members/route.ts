@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { getMembers, SortField, SortOrder } from '@/lib/queries/members';
+import {
+  buildPagination,
+  corsPreflight,
+  jsonWithETag,
+  parseEnumParam,
+  parsePagination,
+  requireGuild,
+  withApiErrors,
+} from '@/lib/api';
+import { ApiPaginatedResponse, MemberWithLevel } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const SORT_FIELDS: readonly SortField[] = ['xp', 'level', 'message_count', 'voice_minutes'];
+const SORT_ORDERS: readonly SortOrder[] = ['asc', 'desc'];
+
+export const GET = withApiErrors(async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+  const { searchParams } = request.nextUrl;
+
+  const { page, limit } = parsePagination(searchParams);
+  const sortBy = parseEnumParam(searchParams, 'sort', SORT_FIELDS, 'xp');
+  const sortOrder = parseEnumParam(searchParams, 'order', SORT_ORDERS, 'desc');
+  const search = searchParams.get('q') || '';
+
+  await requireGuild(id);
+  const result = await getMembers({ guildId: id, page, limit, sortBy, sortOrder, search });
+
+  const body: ApiPaginatedResponse<MemberWithLevel> = {
+    data: result.members,
+    pagination: buildPagination(page, limit, result.totalCount),
+  };
+  return jsonWithETag(request, body);
+});
+
+export function OPTIONS() {
+  return corsPreflight();
+}
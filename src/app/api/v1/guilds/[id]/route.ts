@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { getServerStats } from '@/lib/queries/server';
+import { corsPreflight, jsonWithETag, requireGuild, withApiErrors } from '@/lib/api';
+import { ApiGuild, ApiResponse } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const GET = withApiErrors(async (request: NextRequest, { params }: RouteContext) => {
+  const { id } = await params;
+
+  const [guild, stats] = await Promise.all([
+    requireGuild(id),
+    getServerStats(id),
+  ]);
+
+  const body: ApiResponse<ApiGuild> = { data: { guild, stats } };
+  return jsonWithETag(request, body);
+});
+
+export function OPTIONS() {
+  return corsPreflight();
+}
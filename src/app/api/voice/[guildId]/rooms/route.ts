@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getViewer } from '@/lib/auth/viewer';
+import { getLiveVoiceRooms } from '@/lib/queries/voice-rooms';
+
+interface RouteContext {
+  params: Promise<{ guildId: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { guildId } = await params;
+
+  // Hidden members are dropped here rather than in the browser, where the viewer could be made up
+  const viewer = await getViewer();
+  const rooms = await getLiveVoiceRooms(guildId, viewer);
+
+  return NextResponse.json(rooms, { headers: { 'Cache-Control': 'private, no-store' } });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getViewer } from '@/lib/auth/viewer';
+import { getServerVoiceTimeline } from '@/lib/queries/voice-rooms';
+
+interface RouteContext {
+  params: Promise<{ guildId: string }>;
+}
+
+// The widest zoom is a week; the extra day covers daylight saving shifts
+const MAX_SPAN_MS = 8 * 24 * 60 * 60 * 1000;
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { guildId } = await params;
+  const { searchParams } = request.nextUrl;
+  const start = new Date(searchParams.get('start') || '');
+  const end = new Date(searchParams.get('end') || '');
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+    return NextResponse.json({ error: 'start and end must be dates, with start first' }, { status: 400 });
+  }
+  if (end.getTime() - start.getTime() > MAX_SPAN_MS) {
+    return NextResponse.json({ error: 'The window can be at most a week long' }, { status: 400 });
+  }
+
+  // Hidden members are dropped here rather than in the browser, where the viewer could be made up
+  const viewer = await getViewer();
+  const timeline = await getServerVoiceTimeline(guildId, viewer, start.toISOString(), end.toISOString());
+
+  return NextResponse.json(timeline, { headers: { 'Cache-Control': 'private, no-store' } });
+}
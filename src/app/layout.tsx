@@ -1,10 +1,13 @@
 import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
+import { SiteHeader } from '@/components/layout/site-header';
 import './globals.css';
 
 const inter = Inter({ subsets: ['latin'] });
 
 export const metadata: Metadata = {
+  // Generated Open Graph images need an absolute origin
+  metadataBase: process.env.NEXT_PUBLIC_SITE_URL ? new URL(process.env.NEXT_PUBLIC_SITE_URL) : undefined,
   title: 'PBot - Discord Server Stats',
   description: 'View your Discord server statistics and member leaderboards',
 };
@@ -17,6 +20,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={`${inter.className} bg-discord-dark text-white min-h-screen`}>
+        <SiteHeader />
         <main className="container mx-auto px-4 py-8">
           {children}
         </main>
@@ -0,0 +1,61 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getSession } from '@/lib/auth/session';
+import { getUserGuilds } from '@/lib/queries/user';
+import { Avatar } from '@/components/ui/avatar';
+import { Card } from '@/components/ui/card';
+import { ChevronRight, User } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+export default async function MyServersPage() {
+  const user = await getSession();
+
+  if (!user) {
+    redirect('/api/auth/login?returnTo=/me');
+  }
+
+  const guilds = await getUserGuilds(user.id);
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="flex items-center gap-4 mb-8">
+        <Avatar src={user.avatarUrl} alt={user.username} size="lg" />
+        <div>
+          <h1 className="text-3xl font-bold text-white">{user.globalName || user.username}</h1>
+          <p className="text-gray-400">
+            {guilds.length} {guilds.length === 1 ? 'server' : 'servers'} shared with PBot
+          </p>
+        </div>
+      </div>
+
+      {guilds.length === 0 ? (
+        <Card className="text-center py-12">
+          <p className="text-gray-400">PBot hasn&apos;t seen you in any of its servers yet.</p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {guilds.map((guild) => (
+            <Card key={guild.id} className="flex items-center gap-4">
+              <Avatar src={guild.icon_url} alt={guild.name} size="md" />
+              <Link
+                href={`/${guild.id}`}
+                className="flex-1 min-w-0 font-medium text-white truncate hover:text-discord-blurple transition-colors"
+              >
+                {guild.name}
+              </Link>
+              <Link
+                href={`/${guild.id}/${user.id}`}
+                className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                <User className="w-4 h-4" />
+                My profile
+                <ChevronRight className="w-4 h-4" />
+              </Link>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
-import { Card } from '@/components/ui/card';
+import { getServerSummaries } from '@/lib/queries/server';
+import { ServerDirectory } from '@/components/home/server-directory';
 import { Zap } from 'lucide-react';
 
-export default function HomePage() {
+export const revalidate = 60;
+
+export default async function HomePage() {
+  const servers = await getServerSummaries();
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="text-center mb-12">
@@ -14,12 +19,7 @@ export default function HomePage() {
         </p>
       </div>
 
-      <Card className="text-center py-12">
-        <p className="text-xl text-white mb-2">PBot is lurking in your servers...</p>
-        <p className="text-gray-400">
-          Silently judging your activity and taking notes. Always watching. Never sleeping.
-        </p>
-      </Card>
+      <ServerDirectory servers={servers} />
     </div>
   );
 }
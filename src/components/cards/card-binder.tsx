@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { CardConfig, ExpandedCard, HoloCard } from './holo-card';
+import './card-binder.css';
+
+export const CARDS_PER_PAGE = 9;
+
+// Fixed design size for the binder — scaled via transform to fit the viewport
+const BINDER_WIDTH = 820;
+const BINDER_ASPECT = 1.42; // height / width ratio of the full binder
+
+function useBinderScale(extraHeight: number) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(1);
+
+  useEffect(() => {
+    const update = () => {
+      const el = containerRef.current;
+      if (!el) return;
+      const rect = el.getBoundingClientRect();
+      const padX = 120; // room for nav arrows + breathing
+      const padY = 80 + extraHeight; // room for page indicator, toolbar + breathing
+      const availW = rect.width - padX;
+      const availH = rect.height - padY;
+      const binderH = BINDER_WIDTH * BINDER_ASPECT;
+      const s = Math.min(availW / BINDER_WIDTH, availH / binderH, 1);
+      setScale(Math.max(0.3, s));
+    };
+    update();
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, [extraHeight]);
+
+  return { containerRef, scale };
+}
+
+interface CardBinderProps {
+  cards: CardConfig[]; // The current page's cards, at most CARDS_PER_PAGE
+  currentPage: number; // Zero-based
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  status?: string; // Extra text after the page indicator, e.g. collection progress
+  toolbar?: React.ReactNode; // Filters and sorting, shown above the binder
+}
+
+const TOOLBAR_HEIGHT = 48;
+
+export function CardBinder({
+  cards,
+  currentPage,
+  totalPages,
+  onPageChange,
+  status,
+  toolbar,
+}: CardBinderProps) {
+  const [expandedCard, setExpandedCard] = useState<CardConfig | null>(null);
+  const { containerRef, scale } = useBinderScale(toolbar ? TOOLBAR_HEIGHT : 0);
+
+  const slots: (CardConfig | null)[] = cards.slice(0, CARDS_PER_PAGE);
+  while (slots.length < CARDS_PER_PAGE) {
+    slots.push(null);
+  }
+
+  return (
+    <div ref={containerRef} className="cards-page-bg h-[calc(100vh-3.5rem)] flex flex-col items-center justify-center gap-4 -my-8 py-6 overflow-hidden">
+      {toolbar && <div className="binder__toolbar">{toolbar}</div>}
+
+      <div
+        className="binder-wrapper"
+        style={{ transform: `scale(${scale})`, transformOrigin: 'center center' }}
+      >
+        <button
+          className="binder__nav-btn binder__nav-btn--prev"
+          onClick={() => onPageChange(currentPage - 1)}
+          disabled={currentPage === 0}
+          aria-label="Previous page"
+        >
+          <ChevronLeft size={20} />
+        </button>
+
+        <button
+          className="binder__nav-btn binder__nav-btn--next"
+          onClick={() => onPageChange(currentPage + 1)}
+          disabled={currentPage >= totalPages - 1}
+          aria-label="Next page"
+        >
+          <ChevronRight size={20} />
+        </button>
+
+        <div className="binder">
+          <div className="binder__ring" />
+          <div className="binder__ring" />
+          <div className="binder__ring" />
+
+          <div className="binder__page">
+            <div className="binder__grid">
+              {slots.map((slot, index) => (
+                <div
+                  key={slot ? slot.id : `empty-${index}`}
+                  className={`pocket ${!slot ? 'pocket--empty' : ''}`}
+                >
+                  {slot ? (
+                    <HoloCard
+                      card={slot}
+                      onClick={() => setExpandedCard(slot)}
+                    />
+                  ) : (
+                    <div className="pocket__placeholder" />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="binder__page-indicator">
+        Page {currentPage + 1} of {totalPages}
+        {status && <> &middot; {status}</>}
+      </div>
+
+      {expandedCard && (
+        <ExpandedCard
+          card={expandedCard}
+          onClose={() => setExpandedCard(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { CardConfig } from './holo-card';
+import { CardBinder, CARDS_PER_PAGE } from './card-binder';
+import { CARD_EFFECT_INFO, CARD_RARITY_INFO, CARD_RARITY_ORDER, CARD_SETS } from '@/lib/cards';
+import { CardHoloEffect, CardRarity, CollectibleCard } from '@/types';
+
+export interface CollectionCard extends CardConfig {
+  info: CollectibleCard;
+}
+
+type SortOption = 'binder' | 'name' | 'rarity' | 'release';
+
+const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'binder', label: 'Binder order' },
+  { value: 'name', label: 'Name' },
+  { value: 'rarity', label: 'Rarity' },
+  { value: 'release', label: 'Newest release' },
+];
+
+const SELECT_CLASS =
+  'bg-discord-darker text-gray-300 text-sm rounded-md px-2 py-1 border border-discord-lighter/30';
+
+interface CollectionBinderProps {
+  cards: CollectionCard[];
+  status?: string;
+}
+
+export function CollectionBinder({ cards, status }: CollectionBinderProps) {
+  const [currentPage, setCurrentPage] = useState(0);
+  const [set, setSet] = useState<string>('all');
+  const [rarity, setRarity] = useState<CardRarity | 'all'>('all');
+  const [effect, setEffect] = useState<CardHoloEffect | 'all'>('all');
+  const [ownedOnly, setOwnedOnly] = useState(false);
+  const [sort, setSort] = useState<SortOption>('binder');
+
+  const hasLocked = cards.some((card) => card.locked);
+
+  const visibleCards = useMemo(() => {
+    const filtered = cards.filter(
+      (card) =>
+        (set === 'all' || card.info.set === set) &&
+        (rarity === 'all' || card.info.rarity === rarity) &&
+        (effect === 'all' || card.info.effect === effect) &&
+        (!ownedOnly || !card.locked)
+    );
+
+    // Array.prototype.sort is stable, so ties keep binder order
+    switch (sort) {
+      case 'name':
+        return filtered.sort((a, b) => a.info.name.localeCompare(b.info.name));
+      case 'rarity':
+        return filtered.sort(
+          (a, b) => CARD_RARITY_ORDER.indexOf(b.info.rarity) - CARD_RARITY_ORDER.indexOf(a.info.rarity)
+        );
+      case 'release':
+        return filtered.sort((a, b) => b.info.releaseDate.localeCompare(a.info.releaseDate));
+      default:
+        return filtered;
+    }
+  }, [cards, set, rarity, effect, ownedOnly, sort]);
+
+  const totalPages = Math.max(1, Math.ceil(visibleCards.length / CARDS_PER_PAGE));
+  const page = Math.min(currentPage, totalPages - 1);
+  const pageCards = visibleCards.slice(page * CARDS_PER_PAGE, (page + 1) * CARDS_PER_PAGE);
+
+  // Any filter change starts back on the first page
+  const update = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setCurrentPage(0);
+  };
+
+  const toolbar = (
+    <>
+      {CARD_SETS.length > 1 && (
+        <select value={set} onChange={(e) => update(setSet)(e.target.value)} className={SELECT_CLASS}>
+          <option value="all">All sets</option>
+          {CARD_SETS.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <select
+        value={rarity}
+        onChange={(e) => update(setRarity)(e.target.value as CardRarity | 'all')}
+        className={SELECT_CLASS}
+      >
+        <option value="all">All rarities</option>
+        {CARD_RARITY_ORDER.map((r) => (
+          <option key={r} value={r}>
+            {CARD_RARITY_INFO[r].name}
+          </option>
+        ))}
+      </select>
+      <select
+        value={effect}
+        onChange={(e) => update(setEffect)(e.target.value as CardHoloEffect | 'all')}
+        className={SELECT_CLASS}
+      >
+        <option value="all">All effects</option>
+        {(Object.keys(CARD_EFFECT_INFO) as CardHoloEffect[]).map((e) => (
+          <option key={e} value={e}>
+            {CARD_EFFECT_INFO[e].name}
+          </option>
+        ))}
+      </select>
+      <select
+        value={sort}
+        onChange={(e) => update(setSort)(e.target.value as SortOption)}
+        className={SELECT_CLASS}
+      >
+        {SORT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {hasLocked && (
+        <button
+          onClick={() => update(setOwnedOnly)(!ownedOnly)}
+          className={`px-3 py-1 text-sm rounded-md transition-colors ${
+            ownedOnly ? 'bg-discord-blurple text-white' : 'bg-discord-darker text-gray-400 hover:text-white'
+          }`}
+        >
+          Owned only
+        </button>
+      )}
+    </>
+  );
+
+  return (
+    <CardBinder
+      cards={pageCards}
+      currentPage={page}
+      totalPages={totalPages}
+      onPageChange={setCurrentPage}
+      status={status}
+      toolbar={toolbar}
+    />
+  );
+}
@@ -0,0 +1,159 @@
+import { OgAvatar, OG_COLORS } from '@/components/og/og-frame';
+import { CARD_RARITY_INFO } from '@/lib/cards';
+import { getCustomEmojiUrl } from '@/lib/utils';
+import { CardAttack, MemberCard } from '@/types';
+
+// Rendered through next/og at the same size as the printed card scans, so
+// generated cards sit in the binder next to them without scaling artifacts.
+export const CARD_IMAGE_SIZE = { width: 660, height: 921 };
+
+const CARD_YELLOW = '#f5d142';
+
+function AttackCost({ attack }: { attack: CardAttack }) {
+  const emoji = attack.emoji;
+
+  if (emoji?.is_custom && emoji.emoji_id) {
+    // eslint-disable-next-line @next/next/no-img-element
+    return <img src={getCustomEmojiUrl(emoji.emoji_id)} alt="" width={44} height={44} />;
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: 44,
+        height: 44,
+        borderRadius: 22,
+        fontSize: 28,
+        backgroundColor: 'rgba(0, 0, 0, 0.15)',
+      }}
+    >
+      {emoji ? emoji.emoji : '✦'}
+    </div>
+  );
+}
+
+export function MemberCardFace({ card, serverName }: { card: MemberCard; serverName: string }) {
+  const rarity = CARD_RARITY_INFO[card.rarity];
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        padding: 24,
+        backgroundColor: CARD_YELLOW,
+        fontFamily: 'sans-serif',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          flex: 1,
+          padding: '20px 28px',
+          borderRadius: 12,
+          backgroundImage: `linear-gradient(160deg, #e8e4d8 0%, ${rarity.color}55 100%)`,
+          color: '#1e1f22',
+        }}
+      >
+        {/* Name and HP */}
+        <div style={{ display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between' }}>
+          <span style={{ fontSize: 44, fontWeight: 800, maxWidth: 430, overflow: 'hidden' }}>{card.name}</span>
+          <div style={{ display: 'flex', alignItems: 'flex-end', gap: 4, color: '#c53030' }}>
+            <span style={{ fontSize: 20, fontWeight: 700 }}>HP</span>
+            <span style={{ fontSize: 44, fontWeight: 800 }}>{card.hp}</span>
+          </div>
+        </div>
+
+        {/* Art */}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            height: 360,
+            marginTop: 12,
+            border: `8px solid ${CARD_YELLOW}`,
+            backgroundImage: `radial-gradient(circle, ${rarity.color} 0%, ${OG_COLORS.darker} 100%)`,
+          }}
+        >
+          <OgAvatar src={card.avatar_url} size={240} />
+        </div>
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'center',
+            marginTop: 6,
+            fontSize: 18,
+            fontStyle: 'italic',
+          }}
+        >
+          Level {card.level} Member &middot; {card.achievementCount} achievements
+        </div>
+
+        {/* Attacks */}
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1, justifyContent: 'center', gap: 24 }}>
+          {card.attacks.length === 0 ? (
+            <span style={{ fontSize: 24, textAlign: 'center', color: '#6b7280' }}>Still learning moves&hellip;</span>
+          ) : (
+            card.attacks.map((attack) => (
+              <div key={attack.name} style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+                <AttackCost attack={attack} />
+                <span style={{ flex: 1, fontSize: 32, fontWeight: 700, overflow: 'hidden' }}>{attack.name}</span>
+                <span style={{ fontSize: 36, fontWeight: 800 }}>{attack.damage}</span>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            paddingTop: 10,
+            borderTop: '2px solid rgba(0, 0, 0, 0.2)',
+            fontSize: 18,
+          }}
+        >
+          <span>{serverName}</span>
+          <span style={{ color: rarity.color, fontWeight: 700 }}>
+            {rarity.symbol} {rarity.name}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function CardBack() {
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        padding: 24,
+        backgroundColor: '#1d4ed8',
+        fontFamily: 'sans-serif',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          flex: 1,
+          alignItems: 'center',
+          justifyContent: 'center',
+          borderRadius: 12,
+          backgroundImage: `radial-gradient(circle, ${OG_COLORS.blurple} 0%, #1e1b4b 100%)`,
+        }}
+      >
+        <span style={{ fontSize: 120, fontWeight: 800, color: OG_COLORS.white }}>PBot</span>
+      </div>
+    </div>
+  );
+}
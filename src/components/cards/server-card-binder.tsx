@@ -0,0 +1,26 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { CardConfig } from './holo-card';
+import { CardBinder } from './card-binder';
+
+interface ServerCardBinderProps {
+  serverId: string;
+  cards: CardConfig[];
+  page: number; // One-based, matching the ?page= param
+  totalPages: number;
+}
+
+// Pages are loaded on the server, so turning a page is a navigation
+export function ServerCardBinder({ serverId, cards, page, totalPages }: ServerCardBinderProps) {
+  const router = useRouter();
+
+  return (
+    <CardBinder
+      cards={cards}
+      currentPage={page - 1}
+      totalPages={totalPages}
+      onPageChange={(next) => router.push(`/${serverId}/cards?page=${next + 1}`)}
+    />
+  );
+}
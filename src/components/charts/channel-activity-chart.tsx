@@ -0,0 +1,21 @@
+'use client';
+
+import { useCallback } from 'react';
+import { ActivityChart } from './activity-chart';
+import { getChannelDailyActivity } from '@/lib/queries/channels';
+
+interface ChannelActivityChartProps {
+  serverId: string;
+  channelId: string;
+}
+
+export function ChannelActivityChart({ serverId, channelId }: ChannelActivityChartProps) {
+  const fetchData = useCallback(
+    async (days: number) => {
+      return getChannelDailyActivity(serverId, channelId, days);
+    },
+    [serverId, channelId]
+  );
+
+  return <ActivityChart title="Channel Activity" fetchData={fetchData} />;
+}
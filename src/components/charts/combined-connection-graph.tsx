@@ -14,7 +14,9 @@ import {
   calculateTextConnections,
   getServerActivityWeight,
 } from '@/lib/queries/text-connections';
-import { ConnectionTimeRange, ServerActivityWeight } from '@/types';
+import { filterHiddenConnections, getHiddenUserIds } from '@/lib/queries/privacy';
+import { fetchViewer } from '@/lib/auth/client';
+import { ConnectionTimeRange, ServerActivityWeight, TextConnection } from '@/types';
 import { Users, Clock, RefreshCw, Mic, MessageSquare } from 'lucide-react';
 
 // Dynamically import ForceGraph2D to avoid SSR issues
@@ -389,14 +391,19 @@ export function CombinedConnectionGraph({
         calculateTextConnections(serverId, timeRange).catch(() => {}),
       ]);
 
-      const [voiceConnections, weight] = await Promise.all([
+      const [allVoiceConnections, weight, hiddenUserIds] = await Promise.all([
         getVoiceConnections(serverId, timeRange),
         getServerActivityWeight(serverId),
+        fetchViewer().then((viewer) => getHiddenUserIds(serverId, viewer)),
       ]);
+      const voiceConnections = filterHiddenConnections(allVoiceConnections, hiddenUserIds);
 
-      let textConnections: unknown[] = [];
+      let textConnections: TextConnection[] = [];
       try {
-        textConnections = await getTextConnections(serverId, timeRange);
+        textConnections = filterHiddenConnections(
+          await getTextConnections(serverId, timeRange),
+          hiddenUserIds
+        );
       } catch {}
 
       setHasVoiceData(voiceConnections.length > 0);
@@ -445,14 +452,20 @@ export function CombinedConnectionGraph({
     async function loadData() {
       setLoading(true);
       try {
-        const [voiceConnections, weight] = await Promise.all([
+        // Members who hid themselves from this viewer are left out of the graph
+        const [allVoiceConnections, weight, hiddenUserIds] = await Promise.all([
           getVoiceConnections(serverId, timeRange),
           getServerActivityWeight(serverId),
+          fetchViewer().then((viewer) => getHiddenUserIds(serverId, viewer)),
         ]);
+        const voiceConnections = filterHiddenConnections(allVoiceConnections, hiddenUserIds);
 
-        let textConnections: unknown[] = [];
+        let textConnections: TextConnection[] = [];
         try {
-          textConnections = await getTextConnections(serverId, timeRange);
+          textConnections = filterHiddenConnections(
+            await getTextConnections(serverId, timeRange),
+            hiddenUserIds
+          );
         } catch {}
 
         if (cancelled) return;
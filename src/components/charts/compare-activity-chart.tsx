@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { TIME_RANGES, TimeRange } from './activity-chart';
+import { getMemberDailyStats } from '@/lib/queries/profile';
+import { formatUtcDateToLocal, formatVoiceTime } from '@/lib/utils';
+import { TrendingUp } from 'lucide-react';
+
+type Metric = 'message_count' | 'voice_minutes' | 'xp_earned';
+
+const METRICS: { value: Metric; label: string }[] = [
+  { value: 'message_count', label: 'Messages' },
+  { value: 'voice_minutes', label: 'Voice' },
+  { value: 'xp_earned', label: 'XP' },
+];
+
+const COMPARE_COLORS = ['#5865f2', '#eb459e'] as const;
+
+interface CompareActivityChartProps {
+  serverId: string;
+  memberA: { id: string; name: string };
+  memberB: { id: string; name: string };
+}
+
+interface ChartDataPoint {
+  date: string;
+  dateFormatted: string;
+  a: number;
+  b: number;
+}
+
+export function CompareActivityChart({ serverId, memberA, memberB }: CompareActivityChartProps) {
+  const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+  const [metric, setMetric] = useState<Metric>('message_count');
+  const [data, setData] = useState<ChartDataPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function loadData() {
+      setLoading(true);
+      try {
+        const days = TIME_RANGES.find((r) => r.value === timeRange)?.days || 30;
+        const [statsA, statsB] = await Promise.all([
+          getMemberDailyStats(serverId, memberA.id, days),
+          getMemberDailyStats(serverId, memberB.id, days),
+        ]);
+
+        // Both series are zero-filled over the same dates, so they line up by index
+        setData(
+          statsA.map((day, i) => ({
+            date: day.date,
+            dateFormatted: formatUtcDateToLocal(day.date),
+            a: day[metric],
+            b: statsB[i]?.[metric] || 0,
+          }))
+        );
+      } catch (err) {
+        console.error('Failed to load comparison data:', err);
+      } finally {
+        setLoading(false);
+      }
+    }
+    loadData();
+  }, [serverId, memberA.id, memberB.id, timeRange, metric]);
+
+  const formatValue = (value: number) =>
+    metric === 'voice_minutes' ? formatVoiceTime(value) : value.toLocaleString();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="w-5 h-5" />
+            Activity
+          </CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <div className="flex gap-1">
+              {METRICS.map((m) => (
+                <button
+                  key={m.value}
+                  onClick={() => setMetric(m.value)}
+                  className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                    metric === m.value
+                      ? 'bg-discord-blurple text-white'
+                      : 'bg-discord-darker text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              {TIME_RANGES.map((range) => (
+                <button
+                  key={range.value}
+                  onClick={() => setTimeRange(range.value)}
+                  className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                    timeRange === range.value
+                      ? 'bg-discord-blurple text-white'
+                      : 'bg-discord-darker text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {range.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data}>
+                <XAxis
+                  dataKey="dateFormatted"
+                  stroke="#6b7280"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  interval="preserveStartEnd"
+                />
+                <YAxis
+                  stroke="#6b7280"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value) =>
+                    value >= 1000 ? `${(value / 1000).toFixed(1)}k` : value
+                  }
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#2b2d31',
+                    border: '1px solid #3b3d44',
+                    borderRadius: '8px',
+                  }}
+                  labelStyle={{ color: '#fff' }}
+                  formatter={(value: number, name: string) => [
+                    formatValue(value),
+                    name === 'a' ? memberA.name : memberB.name,
+                  ]}
+                />
+                <Legend formatter={(value) => (value === 'a' ? memberA.name : memberB.name)} />
+                <Line type="monotone" dataKey="a" stroke={COMPARE_COLORS[0]} strokeWidth={2} dot={false} name="a" />
+                <Line type="monotone" dataKey="b" stroke={COMPARE_COLORS[1]} strokeWidth={2} dot={false} name="b" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { EmojiIcon } from '@/components/ui/emoji';
+import { formatUtcDateToLocal } from '@/lib/utils';
+import { EmojiTrendPoint, EmojiUsage } from '@/types';
+import { TrendingUp } from 'lucide-react';
+
+interface EmojiTrendChartProps {
+  emojis: EmojiUsage[];
+  trend: EmojiTrendPoint[];
+  bucket: 'day' | 'week';
+}
+
+const LINE_COLORS = ['#5865f2', '#3ba55c', '#faa61a', '#ed4245', '#9b59b6'];
+
+export function EmojiTrendChart({ emojis, trend, bucket }: EmojiTrendChartProps) {
+  const keys = emojis.map((e) => e.emoji_id || e.emoji);
+  const data = trend.map((point) => ({
+    dateFormatted: formatUtcDateToLocal(point.date),
+    ...Object.fromEntries(keys.map((key) => [key, point.counts[key] || 0])),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="w-5 h-5" />
+            Trends
+            <span className="text-sm font-normal text-gray-400">
+              ({bucket === 'day' ? 'daily' : 'weekly'})
+            </span>
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-3">
+            {emojis.map((emoji, i) => (
+              <span key={keys[i]} className="flex items-center gap-1.5">
+                <span className="w-3 h-0.5 rounded" style={{ backgroundColor: LINE_COLORS[i % LINE_COLORS.length] }} />
+                <EmojiIcon emoji={emoji} size={20} />
+              </span>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {emojis.length === 0 ? (
+          <div className="h-64 flex items-center justify-center text-gray-400">
+            No emoji usage in this period
+          </div>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data}>
+                <XAxis
+                  dataKey="dateFormatted"
+                  stroke="#6b7280"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  interval="preserveStartEnd"
+                />
+                <YAxis stroke="#6b7280" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#2b2d31',
+                    border: '1px solid #3b3d44',
+                    borderRadius: '8px',
+                  }}
+                  labelStyle={{ color: '#fff' }}
+                  labelFormatter={(label) => (bucket === 'week' ? `Week of ${label}` : label)}
+                />
+                {emojis.map((emoji, i) => (
+                  <Line
+                    key={keys[i]}
+                    type="monotone"
+                    dataKey={keys[i]}
+                    name={emoji.emoji}
+                    stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatHour, formatNumber, formatVoiceTime, getDayName, getTimezoneOffsetString } from '@/lib/utils';
+import { HourOfWeekActivity } from '@/types';
+import { Grid3x3 } from 'lucide-react';
+
+type HeatmapMetric = 'messages' | 'voice' | 'combined';
+
+const METRICS: { value: HeatmapMetric; label: string; color: string }[] = [
+  { value: 'messages', label: 'Messages', color: '88, 101, 242' },
+  { value: 'voice', label: 'Voice', color: '59, 165, 92' },
+  { value: 'combined', label: 'Combined', color: '155, 89, 182' },
+];
+
+const HOUR_LABEL_STEP = 3;
+
+interface HourOfWeekHeatmapProps {
+  title?: string;
+  fetchData: () => Promise<HourOfWeekActivity | null>;
+}
+
+// Same weighting as the contribution graph: a voice minute counts like a message
+function getValue(activity: HourOfWeekActivity, metric: HeatmapMetric, index: number): number {
+  if (metric === 'messages') return activity.messages[index];
+  if (metric === 'voice') return activity.voiceMinutes[index];
+  return activity.messages[index] + activity.voiceMinutes[index];
+}
+
+function describeCell(activity: HourOfWeekActivity, index: number): string {
+  const day = getDayName(Math.floor(index / 24));
+  const hour = formatHour(index % 24);
+  return `${day} ${hour}: ${formatNumber(activity.messages[index])} messages, ${formatVoiceTime(
+    activity.voiceMinutes[index]
+  )} voice`;
+}
+
+export function HourOfWeekHeatmap({ title = 'Weekly Rhythm', fetchData }: HourOfWeekHeatmapProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>('combined');
+  const [activity, setActivity] = useState<HourOfWeekActivity | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [timezone, setTimezone] = useState('');
+
+  useEffect(() => {
+    async function loadData() {
+      setLoading(true);
+      try {
+        setActivity(await fetchData());
+      } catch (err) {
+        console.error('Failed to load hour-of-week activity:', err);
+      } finally {
+        setLoading(false);
+      }
+    }
+    loadData();
+    setTimezone(getTimezoneOffsetString());
+  }, [fetchData]);
+
+  const values = useMemo(
+    () => (activity ? activity.messages.map((_, i) => getValue(activity, metric, i)) : []),
+    [activity, metric]
+  );
+  const maxValue = Math.max(0, ...values);
+  const peakIndex = maxValue > 0 ? values.indexOf(maxValue) : -1;
+  const color = METRICS.find((m) => m.value === metric)?.color || METRICS[0].color;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Grid3x3 className="w-5 h-5" />
+            {title}
+          </CardTitle>
+          <div className="flex gap-1">
+            {METRICS.map((m) => (
+              <button
+                key={m.value}
+                onClick={() => setMetric(m.value)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  metric === m.value
+                    ? 'bg-discord-blurple text-white'
+                    : 'bg-discord-darker text-gray-400 hover:text-white'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : !activity || maxValue === 0 ? (
+          <div className="h-48 flex items-center justify-center text-gray-400">
+            No activity data available
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="min-w-[560px]">
+              {/* Hour labels */}
+              <div className="flex ml-10 mb-1">
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <div key={hour} className="flex-1 text-[10px] text-gray-500">
+                    {hour % HOUR_LABEL_STEP === 0 ? formatHour(hour) : ''}
+                  </div>
+                ))}
+              </div>
+
+              {Array.from({ length: 7 }, (_, day) => (
+                <div key={day} className="flex items-center gap-0.5 mb-0.5">
+                  <div className="w-10 shrink-0 text-xs text-gray-400">
+                    {getDayName(day).slice(0, 3)}
+                  </div>
+                  {Array.from({ length: 24 }, (_, hour) => {
+                    const index = day * 24 + hour;
+                    const ratio = values[index] / maxValue;
+                    return (
+                      <div
+                        key={hour}
+                        className="flex-1 h-5 rounded-sm bg-discord-darker"
+                        style={
+                          values[index] > 0
+                            ? { backgroundColor: `rgba(${color}, ${0.15 + ratio * 0.85})` }
+                            : undefined
+                        }
+                        title={describeCell(activity, index)}
+                      />
+                    );
+                  })}
+                </div>
+              ))}
+
+              <div className="flex flex-wrap items-center justify-between gap-2 mt-3 text-xs text-gray-500">
+                {peakIndex >= 0 && (
+                  <span>
+                    Busiest: {getDayName(Math.floor(peakIndex / 24))} at {formatHour(peakIndex % 24)}
+                  </span>
+                )}
+                {timezone && <span>Times shown in your timezone ({timezone})</span>}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
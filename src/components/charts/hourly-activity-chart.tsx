@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatHour, formatVoiceTime, getLocalHourFromUtc, getTimezoneOffsetString } from '@/lib/utils';
+import { Clock } from 'lucide-react';
+
+interface HourlyActivityChartProps {
+  title?: string;
+  hourlyMessages: number[]; // 24 UTC hours
+  hourlyVoiceMinutes: number[];
+}
+
+interface HourPoint {
+  hour: string;
+  messages: number;
+  voiceMinutes: number;
+}
+
+// Rotate UTC buckets into local hours; pass null to keep UTC
+function toHourPoints(
+  hourlyMessages: number[],
+  hourlyVoiceMinutes: number[],
+  toHour: ((utcHour: number) => number) | null
+): HourPoint[] {
+  const messages = new Array<number>(24).fill(0);
+  const voiceMinutes = new Array<number>(24).fill(0);
+  for (let utcHour = 0; utcHour < 24; utcHour++) {
+    const hour = toHour ? toHour(utcHour) : utcHour;
+    messages[hour] += hourlyMessages[utcHour] || 0;
+    voiceMinutes[hour] += hourlyVoiceMinutes[utcHour] || 0;
+  }
+  return messages.map((count, hour) => ({
+    hour: formatHour(hour),
+    messages: count,
+    voiceMinutes: voiceMinutes[hour],
+  }));
+}
+
+export function HourlyActivityChart({
+  title = 'Peak Hours',
+  hourlyMessages,
+  hourlyVoiceMinutes,
+}: HourlyActivityChartProps) {
+  // Render UTC on the server, then switch to the viewer's timezone
+  const [data, setData] = useState(() => toHourPoints(hourlyMessages, hourlyVoiceMinutes, null));
+  const [timezone, setTimezone] = useState('UTC');
+
+  useEffect(() => {
+    setData(toHourPoints(hourlyMessages, hourlyVoiceMinutes, getLocalHourFromUtc));
+    setTimezone(getTimezoneOffsetString());
+  }, [hourlyMessages, hourlyVoiceMinutes]);
+
+  const hasVoice = data.some((d) => d.voiceMinutes > 0);
+  const hasMessages = data.some((d) => d.messages > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            {title}
+          </CardTitle>
+          <span className="text-xs text-gray-500">{timezone}</span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!hasVoice && !hasMessages ? (
+          <div className="h-56 flex items-center justify-center text-gray-400">
+            No activity data available
+          </div>
+        ) : (
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data}>
+                <XAxis
+                  dataKey="hour"
+                  stroke="#6b7280"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  interval={2}
+                />
+                <YAxis stroke="#6b7280" fontSize={12} tickLine={false} axisLine={false} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#2b2d31',
+                    border: '1px solid #3b3d44',
+                    borderRadius: '8px',
+                  }}
+                  labelStyle={{ color: '#fff' }}
+                  cursor={{ fill: 'rgba(255, 255, 255, 0.05)' }}
+                  formatter={(value: number, name: string) =>
+                    name === 'voiceMinutes'
+                      ? [formatVoiceTime(value), 'Voice']
+                      : [value.toLocaleString(), 'Messages']
+                  }
+                />
+                <Legend formatter={(value) => (value === 'messages' ? 'Messages' : 'Voice Time')} />
+                {hasMessages && <Bar dataKey="messages" fill="#5865f2" radius={[2, 2, 0, 0]} />}
+                {hasVoice && <Bar dataKey="voiceMinutes" fill="#3ba55c" radius={[2, 2, 0, 0]} />}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useCallback } from 'react';
 import { ActivityChart } from './activity-chart';
-import { getMemberDailyStats } from '@/lib/queries/profile';
+import { fetchMemberDailyStats } from '@/lib/profile-client';
 
 interface MemberActivityChartProps {
   serverId: string;
@@ -12,7 +12,7 @@ interface MemberActivityChartProps {
 export function MemberActivityChart({ serverId, memberId }: MemberActivityChartProps) {
   const fetchData = useCallback(
     async (days: number) => {
-      const stats = await getMemberDailyStats(serverId, memberId, days);
+      const stats = await fetchMemberDailyStats(serverId, memberId, days);
       return stats.map((s) => ({
         date: s.date,
         messages: s.message_count,
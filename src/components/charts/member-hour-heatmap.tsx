@@ -0,0 +1,20 @@
+'use client';
+
+import { useCallback } from 'react';
+import { HourOfWeekHeatmap } from './hour-of-week-heatmap';
+import { fetchMemberHourOfWeekActivity } from '@/lib/profile-client';
+import { getTimeZoneName } from '@/lib/utils';
+
+interface MemberHourHeatmapProps {
+  serverId: string;
+  memberId: string;
+}
+
+export function MemberHourHeatmap({ serverId, memberId }: MemberHourHeatmapProps) {
+  const fetchData = useCallback(
+    async () => fetchMemberHourOfWeekActivity(serverId, memberId, getTimeZoneName()),
+    [serverId, memberId]
+  );
+
+  return <HourOfWeekHeatmap title="Weekly Rhythm" fetchData={fetchData} />;
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { useCallback } from 'react';
+import { HourOfWeekHeatmap } from './hour-of-week-heatmap';
+import { getServerHourOfWeekActivity } from '@/lib/queries/activity-heatmap';
+import { getTimeZoneName } from '@/lib/utils';
+
+interface ServerHourHeatmapProps {
+  serverId: string;
+}
+
+export function ServerHourHeatmap({ serverId }: ServerHourHeatmapProps) {
+  const fetchData = useCallback(
+    async () => getServerHourOfWeekActivity(serverId, getTimeZoneName()),
+    [serverId]
+  );
+
+  return <HourOfWeekHeatmap title="Weekly Rhythm" fetchData={fetchData} />;
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { Avatar } from '@/components/ui/avatar';
+import { Card } from '@/components/ui/card';
+import { getActiveVoiceCounts } from '@/lib/queries/server';
+import { supabase } from '@/lib/supabase';
+import { formatNumber } from '@/lib/utils';
+import { ServerSummary } from '@/types';
+import { Search, Users, MessageSquare, Mic, Radio } from 'lucide-react';
+
+type DirectorySort = 'name' | 'members' | 'messages' | 'voice' | 'live';
+
+interface SortOption {
+  value: DirectorySort;
+  label: string;
+}
+
+const SORT_OPTIONS: SortOption[] = [
+  { value: 'members', label: 'Members' },
+  { value: 'messages', label: 'Messages' },
+  { value: 'voice', label: 'Voice' },
+  { value: 'live', label: 'In Voice' },
+  { value: 'name', label: 'Name' },
+];
+
+// Each viewer re-counts at most this often, however busy voice gets
+const RELOAD_THROTTLE_MS = 10000;
+
+interface ServerDirectoryProps {
+  servers: ServerSummary[];
+}
+
+function compareServers(a: ServerSummary, b: ServerSummary, sortBy: DirectorySort): number {
+  switch (sortBy) {
+    case 'members':
+      return b.memberCount - a.memberCount;
+    case 'messages':
+      return b.totalMessages - a.totalMessages;
+    case 'voice':
+      return b.totalVoiceHours - a.totalVoiceHours;
+    case 'live':
+      return b.activeVoiceCount - a.activeVoiceCount;
+    default:
+      return a.name.localeCompare(b.name);
+  }
+}
+
+export function ServerDirectory({ servers }: ServerDirectoryProps) {
+  const [search, setSearch] = useState('');
+  const [sortBy, setSortBy] = useState<DirectorySort>('members');
+  const [activeCounts, setActiveCounts] = useState<Record<string, number>>(() =>
+    Object.fromEntries(servers.map((s) => [s.id, s.activeVoiceCount]))
+  );
+
+  const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Joins and leaves arrive in bursts, so they share one delayed re-count
+  const scheduleReload = useCallback(() => {
+    if (reloadTimer.current) return;
+    reloadTimer.current = setTimeout(async () => {
+      reloadTimer.current = null;
+      try {
+        const counts = await getActiveVoiceCounts();
+        setActiveCounts(counts);
+      } catch (err) {
+        console.error('Failed to load active voice counts:', err);
+      }
+    }, RELOAD_THROTTLE_MS);
+  }, []);
+
+  useEffect(() => {
+    // Subscribe to realtime changes on voice_sessions across all guilds
+    const channel = supabase
+      .channel('server-directory-voice')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'voice_sessions' },
+        () => scheduleReload()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'voice_sessions' },
+        () => scheduleReload()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+      if (reloadTimer.current) {
+        clearTimeout(reloadTimer.current);
+        reloadTimer.current = null;
+      }
+    };
+  }, [scheduleReload]);
+
+  const visibleServers = useMemo(() => {
+    const searchLower = search.trim().toLowerCase();
+    return servers
+      .map((server) => ({
+        ...server,
+        activeVoiceCount: activeCounts[server.id] || 0,
+      }))
+      .filter((server) => !searchLower || server.name.toLowerCase().includes(searchLower))
+      .sort((a, b) => compareServers(a, b, sortBy) || a.name.localeCompare(b.name));
+  }, [servers, activeCounts, search, sortBy]);
+
+  return (
+    <div>
+      {/* Search and Sort */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search servers..."
+            className="w-full bg-discord-darker border border-discord-lighter/20 rounded-lg pl-9 pr-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-discord-blurple"
+          />
+        </div>
+        <div className="flex gap-1">
+          {SORT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setSortBy(option.value)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                sortBy === option.value
+                  ? 'bg-discord-blurple text-white'
+                  : 'bg-discord-darker text-gray-400 hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Server List */}
+      {visibleServers.length === 0 ? (
+        <Card className="text-center py-12">
+          <p className="text-gray-400">
+            {servers.length === 0 ? 'PBot has not joined any servers yet.' : 'No servers match your search.'}
+          </p>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {visibleServers.map((server) => (
+            <Link key={server.id} href={`/${server.id}`} className="block group">
+              <Card className="h-full transition-colors group-hover:border-discord-blurple/50">
+                <div className="flex items-center gap-4">
+                  <Avatar
+                    src={server.icon_url}
+                    alt={server.name}
+                    size="lg"
+                    className="group-hover:ring-2 ring-discord-blurple transition-all"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold text-white truncate group-hover:text-discord-blurple transition-colors">
+                        {server.name}
+                      </p>
+                      {server.activeVoiceCount > 0 && (
+                        <span className="flex items-center gap-1 text-xs bg-green-500/20 text-green-400 px-2 py-0.5 rounded-full shrink-0">
+                          <Radio className="w-3 h-3" />
+                          {server.activeVoiceCount} in voice
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 mt-1 text-sm text-gray-400">
+                      <span className="flex items-center gap-1">
+                        <Users className="w-4 h-4" />
+                        <span className="tabular-nums">{formatNumber(server.memberCount)}</span>
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <MessageSquare className="w-4 h-4" />
+                        <span className="tabular-nums">{formatNumber(server.totalMessages)}</span>
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Mic className="w-4 h-4" />
+                        <span className="tabular-nums">{formatNumber(server.totalVoiceHours)}h</span>
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import Link from 'next/link';
+import { UserMenu } from './user-menu';
+import { Zap } from 'lucide-react';
+
+export function SiteHeader() {
+  return (
+    <header className="border-b border-discord-lighter/20 bg-discord-darker/60">
+      <div className="container mx-auto px-4 h-14 flex items-center justify-between">
+        <Link href="/" className="flex items-center gap-2 text-white font-bold">
+          <Zap className="w-5 h-5 text-discord-blurple" />
+          PBot
+        </Link>
+        <UserMenu />
+      </div>
+    </header>
+  );
+}
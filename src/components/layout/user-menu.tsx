@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { Avatar } from '@/components/ui/avatar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { fetchSession } from '@/lib/auth/client';
+import { SessionInfo } from '@/types';
+import { ChevronDown, LogIn, LogOut, Server, Shield, User } from 'lucide-react';
+
+export function UserMenu() {
+  const pathname = usePathname();
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    async function loadSession() {
+      try {
+        setSession(await fetchSession());
+      } catch (err) {
+        console.error('Failed to load session:', err);
+        setSession({ user: null, guilds: [] });
+      }
+    }
+    loadSession();
+  }, []);
+
+  // Close the menu on navigation and on outside clicks
+  useEffect(() => {
+    setOpen(false);
+  }, [pathname]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  if (!session) {
+    return <Skeleton className="h-8 w-24 rounded-full" />;
+  }
+
+  if (!session.user) {
+    return (
+      <a
+        href={`/api/auth/login?returnTo=${encodeURIComponent(pathname)}`}
+        className="inline-flex items-center gap-2 bg-discord-blurple hover:bg-discord-blurple/80 text-white text-sm px-3 py-1.5 rounded-lg transition-colors"
+      >
+        <LogIn className="w-4 h-4" />
+        <span>Sign in with Discord</span>
+      </a>
+    );
+  }
+
+  const { user, guilds } = session;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 rounded-full pl-1 pr-2 py-1 hover:bg-discord-lighter/50 transition-colors"
+      >
+        <Avatar src={user.avatarUrl} alt={user.username} size="sm" />
+        <span className="hidden sm:inline text-sm text-white">{user.globalName || user.username}</span>
+        <ChevronDown className="w-4 h-4 text-gray-400" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-discord-light border border-discord-lighter/20 rounded-lg shadow-lg z-50 overflow-hidden">
+          <div className="px-3 py-2 border-b border-discord-lighter/20">
+            <p className="text-sm font-medium text-white truncate">{user.globalName || user.username}</p>
+            <p className="text-xs text-gray-400 truncate">@{user.username}</p>
+          </div>
+
+          <div className="py-1 max-h-80 overflow-y-auto">
+            <Link
+              href="/me"
+              className="flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-discord-lighter/50 hover:text-white transition-colors"
+            >
+              <Server className="w-4 h-4" />
+              My servers
+            </Link>
+            {guilds.length > 0 && (
+              <p className="px-3 pt-2 pb-1 text-xs uppercase text-gray-500">My profiles</p>
+            )}
+            {guilds.map((guild) => (
+              <div key={guild.id} className="flex items-center hover:bg-discord-lighter/50 transition-colors">
+                <Link
+                  href={`/${guild.id}/${user.id}`}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:text-white transition-colors"
+                >
+                  <Avatar src={guild.icon_url} alt={guild.name} size="xs" />
+                  <span className="flex-1 truncate">{guild.name}</span>
+                  <User className="w-3 h-3 text-gray-500" />
+                </Link>
+                {user.adminGuildIds.includes(guild.id) && (
+                  <Link
+                    href={`/${guild.id}/admin`}
+                    title="Server admin"
+                    className="px-3 py-2 text-gray-500 hover:text-white transition-colors"
+                  >
+                    <Shield className="w-3 h-3" />
+                  </Link>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <form action="/api/auth/logout" method="post" className="border-t border-discord-lighter/20">
+            <button
+              type="submit"
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-discord-lighter/50 hover:text-white transition-colors"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
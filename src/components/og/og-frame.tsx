@@ -0,0 +1,91 @@
+// Building blocks for the generated Open Graph images. These render through
+// next/og (Satori), which only understands inline styles and flex layouts, so
+// every element with more than one child sets display: flex.
+
+export const OG_COLORS = {
+  dark: '#1e1f22',
+  darker: '#111214',
+  light: '#2b2d31',
+  blurple: '#5865f2',
+  muted: '#9ca3af',
+  white: '#ffffff',
+};
+
+/**
+ * Satori can't decode WebP or animated GIFs, so ask Discord's CDN for a PNG.
+ */
+export function toOgImageUrl(url: string | null): string | null {
+  if (!url) return null;
+  try {
+    const png = new URL(url.replace(/\.(webp|gif)(?=$|\?)/, '.png'));
+    png.searchParams.set('size', '256');
+    return png.toString();
+  } catch {
+    return null;
+  }
+}
+
+export function OgFrame({ children, footer }: { children: React.ReactNode; footer: string }) {
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        padding: 64,
+        backgroundColor: OG_COLORS.dark,
+        backgroundImage: `linear-gradient(135deg, ${OG_COLORS.dark} 0%, ${OG_COLORS.darker} 100%)`,
+        color: OG_COLORS.white,
+        fontFamily: 'sans-serif',
+      }}
+    >
+      <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>{children}</div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 24, color: OG_COLORS.muted }}>
+        <span>{footer}</span>
+        <span style={{ color: OG_COLORS.blurple, fontWeight: 700 }}>PBot</span>
+      </div>
+    </div>
+  );
+}
+
+export function OgAvatar({ src, size, rounded = true }: { src: string | null; size: number; rounded?: boolean }) {
+  const url = toOgImageUrl(src);
+  const radius = rounded ? size / 2 : size / 5;
+
+  if (!url) {
+    return (
+      <div
+        style={{
+          display: 'flex',
+          width: size,
+          height: size,
+          borderRadius: radius,
+          backgroundColor: OG_COLORS.blurple,
+        }}
+      />
+    );
+  }
+
+  // eslint-disable-next-line @next/next/no-img-element
+  return <img src={url} alt="" width={size} height={size} style={{ borderRadius: radius }} />;
+}
+
+export function OgStat({ label, value }: { label: string; value: string }) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        flex: 1,
+        padding: '20px 24px',
+        borderRadius: 16,
+        backgroundColor: OG_COLORS.light,
+      }}
+    >
+      <span style={{ fontSize: 20, textTransform: 'uppercase', color: OG_COLORS.muted }}>{label}</span>
+      <span style={{ fontSize: 44, fontWeight: 700 }}>{value}</span>
+    </div>
+  );
+}
@@ -1,9 +1,28 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { EarnedAchievement, AchievementCategory, AchievementDefinition } from '@/types';
-import { CATEGORY_INFO, TOTAL_ACHIEVEMENTS, ACHIEVEMENT_DEFINITIONS } from '@/lib/achievements';
+import { Progress } from '@/components/ui/progress';
+import {
+  EarnedAchievement,
+  AchievementCategory,
+  AchievementDefinition,
+  AchievementProgress,
+  AchievementRarity,
+  AchievementTier,
+  StreakDay,
+} from '@/types';
+import {
+  CATEGORY_INFO,
+  RARITY_INFO,
+  TIER_INFO,
+  TIER_ORDER,
+  formatAchievementProgress,
+  getAchievementProgress,
+  getProgressRatio,
+} from '@/lib/achievements';
+import { computeMemberStreaks } from '@/lib/streaks';
 import { formatLocalDate } from '@/lib/utils';
 import {
   Award,
@@ -20,7 +39,7 @@ import {
 } from 'lucide-react';
 
 // Category icons mapping
-const CATEGORY_ICONS: Record<AchievementCategory, React.ElementType> = {
+export const CATEGORY_ICONS: Record<AchievementCategory, React.ElementType> = {
   milestone: Trophy,
   streak: Flame,
   time: Clock,
@@ -28,6 +47,7 @@ const CATEGORY_ICONS: Record<AchievementCategory, React.ElementType> = {
   activity: Zap,
   fun: Sparkles,
   reaction: Heart,
+  other: HelpCircle,
 };
 
 // Background colors for badge styling by category
@@ -39,14 +59,51 @@ const CATEGORY_BG: Record<AchievementCategory, string> = {
   activity: 'bg-green-500/10 border-green-500/30 hover:bg-green-500/20',
   fun: 'bg-purple-500/10 border-purple-500/30 hover:bg-purple-500/20',
   reaction: 'bg-red-500/10 border-red-500/30 hover:bg-red-500/20',
+  other: 'bg-gray-500/10 border-gray-500/30 hover:bg-gray-500/20',
 };
 
+/**
+ * An achievement's own icon (emoji or image URL), or its category icon.
+ */
+export function AchievementIcon({ achievement, className = 'w-6 h-6' }: {
+  achievement: AchievementDefinition;
+  className?: string;
+}) {
+  if (achievement.icon && /^https?:\/\//.test(achievement.icon)) {
+    return (
+      <Image
+        src={achievement.icon}
+        alt={achievement.name}
+        width={24}
+        height={24}
+        className={`${className} object-contain`}
+        unoptimized
+      />
+    );
+  }
+  if (achievement.icon) {
+    return <span className="text-xl leading-none">{achievement.icon}</span>;
+  }
+  const Icon = CATEGORY_ICONS[achievement.category];
+  return <Icon className={className} />;
+}
+
+export function RarityBadge({ rarity }: { rarity: AchievementRarity }) {
+  const { name, color } = RARITY_INFO[rarity];
+  return <span className={`text-[10px] font-semibold uppercase tracking-wide ${color}`}>{name}</span>;
+}
+
+export function TierBadge({ tier }: { tier: AchievementTier }) {
+  const { name, color } = TIER_INFO[tier];
+  return <span className={`text-[10px] font-semibold uppercase tracking-wide ${color}`}>{name}</span>;
+}
+
 interface EarnedAchievementBadgeProps {
   achievement: EarnedAchievement;
+  rarity?: AchievementRarity;
 }
 
-function EarnedAchievementBadge({ achievement }: EarnedAchievementBadgeProps) {
-  const Icon = CATEGORY_ICONS[achievement.category];
+function EarnedAchievementBadge({ achievement, rarity }: EarnedAchievementBadgeProps) {
   const categoryInfo = CATEGORY_INFO[achievement.category];
   const bgClass = CATEGORY_BG[achievement.category];
 
@@ -56,15 +113,19 @@ function EarnedAchievementBadge({ achievement }: EarnedAchievementBadgeProps) {
       title={`${achievement.name}: ${achievement.description}`}
     >
       <div className={`flex-shrink-0 ${categoryInfo.color}`}>
-        <Icon className="w-6 h-6" />
+        <AchievementIcon achievement={achievement} />
       </div>
       <div className="flex-1 min-w-0">
-        <p className="text-sm font-medium text-white truncate">{achievement.name}</p>
+        <div className="flex items-center gap-2">
+          <p className="text-sm font-medium text-white truncate">{achievement.name}</p>
+          {achievement.tier && <TierBadge tier={achievement.tier} />}
+        </div>
         <p className="text-xs text-gray-400 truncate">{achievement.description}</p>
       </div>
       <div className="flex-shrink-0 text-right">
         <p className="text-xs font-medium text-discord-blurple">+{achievement.xp_awarded} XP</p>
         <p className="text-xs text-gray-500">{formatLocalDate(achievement.earned_at)}</p>
+        {rarity && <RarityBadge rarity={rarity} />}
       </div>
     </div>
   );
@@ -72,23 +133,37 @@ function EarnedAchievementBadge({ achievement }: EarnedAchievementBadgeProps) {
 
 interface LockedAchievementBadgeProps {
   achievement: AchievementDefinition;
+  progress?: AchievementProgress;
+  rarity?: AchievementRarity;
 }
 
-function LockedAchievementBadge({ achievement }: LockedAchievementBadgeProps) {
+function LockedAchievementBadge({ achievement, progress, rarity }: LockedAchievementBadgeProps) {
   return (
     <div
-      className="group relative flex items-center gap-3 p-3 rounded-lg border border-discord-lighter/20 bg-discord-darker/50 opacity-60"
+      className={`group relative flex items-center gap-3 p-3 rounded-lg border border-discord-lighter/20 bg-discord-darker/50 ${
+        progress && progress.current > 0 ? 'opacity-80' : 'opacity-60'
+      }`}
       title={`${achievement.name}: ${achievement.description}`}
     >
       <div className="flex-shrink-0 text-gray-600">
         <HelpCircle className="w-6 h-6" />
       </div>
       <div className="flex-1 min-w-0">
-        <p className="text-sm font-medium text-gray-500 truncate">???</p>
+        <div className="flex items-center gap-2">
+          <p className="text-sm font-medium text-gray-500 truncate">???</p>
+          {achievement.tier && <TierBadge tier={achievement.tier} />}
+        </div>
         <p className="text-xs text-gray-600 truncate">{achievement.description}</p>
+        {progress && (
+          <div className="mt-1.5">
+            <Progress value={progress.current} max={progress.target} className="h-1.5" />
+            <p className="text-xs text-gray-500 mt-1 tabular-nums">{formatAchievementProgress(progress)}</p>
+          </div>
+        )}
       </div>
       <div className="flex-shrink-0 text-right">
         <p className="text-xs font-medium text-gray-600">+{achievement.xp} XP</p>
+        {rarity && <RarityBadge rarity={rarity} />}
       </div>
     </div>
   );
@@ -99,41 +174,78 @@ type DisplayAchievement =
   | { type: 'earned'; data: EarnedAchievement }
   | { type: 'locked'; data: AchievementDefinition };
 
+type AchievementSort = 'recent' | 'almost';
+
 interface AchievementsSectionProps {
   achievements: EarnedAchievement[];
   totalXp: number;
+  progress?: AchievementProgress[]; // Locked achievements with a numeric goal
+  streakDays: StreakDay[]; // For streak goals, which are judged in the browser
+  rarities?: Record<string, AchievementRarity>;
+  definitions: AchievementDefinition[]; // Everything this server can award, secret ones already masked
 }
 
-export function AchievementsSection({ achievements, totalXp }: AchievementsSectionProps) {
+// Locked tiers only show once every lower tier of the same family is earned
+function isNextLockedTier(def: AchievementDefinition, locked: AchievementDefinition[]): boolean {
+  if (!def.family || !def.tier) return true;
+  const rank = TIER_ORDER.indexOf(def.tier);
+  return !locked.some(
+    (other) => other.family === def.family && other.tier && TIER_ORDER.indexOf(other.tier) < rank
+  );
+}
+
+export function AchievementsSection({
+  achievements,
+  totalXp,
+  progress = [],
+  streakDays,
+  rarities = {},
+  definitions,
+}: AchievementsSectionProps) {
   const [expanded, setExpanded] = useState(false);
+  const [streakProgress, setStreakProgress] = useState<AchievementProgress[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<AchievementCategory | 'all'>('all');
-
-  const categories: (AchievementCategory | 'all')[] = [
-    'all',
-    'milestone',
-    'streak',
-    'time',
-    'social',
-    'activity',
-    'fun',
-    'reaction',
-  ];
+  const [sort, setSort] = useState<AchievementSort>('recent');
 
   // Create a set of earned achievement IDs for quick lookup
   const earnedIds = new Set(achievements.map((a) => a.id));
 
-  // Build combined list: earned first (sorted by earned_at desc), then locked
-  const allDisplayAchievements: DisplayAchievement[] = [
-    // Earned achievements first, sorted by most recent
-    ...achievements
-      .slice()
-      .sort((a, b) => new Date(b.earned_at).getTime() - new Date(a.earned_at).getTime())
-      .map((a): DisplayAchievement => ({ type: 'earned', data: a })),
-    // Then locked achievements (ones not earned)
-    ...ACHIEVEMENT_DEFINITIONS
-      .filter((def) => !earnedIds.has(def.id))
-      .map((def): DisplayAchievement => ({ type: 'locked', data: def })),
-  ];
+  // Earned IDs without a definition still count towards the totals
+  const definedIds = new Set(definitions.map((d) => d.id));
+  const catalog = [...definitions, ...achievements.filter((a) => !definedIds.has(a.id))];
+  // Streaks depend on the viewer's today, so they're only worked out in the browser
+  useEffect(() => {
+    const streaks = computeMemberStreaks(streakDays);
+    setStreakProgress(
+      getAchievementProgress({
+        daily_streak: streaks.combined.daily.current,
+        weekly_streak: streaks.combined.weekly.current,
+      })
+    );
+  }, [streakDays]);
+
+  const progressById = new Map([...progress, ...streakProgress].map((p) => [p.achievement_id, p]));
+  const lockedRatio = (def: AchievementDefinition) => {
+    const p = progressById.get(def.id);
+    return p ? getProgressRatio(p) : -1;
+  };
+
+  // Earned achievements sorted by most recent
+  const earnedDisplay = achievements
+    .slice()
+    .sort((a, b) => new Date(b.earned_at).getTime() - new Date(a.earned_at).getTime())
+    .map((a): DisplayAchievement => ({ type: 'earned', data: a }));
+
+  // Locked achievements (ones not earned), closest to unlocking first when sorting by "almost there"
+  const locked = definitions.filter((def) => !earnedIds.has(def.id));
+  const lockedDefinitions = locked.filter((def) => isNextLockedTier(def, locked));
+  if (sort === 'almost') {
+    lockedDefinitions.sort((a, b) => lockedRatio(b) - lockedRatio(a));
+  }
+  const lockedDisplay = lockedDefinitions.map((def): DisplayAchievement => ({ type: 'locked', data: def }));
+
+  const allDisplayAchievements: DisplayAchievement[] =
+    sort === 'almost' ? [...lockedDisplay, ...earnedDisplay] : [...earnedDisplay, ...lockedDisplay];
 
   // Filter by selected category
   const filteredAchievements =
@@ -149,7 +261,12 @@ export function AchievementsSection({ achievements, totalXp }: AchievementsSecti
   const earnedByCategory = (cat: AchievementCategory) =>
     achievements.filter((a) => a.category === cat).length;
   const totalByCategory = (cat: AchievementCategory) =>
-    ACHIEVEMENT_DEFINITIONS.filter((a) => a.category === cat).length;
+    catalog.filter((a) => a.category === cat).length;
+
+  const categories: (AchievementCategory | 'all')[] = [
+    'all',
+    ...(Object.keys(CATEGORY_INFO) as AchievementCategory[]).filter((cat) => totalByCategory(cat) > 0),
+  ];
 
   return (
     <Card>
@@ -160,8 +277,25 @@ export function AchievementsSection({ achievements, totalXp }: AchievementsSecti
             Achievements
           </CardTitle>
           <div className="flex items-center gap-2 text-sm">
+            {progressById.size > 0 && (
+              <div className="flex items-center gap-1 mr-2">
+                {(['recent', 'almost'] as AchievementSort[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setSort(option)}
+                    className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                      sort === option
+                        ? 'bg-discord-blurple text-white'
+                        : 'bg-discord-darker text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {option === 'recent' ? 'Recent' : 'Almost there'}
+                  </button>
+                ))}
+              </div>
+            )}
             <span className="text-gray-400">
-              {achievements.length}/{TOTAL_ACHIEVEMENTS}
+              {achievements.length}/{catalog.length}
             </span>
             <span className="text-discord-blurple font-medium">+{totalXp.toLocaleString()} XP</span>
           </div>
@@ -171,7 +305,7 @@ export function AchievementsSection({ achievements, totalXp }: AchievementsSecti
           {categories.map((cat) => {
             const isSelected = selectedCategory === cat;
             const earnedCount = cat === 'all' ? achievements.length : earnedByCategory(cat);
-            const totalCount = cat === 'all' ? TOTAL_ACHIEVEMENTS : totalByCategory(cat);
+            const totalCount = cat === 'all' ? catalog.length : totalByCategory(cat);
 
             const Icon = cat === 'all' ? Award : CATEGORY_ICONS[cat];
             const colorClass =
@@ -203,9 +337,14 @@ export function AchievementsSection({ achievements, totalXp }: AchievementsSecti
         <div className="grid gap-2 sm:grid-cols-2">
           {displayedAchievements.map((item) =>
             item.type === 'earned' ? (
-              <EarnedAchievementBadge key={item.data.id} achievement={item.data} />
+              <EarnedAchievementBadge key={item.data.id} achievement={item.data} rarity={rarities[item.data.id]} />
             ) : (
-              <LockedAchievementBadge key={item.data.id} achievement={item.data} />
+              <LockedAchievementBadge
+                key={item.data.id}
+                achievement={item.data}
+                progress={progressById.get(item.data.id)}
+                rarity={rarities[item.data.id]}
+              />
             )
           )}
         </div>
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { computeMemberStreaks, STREAK_ACTIVITIES } from '@/lib/streaks';
+import { MemberStreaks, Streak, StreakActivity, StreakDay } from '@/types';
+import { AlertTriangle, Flame, MessageSquare, Mic, Zap } from 'lucide-react';
+
+interface StreakBadgesProps {
+  days: StreakDay[];
+  isSelf: boolean;
+}
+
+const ACTIVITY_INFO: Record<StreakActivity, { label: string; noun: string; icon: typeof Flame; color: string }> = {
+  combined: { label: 'Any Activity', noun: 'activity', icon: Zap, color: 'text-orange-400' },
+  voice: { label: 'Voice', noun: 'voice', icon: Mic, color: 'text-discord-green' },
+  text: { label: 'Text', noun: 'text', icon: MessageSquare, color: 'text-discord-blurple' },
+};
+
+function plural(count: number, unit: string): string {
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+function StreakBadge({ activity, daily, weekly }: { activity: StreakActivity; daily: Streak; weekly: Streak }) {
+  const { label, icon: Icon, color } = ACTIVITY_INFO[activity];
+  const isLit = daily.current > 0;
+
+  return (
+    <div className="p-4 rounded-lg bg-discord-darker">
+      <div className="flex items-center gap-2 text-gray-400 mb-2">
+        <Icon className={`w-4 h-4 ${color}`} />
+        <span className="text-xs uppercase">{label}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Flame className={`w-6 h-6 ${isLit ? 'text-orange-400' : 'text-gray-600'}`} />
+        <span className="text-2xl font-bold text-white tabular-nums">{daily.current}</span>
+        <span className="text-sm text-gray-400">{daily.current === 1 ? 'day' : 'days'}</span>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Best: {plural(daily.longest, 'day')}</p>
+      <div className="mt-3 pt-3 border-t border-discord-lighter/20 text-sm text-gray-300">
+        <span className="tabular-nums">{plural(weekly.current, 'week')}</span>
+        <span className="text-xs text-gray-500"> · best {plural(weekly.longest, 'week')}</span>
+      </div>
+    </div>
+  );
+}
+
+export function StreakBadges({ days, isSelf }: StreakBadgesProps) {
+  const [streaks, setStreaks] = useState<MemberStreaks | null>(null);
+
+  // Streaks depend on the viewer's today, so they're only worked out in the browser
+  useEffect(() => {
+    setStreaks(computeMemberStreaks(days));
+  }, [days]);
+
+  if (!streaks) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-32" />
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-32" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const atRisk = STREAK_ACTIVITIES.filter((activity) => streaks[activity].daily.atRisk);
+  const weeklyAtRisk = STREAK_ACTIVITIES.filter(
+    (activity) => streaks[activity].weekly.atRisk && streaks[activity].weekly.current > 1
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flame className="w-5 h-5 text-orange-400" />
+          Streaks
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+          {STREAK_ACTIVITIES.map((activity) => (
+            <StreakBadge
+              key={activity}
+              activity={activity}
+              daily={streaks[activity].daily}
+              weekly={streaks[activity].weekly}
+            />
+          ))}
+        </div>
+
+        {(atRisk.length > 0 || weeklyAtRisk.length > 0) && (
+          <div className="mt-4 space-y-1">
+            {atRisk.map((activity) => (
+              <p key={activity} className="flex items-center gap-2 text-sm text-discord-yellow">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                {isSelf ? 'Your' : 'This'} {streaks[activity].daily.current}-day {ACTIVITY_INFO[activity].noun} streak
+                ends at midnight without activity today.
+              </p>
+            ))}
+            {weeklyAtRisk.map((activity) => (
+              <p key={`${activity}-weekly`} className="flex items-center gap-2 text-sm text-gray-400">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                Nothing yet this week to extend the {streaks[activity].weekly.current}-week{' '}
+                {ACTIVITY_INFO[activity].noun} streak.
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,12 +4,14 @@ import { useEffect, useState, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatDuration, formatVoiceTime, getUTCDateString, formatNumber } from '@/lib/utils';
+import type { YearlyActivityDay } from '@/lib/queries/profile';
+import { fetchMemberVoiceActivity } from '@/lib/profile-client';
 import {
-  getMemberVoiceSessions,
-  getMemberVoiceStateChanges,
-  getMemberYearlyActivityStats,
-  YearlyActivityDay,
-} from '@/lib/queries/profile';
+  getVoiceStateColor,
+  getVoiceStateLabel,
+  getVoiceStateSegments,
+  VOICE_STATE_COLORS,
+} from '@/lib/voice-state';
 import { VoiceSession, VoiceStateChange, VoiceStateEventType } from '@/types';
 import {
   Mic,
@@ -37,15 +39,6 @@ interface SessionWithChanges extends VoiceSession {
 
 type ActivityType = 'voice' | 'text' | 'combined';
 
-// Colors for different states in live session bar
-const STATE_COLORS = {
-  normal: '#3ba55c',
-  muted: '#faa61a',
-  deafened: '#ed4245',
-  streaming: '#5865f2',
-  video: '#9b59b6',
-};
-
 // Green color scale for voice contribution graph (GitHub-style)
 const VOICE_GRAPH_COLORS = {
   empty: '#161b22',
@@ -154,92 +147,18 @@ function calculateTimelineSegments(
 
   if (duration <= 0) return [];
 
-  const segments: TimelineSegment[] = [];
-  let currentState = {
-    muted: false,
-    deafened: false,
-    streaming: false,
-    video: false,
-  };
-  let lastTime = sessionStart;
-
-  const getColor = () => {
-    if (currentState.deafened) return STATE_COLORS.deafened;
-    if (currentState.streaming) return STATE_COLORS.streaming;
-    if (currentState.video) return STATE_COLORS.video;
-    if (currentState.muted) return STATE_COLORS.muted;
-    return STATE_COLORS.normal;
-  };
-
-  const getLabel = () => {
-    const states: string[] = [];
-    if (currentState.deafened) states.push('Deafened');
-    else if (currentState.muted) states.push('Muted');
-    if (currentState.streaming) states.push('Streaming');
-    if (currentState.video) states.push('Video');
-    return states.length > 0 ? states.join(', ') : 'Voice';
-  };
-
-  for (const change of stateChanges) {
-    const changeTime = new Date(change.created_at).getTime();
-
-    if (changeTime > lastTime) {
-      const startPercent = ((lastTime - sessionStart) / duration) * 100;
-      const widthPercent = ((changeTime - lastTime) / duration) * 100;
-      segments.push({
-        startPercent,
-        widthPercent,
-        color: getColor(),
-        label: getLabel(),
-      });
-    }
-
-    switch (change.event_type) {
-      case 'mute':
-        currentState.muted = true;
-        break;
-      case 'unmute':
-        currentState.muted = false;
-        break;
-      case 'deafen':
-        currentState.deafened = true;
-        break;
-      case 'undeafen':
-        currentState.deafened = false;
-        break;
-      case 'stream_start':
-        currentState.streaming = true;
-        break;
-      case 'stream_end':
-        currentState.streaming = false;
-        break;
-      case 'video_start':
-        currentState.video = true;
-        break;
-      case 'video_end':
-        currentState.video = false;
-        break;
-    }
-
-    lastTime = changeTime;
-  }
-
-  if (lastTime < sessionEnd) {
-    const startPercent = ((lastTime - sessionStart) / duration) * 100;
-    const widthPercent = ((sessionEnd - lastTime) / duration) * 100;
-    segments.push({
-      startPercent,
-      widthPercent,
-      color: getColor(),
-      label: getLabel(),
-    });
-  }
+  const segments = getVoiceStateSegments(sessionStart, sessionEnd, stateChanges).map((segment) => ({
+    startPercent: ((segment.start - sessionStart) / duration) * 100,
+    widthPercent: ((segment.end - segment.start) / duration) * 100,
+    color: getVoiceStateColor(segment.state),
+    label: getVoiceStateLabel(segment.state),
+  }));
 
   if (segments.length === 0) {
     segments.push({
       startPercent: 0,
       widthPercent: 100,
-      color: STATE_COLORS.normal,
+      color: VOICE_STATE_COLORS.normal,
       label: 'Voice',
     });
   }
@@ -479,27 +398,9 @@ export function VoiceTimeline({ serverId, memberId }: VoiceTimelineProps) {
 
   const loadData = useCallback(async (isInitialLoad = false) => {
     try {
-      const [voiceSessions, yearly] = await Promise.all([
-        getMemberVoiceSessions(serverId, memberId, 1, true),
-        getMemberYearlyActivityStats(serverId, memberId),
-      ]);
-
-      // Check for active session
-      const active = voiceSessions.find((s) => !s.left_at);
-      if (active) {
-        const endTime = new Date().toISOString();
-        const stateChanges = await getMemberVoiceStateChanges(
-          serverId,
-          memberId,
-          active.joined_at,
-          endTime
-        );
-        setActiveSession({ ...active, stateChanges });
-      } else {
-        setActiveSession(null);
-      }
-
-      setYearlyStats(yearly);
+      const activity = await fetchMemberVoiceActivity(serverId, memberId);
+      setActiveSession(activity?.activeSession || null);
+      setYearlyStats(activity?.yearly || []);
     } catch (err) {
       console.error('Failed to load activity data:', err);
     } finally {
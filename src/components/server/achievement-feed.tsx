@@ -0,0 +1,212 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Avatar } from '@/components/ui/avatar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { fetchViewer } from '@/lib/auth/client';
+import { CATEGORY_INFO } from '@/lib/achievements';
+import { getRecentUnlock, getRecentUnlocks } from '@/lib/queries/achievements';
+import { ANONYMOUS_VIEWER } from '@/lib/queries/privacy';
+import { supabase } from '@/lib/supabase';
+import { MemberAchievement, RecentUnlock, Viewer } from '@/types';
+import { Award, ChevronRight, X } from 'lucide-react';
+
+interface AchievementFeedProps {
+  serverId: string;
+  limit?: number;
+}
+
+const TOAST_DURATION_MS = 6000;
+const MAX_TOASTS = 3;
+
+function formatTimeAgo(isoString: string): string {
+  const diffMinutes = Math.floor((Date.now() - new Date(isoString).getTime()) / (1000 * 60));
+  if (diffMinutes < 1) return 'just now';
+  if (diffMinutes < 60) return `${diffMinutes}m ago`;
+  const diffHours = Math.floor(diffMinutes / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  return `${Math.floor(diffHours / 24)}d ago`;
+}
+
+function memberName(unlock: RecentUnlock): string {
+  return unlock.display_name || unlock.username || 'Unknown';
+}
+
+function UnlockToast({ unlock, onDismiss }: { unlock: RecentUnlock; onDismiss: () => void }) {
+  return (
+    <div
+      role="status"
+      className="pointer-events-auto flex items-center gap-3 w-80 p-3 rounded-lg border border-discord-lighter/20 bg-discord-darker shadow-lg"
+    >
+      <Avatar src={unlock.avatar_url} alt={unlock.username || 'User'} size="sm" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-white truncate">
+          {memberName(unlock)} unlocked{' '}
+          <span className={`font-medium ${CATEGORY_INFO[unlock.category].color}`}>{unlock.name}</span>
+        </p>
+        <p className="text-xs text-discord-blurple">+{unlock.xp_awarded} XP</p>
+      </div>
+      <button
+        onClick={onDismiss}
+        className="text-gray-500 hover:text-white transition-colors"
+        aria-label="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+export function AchievementFeed({ serverId, limit = 8 }: AchievementFeedProps) {
+  const [unlocks, setUnlocks] = useState<RecentUnlock[]>([]);
+  const [toasts, setToasts] = useState<RecentUnlock[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Realtime handlers resolve new unlocks for whoever is watching
+  const viewerRef = useRef<Viewer>(ANONYMOUS_VIEWER);
+  const toastTimers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const dismissToast = useCallback((unlockId: number) => {
+    const timer = toastTimers.current.get(unlockId);
+    if (timer) clearTimeout(timer);
+    toastTimers.current.delete(unlockId);
+    setToasts((prev) => prev.filter((t) => t.unlock_id !== unlockId));
+  }, []);
+
+  const showToast = useCallback(
+    (unlock: RecentUnlock) => {
+      setToasts((prev) => {
+        const next = [unlock, ...prev];
+        // Toasts pushed out of the stack won't be dismissed, so stop their timers here
+        next.slice(MAX_TOASTS).forEach((dropped) => {
+          clearTimeout(toastTimers.current.get(dropped.unlock_id));
+          toastTimers.current.delete(dropped.unlock_id);
+        });
+        return next.slice(0, MAX_TOASTS);
+      });
+      toastTimers.current.set(
+        unlock.unlock_id,
+        setTimeout(() => dismissToast(unlock.unlock_id), TOAST_DURATION_MS)
+      );
+    },
+    [dismissToast]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadData() {
+      try {
+        viewerRef.current = await fetchViewer();
+        const data = await getRecentUnlocks(serverId, viewerRef.current, limit);
+        if (!cancelled) setUnlocks(data);
+      } catch (err) {
+        console.error('Failed to load recent unlocks:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadData();
+
+    const channel = supabase
+      .channel(`achievement-feed-${serverId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'member_achievements',
+          filter: `guild_id=eq.${serverId}`,
+        },
+        async (payload) => {
+          try {
+            const unlock = await getRecentUnlock(serverId, payload.new as MemberAchievement, viewerRef.current);
+            if (!unlock || cancelled) return;
+            setUnlocks((prev) =>
+              [unlock, ...prev.filter((u) => u.unlock_id !== unlock.unlock_id)].slice(0, limit)
+            );
+            showToast(unlock);
+          } catch (err) {
+            console.error('Failed to load new unlock:', err);
+          }
+        }
+      )
+      .subscribe();
+
+    const timers = toastTimers.current;
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, [serverId, limit, showToast]);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Award className="w-5 h-5 text-yellow-400" />
+              Recent Unlocks
+            </CardTitle>
+            <Link
+              href={`/${serverId}/achievements`}
+              className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              All achievements
+              <ChevronRight className="w-4 h-4" />
+            </Link>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-12" />
+              ))}
+            </div>
+          ) : unlocks.length === 0 ? (
+            <p className="text-gray-400 text-center py-8">No achievements unlocked yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {unlocks.map((unlock) => (
+                <Link
+                  key={unlock.unlock_id}
+                  href={`/${serverId}/${unlock.user_id}`}
+                  className="flex items-center gap-3 p-2 rounded-lg hover:bg-discord-lighter/20 transition-colors"
+                  title={`${unlock.name}: ${unlock.description}`}
+                >
+                  <Avatar src={unlock.avatar_url} alt={unlock.username || 'User'} size="sm" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{memberName(unlock)}</p>
+                    <p className={`text-xs font-medium truncate ${CATEGORY_INFO[unlock.category].color}`}>
+                      {unlock.name}
+                    </p>
+                  </div>
+                  <div className="flex-shrink-0 text-right">
+                    <p className="text-xs font-medium text-discord-blurple">+{unlock.xp_awarded} XP</p>
+                    <p className="text-xs text-gray-500">{formatTimeAgo(unlock.earned_at)}</p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New unlocks while the page is open */}
+      {toasts.length > 0 && (
+        <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 pointer-events-none">
+          {toasts.map((unlock) => (
+            <UnlockToast key={unlock.unlock_id} unlock={unlock} onDismiss={() => dismissToast(unlock.unlock_id)} />
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import Link from 'next/link';
+import { AreaChart, Area, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import { Avatar } from '@/components/ui/avatar';
+import { Card } from '@/components/ui/card';
+import { LocalDateTime } from '@/components/ui/local-time';
+import { Progress } from '@/components/ui/progress';
+import { AchievementIcon, RarityBadge, TierBadge } from '@/components/profile/achievements';
+import { CATEGORY_INFO } from '@/lib/achievements';
+import { formatNumber } from '@/lib/utils';
+import { AchievementStat, AchievementUnlockPoint } from '@/types';
+import { Crown } from 'lucide-react';
+
+interface AchievementRarityListProps {
+  serverId: string;
+  achievements: AchievementStat[];
+  memberCount: number;
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function formatPercent(percent: number): string {
+  if (percent === 0) return '0%';
+  return percent < 1 ? '<1%' : `${Math.round(percent)}%`;
+}
+
+function UnlockSparkline({ points }: { points: AchievementUnlockPoint[] }) {
+  const peak = Math.max(1, ...points.map((p) => p.total));
+
+  return (
+    <div className="h-10 w-32 shrink-0" title="Members who had earned it, month by month">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={points} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+          <YAxis hide domain={[0, peak]} />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#2b2d31',
+              border: '1px solid #3b3d44',
+              borderRadius: '8px',
+              fontSize: '12px',
+            }}
+            labelStyle={{ color: '#fff' }}
+            labelFormatter={(_, payload) =>
+              payload?.[0] ? formatMonth((payload[0].payload as AchievementUnlockPoint).month) : ''
+            }
+            formatter={(value: number) => [formatNumber(value), 'Earned']}
+          />
+          <Area
+            type="stepAfter"
+            dataKey="total"
+            stroke="#5865f2"
+            fill="#5865f2"
+            fillOpacity={0.2}
+            strokeWidth={1.5}
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function AchievementStatRow({ serverId, achievement, memberCount }: {
+  serverId: string;
+  achievement: AchievementStat;
+  memberCount: number;
+}) {
+  const { first_earner: firstEarner } = achievement;
+
+  return (
+    <Card>
+      <div className="flex items-start gap-3">
+        <div className={`flex-shrink-0 mt-0.5 ${CATEGORY_INFO[achievement.category].color}`}>
+          <AchievementIcon achievement={achievement} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="font-medium text-white truncate">{achievement.name}</p>
+            {achievement.tier && <TierBadge tier={achievement.tier} />}
+            <RarityBadge rarity={achievement.rarity} />
+          </div>
+          <p className="text-xs text-gray-400">{achievement.description}</p>
+        </div>
+        <div className="flex-shrink-0 text-right">
+          <p className="text-lg font-bold text-white tabular-nums">{formatPercent(achievement.percent)}</p>
+          <p className="text-xs text-gray-500 tabular-nums">
+            {formatNumber(achievement.earned_count)} / {formatNumber(memberCount)}
+          </p>
+        </div>
+      </div>
+
+      <Progress value={achievement.percent} className="h-1.5 mt-3" />
+
+      {achievement.earned_count === 0 ? (
+        <p className="text-xs text-gray-500 mt-3">Nobody has earned this yet.</p>
+      ) : (
+        <div className="flex items-end gap-4 mt-3">
+          <div className="flex-1 min-w-0 space-y-2">
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <Crown className="w-3.5 h-3.5 text-yellow-400 shrink-0" />
+              {firstEarner ? (
+                <Link
+                  href={`/${serverId}/${firstEarner.user_id}`}
+                  className="flex items-center gap-1.5 min-w-0 hover:text-white transition-colors"
+                >
+                  <Avatar src={firstEarner.avatar_url} alt={firstEarner.username || 'User'} size="xs" />
+                  <span className="truncate">
+                    {firstEarner.display_name || firstEarner.username || 'Unknown'}
+                  </span>
+                  <span className="text-gray-500 shrink-0">
+                    <LocalDateTime isoString={firstEarner.earned_at} format="date" />
+                  </span>
+                </Link>
+              ) : (
+                <span className="text-gray-500">First earned by a private member</span>
+              )}
+            </div>
+            {achievement.recent_earners.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500">Recently</span>
+                <div className="flex items-center -space-x-2">
+                  {achievement.recent_earners.map((earner) => (
+                    <Link
+                      key={earner.user_id}
+                      href={`/${serverId}/${earner.user_id}`}
+                      title={earner.display_name || earner.username || 'Unknown'}
+                      className="rounded-full ring-2 ring-discord-light hover:z-10"
+                    >
+                      <Avatar src={earner.avatar_url} alt={earner.username || 'User'} size="xs" />
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          {achievement.timeline.length > 1 && <UnlockSparkline points={achievement.timeline} />}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export function AchievementRarityList({ serverId, achievements, memberCount }: AchievementRarityListProps) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {achievements.map((achievement) => (
+        <AchievementStatRow
+          key={achievement.id}
+          serverId={serverId}
+          achievement={achievement}
+          memberCount={memberCount}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import Link from 'next/link';
+import { Avatar } from '@/components/ui/avatar';
+import { Progress } from '@/components/ui/progress';
+import { formatNumber, formatVoiceTime, getXpProgress } from '@/lib/utils';
+import { MemberWithLevel, LevelRole } from '@/types';
+import { MessageSquare, Mic } from 'lucide-react';
+
+interface LeaderboardRowProps {
+  serverId: string;
+  member: MemberWithLevel;
+  rank: number;
+  levelRoles: LevelRole[];
+  leveledUp?: boolean; // Briefly highlight a member who just leveled up
+}
+
+// Find the highest level role the member has achieved
+export function getCurrentLevelRole(levelRoles: LevelRole[], level: number): LevelRole | undefined {
+  return levelRoles
+    .filter((lr) => lr.level <= level)
+    .sort((a, b) => b.level - a.level)[0];
+}
+
+export function LeaderboardRow({ serverId, member, rank, levelRoles, leveledUp = false }: LeaderboardRowProps) {
+  const progress = getXpProgress(member.xp);
+  const currentRole = getCurrentLevelRole(levelRoles, member.level);
+  const roleColor = currentRole?.role_color || null;
+
+  return (
+    <Link href={`/${serverId}/${member.user_id}`} className="block">
+      <div
+        className={`flex items-center gap-4 p-3 rounded-lg transition-all group ${
+          leveledUp ? 'ring-2 ring-discord-yellow' : ''
+        }`}
+        style={{
+          backgroundColor: roleColor ? `${roleColor}15` : 'rgba(255,255,255,0.03)',
+        }}
+      >
+        {/* Rank */}
+        <div className="w-8 text-center">
+          <span
+            className={`font-bold ${
+              rank === 1
+                ? 'text-yellow-400'
+                : rank === 2
+                ? 'text-gray-300'
+                : rank === 3
+                ? 'text-amber-600'
+                : 'text-gray-500'
+            }`}
+          >
+            #{rank}
+          </span>
+        </div>
+
+        {/* Avatar */}
+        <Avatar
+          src={member.avatar_url}
+          alt={member.username || 'User'}
+          size="md"
+          className="group-hover:ring-2 ring-discord-blurple transition-all"
+        />
+
+        {/* User Info */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="font-medium text-white truncate group-hover:text-discord-blurple transition-colors">
+              {member.display_name || member.username || 'Unknown User'}
+            </p>
+            {leveledUp && (
+              <span className="text-xs px-2 py-0.5 rounded-full font-bold shrink-0 bg-discord-yellow/20 text-discord-yellow animate-pulse">
+                Level up!
+              </span>
+            )}
+            {currentRole && (
+              <span
+                className="hidden sm:inline-flex text-xs px-2 py-0.5 rounded-full font-medium shrink-0"
+                style={{
+                  backgroundColor: `${roleColor}20`,
+                  color: roleColor || undefined,
+                }}
+              >
+                {currentRole.role_name}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-4 text-sm text-gray-400">
+            <span className="w-16">Level <span className="tabular-nums">{member.level}</span></span>
+            <span className="tabular-nums">{formatNumber(member.xp)} XP</span>
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="hidden sm:flex items-center text-sm text-gray-400">
+          <div className="flex items-center gap-1 w-24 justify-end">
+            <MessageSquare className="w-4 h-4 flex-shrink-0" />
+            <span className="tabular-nums">{formatNumber(member.message_count)}</span>
+          </div>
+          <div className="flex items-center gap-1 w-20 justify-end">
+            <Mic className="w-4 h-4 flex-shrink-0" />
+            <span className="tabular-nums">{formatVoiceTime(member.voice_minutes)}</span>
+          </div>
+        </div>
+
+        {/* Progress Bar */}
+        <div className="hidden md:block w-32">
+          <Progress value={progress.progressPercent} />
+        </div>
+      </div>
+    </Link>
+  );
+}
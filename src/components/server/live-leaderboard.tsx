@@ -0,0 +1,178 @@
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { LeaderboardRow } from './leaderboard-row';
+import { getMembers } from '@/lib/queries/members';
+import { supabase } from '@/lib/supabase';
+import { LevelRole, MemberLevel, MemberWithLevel } from '@/types';
+
+interface LiveLeaderboardProps {
+  serverId: string;
+  initialMembers: MemberWithLevel[];
+  levelRoles: LevelRole[];
+}
+
+const LEVEL_UP_FLASH_MS = 4000;
+const RELOAD_THROTTLE_MS = 5000;
+const REORDER_DURATION_MS = 400;
+
+function sortByXp(members: MemberWithLevel[]): MemberWithLevel[] {
+  return [...members].sort((a, b) => b.xp - a.xp);
+}
+
+export function LiveLeaderboard({ serverId, initialMembers, levelRoles }: LiveLeaderboardProps) {
+  const [members, setMembers] = useState<MemberWithLevel[]>(initialMembers);
+  const [leveledUp, setLeveledUp] = useState<Set<string>>(new Set());
+  const limit = initialMembers.length;
+
+  // Pick up fresh server-rendered rows when the page revalidates
+  useEffect(() => {
+    setMembers(initialMembers);
+  }, [initialMembers]);
+
+  // Realtime handlers read the latest rows without resubscribing on every change
+  const membersRef = useRef(members);
+  useEffect(() => {
+    membersRef.current = members;
+  }, [members]);
+
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+  const rowOffsets = useRef(new Map<string, number>());
+  const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const flashTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const flashLevelUp = useCallback((userId: string) => {
+    setLeveledUp((prev) => new Set(prev).add(userId));
+
+    const existing = flashTimers.current.get(userId);
+    if (existing) clearTimeout(existing);
+    flashTimers.current.set(
+      userId,
+      setTimeout(() => {
+        flashTimers.current.delete(userId);
+        setLeveledUp((prev) => {
+          const next = new Set(prev);
+          next.delete(userId);
+          return next;
+        });
+      }, LEVEL_UP_FLASH_MS)
+    );
+  }, []);
+
+  // Someone new climbed into view; their name and avatar need a full reload
+  const scheduleReload = useCallback(() => {
+    if (reloadTimer.current) return;
+    reloadTimer.current = setTimeout(async () => {
+      reloadTimer.current = null;
+      try {
+        const result = await getMembers({ guildId: serverId, limit });
+        setMembers(result.members);
+      } catch (err) {
+        console.error('Failed to reload leaderboard:', err);
+      }
+    }, RELOAD_THROTTLE_MS);
+  }, [serverId, limit]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`live-leaderboard-${serverId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'member_levels',
+          filter: `guild_id=eq.${serverId}`,
+        },
+        (payload) => {
+          const row = payload.new as Partial<MemberLevel>;
+          const { user_id: userId, xp } = row;
+          if (!userId || xp === undefined) return;
+
+          const current = membersRef.current.find((m) => m.user_id === userId);
+          if (!current) {
+            const lowest = membersRef.current[membersRef.current.length - 1];
+            if (membersRef.current.length < limit || !lowest || xp > lowest.xp) {
+              scheduleReload();
+            }
+            return;
+          }
+
+          if (row.level !== undefined && row.level > current.level) {
+            flashLevelUp(userId);
+          }
+
+          setMembers((prev) =>
+            sortByXp(prev.map((m) => (m.user_id === userId ? { ...m, ...row } : m)))
+          );
+        }
+      )
+      .subscribe();
+
+    const timers = flashTimers.current;
+    return () => {
+      supabase.removeChannel(channel);
+      if (reloadTimer.current) {
+        clearTimeout(reloadTimer.current);
+        reloadTimer.current = null;
+      }
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, [serverId, limit, scheduleReload, flashLevelUp]);
+
+  // Slide rows from their old position to the new one (FLIP)
+  useLayoutEffect(() => {
+    const reduceMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+    rowRefs.current.forEach((el, userId) => {
+      const offset = el.offsetTop;
+      const previous = rowOffsets.current.get(userId);
+      if (!reduceMotion && previous !== undefined && previous !== offset) {
+        el.animate(
+          [{ transform: `translateY(${previous - offset}px)` }, { transform: 'translateY(0)' }],
+          { duration: REORDER_DURATION_MS, easing: 'ease-out' }
+        );
+      }
+      rowOffsets.current.set(userId, offset);
+    });
+
+    // Forget rows that dropped off the board so they don't slide in from stale spots later
+    rowOffsets.current.forEach((_, userId) => {
+      if (!rowRefs.current.has(userId)) rowOffsets.current.delete(userId);
+    });
+  }, [members]);
+
+  if (members.length === 0) {
+    return (
+      <p className="text-gray-400 text-center py-8">
+        No members with XP yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 relative">
+      {members.map((member, index) => (
+        <div
+          key={member.user_id}
+          ref={(el) => {
+            if (el) {
+              rowRefs.current.set(member.user_id, el);
+            } else {
+              rowRefs.current.delete(member.user_id);
+            }
+          }}
+        >
+          <LeaderboardRow
+            serverId={serverId}
+            member={member}
+            rank={index + 1}
+            levelRoles={levelRoles}
+            leveledUp={leveledUp.has(member.user_id)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
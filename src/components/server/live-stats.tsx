@@ -0,0 +1,171 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { LocalHour } from '@/components/ui/local-time';
+import { getServerMemberCount, getServerTotalXp, getServerVoiceHours } from '@/lib/queries/server';
+import { supabase } from '@/lib/supabase';
+import { formatNumber } from '@/lib/utils';
+import { ServerStats } from '@/types';
+import { MessageSquare, Mic, Trophy, Users, Calendar, Clock } from 'lucide-react';
+
+interface LiveStatsProps {
+  serverId: string;
+  initialStats: ServerStats;
+}
+
+type LiveStat = 'voice' | 'levels';
+
+// Each viewer refreshes a stat at most this often, however busy the server is
+const RELOAD_THROTTLE_MS = 10000;
+
+// Only the stats touched by an event are re-queried. Busiest day and peak hour
+// move slowly, so they stay as rendered until the page revalidates.
+async function loadLiveStat(serverId: string, stat: LiveStat): Promise<Partial<ServerStats>> {
+  if (stat === 'voice') {
+    return { totalVoiceHours: await getServerVoiceHours(serverId) };
+  }
+  const [totalXp, totalMembers] = await Promise.all([
+    getServerTotalXp(serverId),
+    getServerMemberCount(serverId),
+  ]);
+  return { totalXp, totalMembers };
+}
+
+export function LiveStats({ serverId, initialStats }: LiveStatsProps) {
+  const [stats, setStats] = useState<ServerStats>(initialStats);
+  const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingStats = useRef(new Set<LiveStat>());
+
+  // Pick up fresh server-rendered stats when the page revalidates
+  useEffect(() => {
+    setStats(initialStats);
+  }, [initialStats]);
+
+  const scheduleReload = useCallback((stat: LiveStat) => {
+    pendingStats.current.add(stat);
+    if (reloadTimer.current) return;
+    reloadTimer.current = setTimeout(async () => {
+      reloadTimer.current = null;
+      const due = Array.from(pendingStats.current);
+      pendingStats.current.clear();
+      try {
+        const updates = await Promise.all(due.map((s) => loadLiveStat(serverId, s)));
+        setStats((prev) => Object.assign({ ...prev }, ...updates));
+      } catch (err) {
+        console.error('Failed to reload server stats:', err);
+      }
+    }, RELOAD_THROTTLE_MS);
+  }, [serverId]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`live-stats-${serverId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `guild_id=eq.${serverId}`,
+        },
+        // Every insert is one more message, so no query is needed
+        () => setStats((prev) => ({ ...prev, totalMessages: prev.totalMessages + 1 }))
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'member_levels',
+          filter: `guild_id=eq.${serverId}`,
+        },
+        () => scheduleReload('levels')
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'voice_sessions',
+          filter: `guild_id=eq.${serverId}`,
+        },
+        () => scheduleReload('voice')
+      )
+      .subscribe();
+
+    const pending = pendingStats.current;
+    return () => {
+      supabase.removeChannel(channel);
+      pending.clear();
+      if (reloadTimer.current) {
+        clearTimeout(reloadTimer.current);
+        reloadTimer.current = null;
+      }
+    };
+  }, [serverId, scheduleReload]);
+
+  return (
+    <div className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-6 mb-8">
+      <Card>
+        <div className="flex items-center gap-2 text-gray-400 mb-1">
+          <MessageSquare className="w-4 h-4" />
+          <span className="text-xs uppercase">Messages</span>
+        </div>
+        <p className="text-2xl font-bold text-white tabular-nums">
+          {formatNumber(stats.totalMessages)}
+        </p>
+      </Card>
+
+      <Card>
+        <div className="flex items-center gap-2 text-gray-400 mb-1">
+          <Mic className="w-4 h-4" />
+          <span className="text-xs uppercase">Voice Hours</span>
+        </div>
+        <p className="text-2xl font-bold text-white tabular-nums">
+          {formatNumber(stats.totalVoiceHours)}
+        </p>
+      </Card>
+
+      <Card>
+        <div className="flex items-center gap-2 text-gray-400 mb-1">
+          <Trophy className="w-4 h-4" />
+          <span className="text-xs uppercase">Total XP</span>
+        </div>
+        <p className="text-2xl font-bold text-white tabular-nums">
+          {formatNumber(stats.totalXp)}
+        </p>
+      </Card>
+
+      <Card>
+        <div className="flex items-center gap-2 text-gray-400 mb-1">
+          <Users className="w-4 h-4" />
+          <span className="text-xs uppercase">Members</span>
+        </div>
+        <p className="text-2xl font-bold text-white tabular-nums">
+          {formatNumber(stats.totalMembers)}
+        </p>
+      </Card>
+
+      <Card>
+        <div className="flex items-center gap-2 text-gray-400 mb-1">
+          <Calendar className="w-4 h-4" />
+          <span className="text-xs uppercase">Most Active (UTC)</span>
+        </div>
+        <p className="text-2xl font-bold text-white">
+          {stats.mostActiveDay || 'N/A'}
+        </p>
+      </Card>
+
+      <Card>
+        <div className="flex items-center gap-2 text-gray-400 mb-1">
+          <Clock className="w-4 h-4" />
+          <span className="text-xs uppercase">Peak Hour</span>
+        </div>
+        <p className="text-2xl font-bold text-white">
+          <LocalHour utcHour={stats.peakHour} />
+        </p>
+      </Card>
+    </div>
+  );
+}
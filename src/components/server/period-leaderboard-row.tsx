@@ -0,0 +1,107 @@
+import Link from 'next/link';
+import { Avatar } from '@/components/ui/avatar';
+import { formatNumber, formatVoiceTime } from '@/lib/utils';
+import { PeriodMemberStats } from '@/types';
+import { MessageSquare, Mic, Heart, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+
+interface PeriodLeaderboardRowProps {
+  serverId: string;
+  member: PeriodMemberStats;
+}
+
+function RankChange({ member }: { member: PeriodMemberStats }) {
+  if (member.rank_change === null) {
+    return (
+      <span className="text-[10px] font-bold uppercase text-discord-blurple" title="Not ranked last period">
+        New
+      </span>
+    );
+  }
+  if (member.rank_change > 0) {
+    return (
+      <span
+        className="flex items-center text-xs text-green-400 tabular-nums"
+        title={`Up from #${member.previous_rank}`}
+      >
+        <ArrowUp className="w-3 h-3" />
+        {member.rank_change}
+      </span>
+    );
+  }
+  if (member.rank_change < 0) {
+    return (
+      <span
+        className="flex items-center text-xs text-red-400 tabular-nums"
+        title={`Down from #${member.previous_rank}`}
+      >
+        <ArrowDown className="w-3 h-3" />
+        {Math.abs(member.rank_change)}
+      </span>
+    );
+  }
+  return (
+    <span className="text-gray-500" title="No change">
+      <Minus className="w-3 h-3" />
+    </span>
+  );
+}
+
+export function PeriodLeaderboardRow({ serverId, member }: PeriodLeaderboardRowProps) {
+  return (
+    <Link href={`/${serverId}/${member.user_id}`} className="block">
+      <div className="flex items-center gap-4 p-3 rounded-lg transition-colors group bg-white/[0.03]">
+        {/* Rank and Movement */}
+        <div className="w-10 flex flex-col items-center">
+          <span
+            className={`font-bold ${
+              member.rank === 1
+                ? 'text-yellow-400'
+                : member.rank === 2
+                ? 'text-gray-300'
+                : member.rank === 3
+                ? 'text-amber-600'
+                : 'text-gray-500'
+            }`}
+          >
+            #{member.rank}
+          </span>
+          <RankChange member={member} />
+        </div>
+
+        {/* Avatar */}
+        <Avatar
+          src={member.avatar_url}
+          alt={member.username || 'User'}
+          size="md"
+          className="group-hover:ring-2 ring-discord-blurple transition-all"
+        />
+
+        {/* User Info */}
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-white truncate group-hover:text-discord-blurple transition-colors">
+            {member.display_name || member.username || 'Unknown User'}
+          </p>
+          <p className="text-sm text-gray-400 tabular-nums">
+            +{formatNumber(member.xp_earned)} XP
+          </p>
+        </div>
+
+        {/* Stats */}
+        <div className="hidden sm:flex items-center text-sm text-gray-400">
+          <div className="flex items-center gap-1 w-24 justify-end">
+            <MessageSquare className="w-4 h-4 flex-shrink-0" />
+            <span className="tabular-nums">{formatNumber(member.message_count)}</span>
+          </div>
+          <div className="flex items-center gap-1 w-20 justify-end">
+            <Heart className="w-4 h-4 flex-shrink-0" />
+            <span className="tabular-nums">{formatNumber(member.reaction_count)}</span>
+          </div>
+          <div className="flex items-center gap-1 w-20 justify-end">
+            <Mic className="w-4 h-4 flex-shrink-0" />
+            <span className="tabular-nums">{formatVoiceTime(member.voice_minutes)}</span>
+          </div>
+        </div>
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,372 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { getLocalDateString } from '@/lib/utils';
+import { fetchServerVoiceTimeline } from '@/lib/voice-client';
+import {
+  getVoiceStateColor,
+  getVoiceStateLabel,
+  getVoiceStateSegments,
+  VOICE_STATE_COLORS,
+} from '@/lib/voice-state';
+import { ServerVoiceTimelineChannel, ServerVoiceTimelineSession } from '@/types';
+import { CalendarClock, ChevronLeft, ChevronRight, Radio } from 'lucide-react';
+
+type TimelineZoom = '1h' | '6h' | '1d' | '7d';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+interface ZoomOption {
+  value: TimelineZoom;
+  label: string;
+  span: number;
+  tickStep: number;
+}
+
+const ZOOM_OPTIONS: ZoomOption[] = [
+  { value: '1h', label: '1 Hour', span: HOUR_MS, tickStep: 10 * 60 * 1000 },
+  { value: '6h', label: '6 Hours', span: 6 * HOUR_MS, tickStep: HOUR_MS },
+  { value: '1d', label: '1 Day', span: DAY_MS, tickStep: 3 * HOUR_MS },
+  { value: '7d', label: '7 Days', span: 7 * DAY_MS, tickStep: DAY_MS },
+];
+
+const LEGEND: { label: string; color: string }[] = [
+  { label: 'Voice', color: VOICE_STATE_COLORS.normal },
+  { label: 'Muted', color: VOICE_STATE_COLORS.muted },
+  { label: 'Deafened', color: VOICE_STATE_COLORS.deafened },
+  { label: 'Streaming', color: VOICE_STATE_COLORS.streaming },
+  { label: 'Video', color: VOICE_STATE_COLORS.video },
+];
+
+interface ServerVoiceTimelineProps {
+  serverId: string;
+}
+
+interface MemberRow {
+  user_id: string;
+  name: string;
+  sessions: ServerVoiceTimelineSession[];
+}
+
+function getZoom(zoom: TimelineZoom): ZoomOption {
+  return ZOOM_OPTIONS.find((z) => z.value === zoom) || ZOOM_OPTIONS[2];
+}
+
+function startOfLocalDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// Line the window up with local midnight (day views) or the top of the hour
+function snapWindowStart(time: number, zoom: TimelineZoom): number {
+  if (zoom === '1d' || zoom === '7d') return startOfLocalDay(time);
+  const date = new Date(time);
+  date.setMinutes(0, 0, 0);
+  return date.getTime();
+}
+
+function formatTick(time: number, zoom: TimelineZoom): string {
+  const date = new Date(time);
+  if (zoom === '7d') {
+    return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  }
+  return date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+function formatClock(time: number): string {
+  return new Date(time).toLocaleString(undefined, {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// Most members in the channel at once within the window, and when it first happened
+function getPeakOccupancy(
+  sessions: ServerVoiceTimelineSession[],
+  windowStart: number,
+  windowEnd: number,
+  now: number
+): { count: number; time: number } | null {
+  const events: [number, number][] = [];
+  sessions.forEach((session) => {
+    const start = Math.max(new Date(session.joined_at).getTime(), windowStart);
+    const end = Math.min(session.left_at ? new Date(session.left_at).getTime() : now, windowEnd);
+    if (end > start) {
+      events.push([start, 1], [end, -1]);
+    }
+  });
+
+  // Leaves sort before joins at the same instant so hand-offs don't count as overlap
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let current = 0;
+  let peak: { count: number; time: number } | null = null;
+  for (const [time, delta] of events) {
+    current += delta;
+    if (!peak || current > peak.count) peak = { count: current, time };
+  }
+  return peak;
+}
+
+export function ServerVoiceTimeline({ serverId }: ServerVoiceTimelineProps) {
+  const [zoom, setZoom] = useState<TimelineZoom>('1d');
+  const [windowStart, setWindowStart] = useState(() => startOfLocalDay(Date.now()));
+  const [channels, setChannels] = useState<ServerVoiceTimelineChannel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+
+  const { span, tickStep } = getZoom(zoom);
+  const windowEnd = windowStart + span;
+
+  const loadTimeline = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchServerVoiceTimeline(
+        serverId,
+        new Date(windowStart).toISOString(),
+        new Date(windowEnd).toISOString()
+      );
+      setChannels(data);
+      setNow(Date.now());
+    } catch (err) {
+      console.error('Failed to load voice timeline:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [serverId, windowStart, windowEnd]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  const changeZoom = (next: TimelineZoom) => {
+    // Keep the middle of the current window in view
+    const center = windowStart + span / 2;
+    setWindowStart(snapWindowStart(center - getZoom(next).span / 2, next));
+    setZoom(next);
+  };
+
+  const changeDate = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    if (!year || !month || !day) return;
+    setWindowStart(snapWindowStart(new Date(year, month - 1, day).getTime(), zoom));
+  };
+
+  const ticks = useMemo(() => {
+    const result: number[] = [];
+    const tick = new Date(windowStart);
+    while (tick.getTime() < windowEnd) {
+      result.push(tick.getTime());
+      // Step by calendar day so daylight saving shifts don't drift ticks off midnight
+      if (tickStep >= DAY_MS) {
+        tick.setDate(tick.getDate() + 1);
+      } else {
+        tick.setTime(tick.getTime() + tickStep);
+      }
+    }
+    return result;
+  }, [windowStart, windowEnd, tickStep]);
+
+  const toPercent = (time: number) => ((time - windowStart) / span) * 100;
+
+  const rowsByChannel = useMemo(
+    () =>
+      channels.map((channel) => {
+        const rows = new Map<string, MemberRow>();
+        channel.sessions.forEach((session) => {
+          const row = rows.get(session.user_id) || {
+            user_id: session.user_id,
+            name: session.display_name || session.username || 'Unknown',
+            sessions: [],
+          };
+          row.sessions.push(session);
+          rows.set(session.user_id, row);
+        });
+        return {
+          channel,
+          rows: Array.from(rows.values()),
+          peak: getPeakOccupancy(channel.sessions, windowStart, windowEnd, now),
+        };
+      }),
+    [channels, windowStart, windowEnd, now]
+  );
+
+  const nowPercent = now >= windowStart && now < windowEnd ? toPercent(now) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-discord-blurple" />
+            Voice Timeline
+          </CardTitle>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex items-center gap-1">
+              {ZOOM_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => changeZoom(option.value)}
+                  className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                    zoom === option.value
+                      ? 'bg-discord-blurple text-white'
+                      : 'bg-discord-darker text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setWindowStart(windowStart - span)}
+                className="px-2 py-1 rounded-md bg-discord-darker text-gray-400 hover:text-white transition-colors"
+                aria-label="Earlier"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <input
+                type="date"
+                value={getLocalDateString(new Date(windowStart))}
+                onChange={(e) => changeDate(e.target.value)}
+                className="bg-discord-darker border border-discord-lighter/20 rounded-md px-2 py-1 text-sm text-white"
+              />
+              <button
+                onClick={() => setWindowStart(windowStart + span)}
+                className="px-2 py-1 rounded-md bg-discord-darker text-gray-400 hover:text-white transition-colors"
+                aria-label="Later"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setWindowStart(snapWindowStart(Date.now() - (zoom === '7d' ? 6 * DAY_MS : 0), zoom))}
+                className="px-3 py-1 text-sm rounded-md bg-discord-darker text-gray-400 hover:text-white transition-colors"
+              >
+                Today
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+            {LEGEND.map((item) => (
+              <span key={item.label} className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: item.color }} />
+                {item.label}
+              </span>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-6 w-full" />
+            ))}
+          </div>
+        ) : channels.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">No voice activity in this window.</p>
+        ) : (
+          <div className="space-y-6">
+            {/* Time axis */}
+            <div className="flex">
+              <div className="w-32 shrink-0" />
+              <div className="relative flex-1 h-4">
+                {ticks.map((tick) => (
+                  <span
+                    key={tick}
+                    className="absolute text-[10px] text-gray-500 whitespace-nowrap"
+                    style={{ left: `${toPercent(tick)}%` }}
+                  >
+                    {formatTick(tick, zoom)}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {rowsByChannel.map(({ channel, rows, peak }) => (
+              <div key={channel.channel_id}>
+                <div className="flex items-center justify-between gap-2 mb-2 text-sm">
+                  <span className="flex items-center gap-1.5 text-white font-medium min-w-0">
+                    <Radio className="w-4 h-4 text-green-400 shrink-0" />
+                    <span className="truncate">{channel.channel_name || 'Voice'}</span>
+                    <span className="text-gray-500 font-normal shrink-0">
+                      ({rows.length} {rows.length === 1 ? 'member' : 'members'})
+                    </span>
+                  </span>
+                  {peak && peak.count > 1 && (
+                    <span className="text-xs text-gray-400 shrink-0">
+                      Peak {peak.count} at {formatClock(peak.time)}
+                    </span>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  {rows.map((row) => (
+                    <div key={row.user_id} className="flex items-center">
+                      <Link
+                        href={`/${serverId}/${row.user_id}`}
+                        className="w-32 shrink-0 pr-2 text-xs text-gray-400 hover:text-white truncate transition-colors"
+                      >
+                        {row.name}
+                      </Link>
+                      <div className="relative flex-1 h-5 rounded bg-discord-darker overflow-hidden">
+                        {ticks.map((tick) => (
+                          <div
+                            key={tick}
+                            className="absolute inset-y-0 w-px bg-discord-lighter/20"
+                            style={{ left: `${toPercent(tick)}%` }}
+                          />
+                        ))}
+                        {row.sessions.flatMap((session) => {
+                          const sessionEnd = session.left_at ? new Date(session.left_at).getTime() : now;
+                          return getVoiceStateSegments(
+                            new Date(session.joined_at).getTime(),
+                            sessionEnd,
+                            session.stateChanges
+                          )
+                            .filter((segment) => segment.end > windowStart && segment.start < windowEnd)
+                            .map((segment) => {
+                              const start = Math.max(segment.start, windowStart);
+                              const end = Math.min(segment.end, windowEnd);
+                              return (
+                                <div
+                                  key={`${session.id}-${segment.start}`}
+                                  className="absolute inset-y-0.5 rounded-sm"
+                                  style={{
+                                    left: `${toPercent(start)}%`,
+                                    width: `${Math.max(toPercent(end) - toPercent(start), 0.2)}%`,
+                                    backgroundColor: getVoiceStateColor(segment.state),
+                                  }}
+                                  title={`${row.name}: ${getVoiceStateLabel(segment.state)}, ${formatClock(segment.start)} – ${
+                                    segment.end === sessionEnd && !session.left_at ? 'now' : formatClock(segment.end)
+                                  }`}
+                                />
+                              );
+                            });
+                        })}
+                        {nowPercent !== null && (
+                          <div
+                            className="absolute inset-y-0 w-px bg-white/60"
+                            style={{ left: `${nowPercent}%` }}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
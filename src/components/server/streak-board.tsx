@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Avatar } from '@/components/ui/avatar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { fetchStreakBoard } from '@/lib/streak-client';
+import { getTimeZoneName } from '@/lib/utils';
+import { StreakActivity, StreakBoard as StreakBoardData } from '@/types';
+import { AlertTriangle, Flame } from 'lucide-react';
+
+interface StreakBoardProps {
+  serverId: string;
+  limit?: number;
+}
+
+const ACTIVITY_OPTIONS: { value: StreakActivity; label: string }[] = [
+  { value: 'combined', label: 'Any' },
+  { value: 'voice', label: 'Voice' },
+  { value: 'text', label: 'Text' },
+];
+
+export function StreakBoard({ serverId, limit = 10 }: StreakBoardProps) {
+  const [board, setBoard] = useState<StreakBoardData | null>(null);
+  const [activity, setActivity] = useState<StreakActivity>('combined');
+  const [loading, setLoading] = useState(true);
+
+  // Streaks depend on the viewer's today, so the server ranks them in the browser's timezone
+  useEffect(() => {
+    async function loadData() {
+      try {
+        setBoard(await fetchStreakBoard(serverId, getTimeZoneName(), limit));
+      } catch (err) {
+        console.error('Failed to load streaks:', err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadData();
+  }, [serverId, limit]);
+
+  const ranked = board?.[activity] || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Flame className="w-5 h-5 text-orange-400" />
+            Longest Active Streaks
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            {ACTIVITY_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setActivity(option.value)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  activity === option.value
+                    ? 'bg-discord-blurple text-white'
+                    : 'bg-discord-darker text-gray-400 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <Skeleton key={i} className="h-12" />
+            ))}
+          </div>
+        ) : ranked.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">Nobody has a streak going right now.</p>
+        ) : (
+          <div className="space-y-2">
+            {ranked.map((member, index) => {
+              const { streak } = member;
+              return (
+                <Link
+                  key={member.user_id}
+                  href={`/${serverId}/${member.user_id}`}
+                  className="flex items-center gap-3 p-2 rounded-lg hover:bg-discord-lighter/20 transition-colors"
+                >
+                  <span className="w-6 text-center text-sm font-bold text-gray-400">{index + 1}</span>
+                  <Avatar src={member.avatar_url} alt={member.username || 'User'} size="sm" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white truncate">
+                      {member.display_name || member.username || 'Unknown'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Best {streak.longest} {streak.longest === 1 ? 'day' : 'days'}
+                    </p>
+                  </div>
+                  {streak.atRisk && (
+                    <span title="No activity yet today" className="text-discord-yellow">
+                      <AlertTriangle className="w-4 h-4" />
+                    </span>
+                  )}
+                  <span className="flex items-center gap-1 text-white font-bold tabular-nums">
+                    <Flame className={`w-4 h-4 ${streak.atRisk ? 'text-gray-500' : 'text-orange-400'}`} />
+                    {streak.current}
+                  </span>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,14 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import Link from 'next/link';
 import { Avatar } from '@/components/ui/avatar';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
+import { fetchViewer } from '@/lib/auth/client';
 import { getActiveVoiceSessions } from '@/lib/queries/server';
 import { supabase } from '@/lib/supabase';
-import { ActiveVoiceSession } from '@/types';
+import { ActiveVoiceSession, Viewer } from '@/types';
 import { Mic, Radio } from 'lucide-react';
 
 interface VoiceActivityProps {
@@ -32,10 +33,13 @@ export function VoiceActivity({ serverId }: VoiceActivityProps) {
   const [sessions, setSessions] = useState<ActiveVoiceSession[]>([]);
   const [loading, setLoading] = useState(true);
   const [, setTick] = useState(0);
+  const viewerRef = useRef<Promise<Viewer> | null>(null);
 
   const loadSessions = useCallback(async () => {
     try {
-      const data = await getActiveVoiceSessions(serverId);
+      // Resolve the viewer once and reuse it for every realtime reload
+      viewerRef.current ??= fetchViewer();
+      const data = await getActiveVoiceSessions(serverId, await viewerRef.current);
       setSessions(data);
     } catch (err) {
       console.error('Failed to load active voice sessions:', err);
@@ -136,6 +140,12 @@ export function VoiceActivity({ serverId }: VoiceActivityProps) {
               ({sessions.length} {sessions.length === 1 ? 'user' : 'users'} in voice)
             </span>
           )}
+          <Link
+            href={`/${serverId}/voice`}
+            className="ml-auto text-sm font-normal text-gray-400 hover:text-white transition-colors"
+          >
+            Room view
+          </Link>
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -0,0 +1,234 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AreaChart, Area, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import { Avatar } from '@/components/ui/avatar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/lib/supabase';
+import { fetchLiveVoiceRooms } from '@/lib/voice-client';
+import { applyVoiceStateChange } from '@/lib/voice-state';
+import { LiveVoiceMember, LiveVoiceRoom, VoiceOccupancyPoint, VoiceStateChange } from '@/types';
+import { HeadphoneOff, MicOff, MonitorUp, Radio, Video } from 'lucide-react';
+
+interface VoiceRoomsProps {
+  serverId: string;
+  initialRooms: LiveVoiceRoom[];
+}
+
+// Slide the occupancy window forward even when nobody joins or leaves
+const REFRESH_INTERVAL_MS = 60000;
+
+function formatDuration(joinedAt: string): string {
+  const diffMs = Date.now() - new Date(joinedAt).getTime();
+  const hours = Math.floor(diffMs / (1000 * 60 * 60));
+  const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+function formatSampleTime(time: string): string {
+  return new Date(time).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+function OccupancySparkline({ points }: { points: VoiceOccupancyPoint[] }) {
+  const peak = Math.max(1, ...points.map((p) => p.count));
+
+  return (
+    <div className="h-10 w-32 shrink-0" title="Members in this channel over the last hour">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={points} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+          <YAxis hide domain={[0, peak]} />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#2b2d31',
+              border: '1px solid #3b3d44',
+              borderRadius: '8px',
+              fontSize: '12px',
+            }}
+            labelStyle={{ color: '#fff' }}
+            labelFormatter={(_, payload) =>
+              payload?.[0] ? formatSampleTime((payload[0].payload as VoiceOccupancyPoint).time) : ''
+            }
+            formatter={(value: number) => [value, 'In voice']}
+          />
+          <Area
+            type="stepAfter"
+            dataKey="count"
+            stroke="#3ba55c"
+            fill="#3ba55c"
+            fillOpacity={0.2}
+            strokeWidth={1.5}
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function StateIcons({ member }: { member: LiveVoiceMember }) {
+  const { muted, deafened, streaming, video } = member.state;
+
+  return (
+    <div className="flex items-center gap-1 text-gray-400">
+      {deafened ? (
+        <HeadphoneOff className="w-4 h-4 text-discord-red" aria-label="Deafened" />
+      ) : (
+        muted && <MicOff className="w-4 h-4 text-discord-red" aria-label="Muted" />
+      )}
+      {video && <Video className="w-4 h-4" aria-label="Camera on" />}
+      {streaming && (
+        <span className="flex items-center gap-1 px-1.5 rounded bg-discord-red text-white text-[10px] font-bold uppercase">
+          <MonitorUp className="w-3 h-3" />
+          Live
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function VoiceRooms({ serverId, initialRooms }: VoiceRoomsProps) {
+  const [rooms, setRooms] = useState<LiveVoiceRoom[]>(initialRooms);
+  const [, setTick] = useState(0);
+  const loadRooms = useCallback(async () => {
+    try {
+      setRooms(await fetchLiveVoiceRooms(serverId));
+    } catch (err) {
+      console.error('Failed to load voice rooms:', err);
+    }
+  }, [serverId]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`voice-rooms-${serverId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'voice_sessions',
+          filter: `guild_id=eq.${serverId}`,
+        },
+        () => loadRooms()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'voice_sessions',
+          filter: `guild_id=eq.${serverId}`,
+        },
+        () => loadRooms()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'voice_state_changes',
+          filter: `guild_id=eq.${serverId}`,
+        },
+        (payload) => {
+          // Mute, deafen, stream and camera toggles only touch one member. Only members
+          // the rooms route already returned are updated, so hidden ones stay out.
+          const change = payload.new as VoiceStateChange;
+          setRooms((prev) =>
+            prev.map((room) => ({
+              ...room,
+              members: room.members.map((m) =>
+                m.user_id === change.user_id
+                  ? { ...m, state: applyVoiceStateChange(m.state, change.event_type) }
+                  : m
+              ),
+            }))
+          );
+        }
+      )
+      .subscribe();
+
+    const refreshInterval = setInterval(() => {
+      setTick((t) => t + 1);
+      loadRooms();
+    }, REFRESH_INTERVAL_MS);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(refreshInterval);
+    };
+  }, [serverId, loadRooms]);
+
+  const inVoice = rooms.reduce((sum, room) => sum + room.members.length, 0);
+
+  if (rooms.length === 0) {
+    return (
+      <Card>
+        <CardContent>
+          <p className="text-gray-400 text-center py-8">
+            No one has been in voice in the last hour.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-400">
+        {inVoice} {inVoice === 1 ? 'member' : 'members'} in voice across{' '}
+        {rooms.filter((r) => r.members.length > 0).length} of {rooms.length}{' '}
+        {rooms.length === 1 ? 'channel' : 'channels'} active this hour
+      </p>
+
+      {rooms.map((room) => (
+        <Card key={room.channel_id}>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2 min-w-0">
+                <Radio className="w-5 h-5 text-green-400 shrink-0" />
+                <span className="truncate">{room.channel_name || 'Voice'}</span>
+                <span className="text-sm font-normal text-gray-400 shrink-0">
+                  ({room.members.length})
+                </span>
+              </CardTitle>
+              <OccupancySparkline points={room.occupancy} />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {room.members.length === 0 ? (
+              <p className="text-gray-500 text-sm">Empty now</p>
+            ) : (
+              <div className="grid gap-2 sm:grid-cols-2">
+                {room.members.map((member) => (
+                  <Link
+                    key={member.id}
+                    href={`/${serverId}/${member.user_id}`}
+                    className="flex items-center gap-3 p-2 rounded-lg bg-discord-darker hover:bg-discord-lighter/20 transition-colors"
+                  >
+                    <Avatar
+                      src={member.avatar_url}
+                      alt={member.username || 'User'}
+                      size="sm"
+                      className={member.state.video ? 'ring-2 ring-discord-green' : undefined}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-white text-sm font-medium truncate">
+                        {member.display_name || member.username || 'Unknown'}
+                      </p>
+                      <p className="text-xs text-gray-500">{formatDuration(member.joined_at)}</p>
+                    </div>
+                    <StateIcons member={member} />
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import Image from 'next/image';
+import { cn, getCustomEmojiUrl } from '@/lib/utils';
+import { EmojiUsage } from '@/types';
+
+interface EmojiIconProps {
+  emoji: Pick<EmojiUsage, 'emoji' | 'emoji_id' | 'is_custom'>;
+  size?: number;
+  className?: string;
+}
+
+/**
+ * Renders a custom emoji from Discord's CDN, or a unicode emoji as text.
+ */
+export function EmojiIcon({ emoji, size = 28, className }: EmojiIconProps) {
+  if (emoji.is_custom && emoji.emoji_id) {
+    return (
+      <Image
+        src={getCustomEmojiUrl(emoji.emoji_id)}
+        alt={emoji.emoji}
+        title={emoji.emoji}
+        width={size}
+        height={size}
+        className={cn('object-contain', className)}
+        unoptimized
+      />
+    );
+  }
+
+  return (
+    <span className={cn('leading-none', className)} style={{ fontSize: size * 0.85 }} title={emoji.emoji}>
+      {emoji.emoji}
+    </span>
+  );
+}
@@ -0,0 +1,189 @@
+import Image from 'next/image';
+import type { WrappedSlide } from './wrapped-slides';
+import { formatNumber, formatVoiceTime, getCustomEmojiUrl } from '@/lib/utils';
+import { WrappedSummary } from '@/types';
+
+// Slide building blocks shared by the member and server Wrapped pages
+
+export function SlideKicker({ children }: { children: React.ReactNode }) {
+  return <p className="text-sm uppercase tracking-widest text-white/70 mb-2">{children}</p>;
+}
+
+export function SlideStat({ value, label }: { value: string; label: string }) {
+  return (
+    <div>
+      <p className="text-5xl md:text-6xl font-extrabold text-white">{value}</p>
+      <p className="text-white/80 mt-1">{label}</p>
+    </div>
+  );
+}
+
+function formatWrappedDate(utcDateStr: string): string {
+  const [year, month, day] = utcDateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day, 12)).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+interface SummarySlideLabels {
+  subject: string; // "You" or "This server"
+  streakHint?: string; // Who held the streak, for server summaries
+}
+
+/**
+ * Slides every Wrapped has in common. Slides without data are left out so
+ * quiet years don't show a row of zeros.
+ */
+export function getSummarySlides(summary: WrappedSummary, labels: SummarySlideLabels): WrappedSlide[] {
+  const slides: WrappedSlide[] = [
+    {
+      key: 'totals',
+      gradient: 'from-indigo-600 to-purple-700',
+      content: (
+        <div className="space-y-6 text-center">
+          <SlideKicker>{labels.subject} showed up</SlideKicker>
+          <SlideStat value={formatVoiceTime(summary.totalVoiceMinutes)} label="in voice" />
+          <SlideStat value={formatNumber(summary.totalMessages)} label="messages sent" />
+          <p className="text-white/70 text-sm">
+            Active on {summary.activeDays} {summary.activeDays === 1 ? 'day' : 'days'} &middot;{' '}
+            {formatNumber(summary.totalXp)} XP earned
+          </p>
+        </div>
+      ),
+    },
+  ];
+
+  if (summary.longestStreak) {
+    const { days, start, end } = summary.longestStreak;
+    slides.push({
+      key: 'streak',
+      gradient: 'from-orange-500 to-red-600',
+      content: (
+        <div className="text-center">
+          <SlideKicker>Longest streak</SlideKicker>
+          <SlideStat value={`${days} ${days === 1 ? 'day' : 'days'}`} label="in a row" />
+          <p className="text-white/70 text-sm mt-4">
+            {formatWrappedDate(start)} &ndash; {formatWrappedDate(end)}
+            {labels.streakHint && <> &middot; {labels.streakHint}</>}
+          </p>
+        </div>
+      ),
+    });
+  }
+
+  if (summary.busiestDay) {
+    const day = summary.busiestDay;
+    slides.push({
+      key: 'busiest-day',
+      gradient: 'from-emerald-500 to-teal-700',
+      content: (
+        <div className="text-center">
+          <SlideKicker>Busiest day</SlideKicker>
+          <SlideStat value={formatWrappedDate(day.date)} label="was the big one" />
+          <p className="text-white/70 text-sm mt-4">
+            {formatNumber(day.message_count)} messages &middot; {formatVoiceTime(day.voice_minutes)} in voice
+          </p>
+        </div>
+      ),
+    });
+  }
+
+  if (summary.topEmojis.length > 0) {
+    const [favorite, ...rest] = summary.topEmojis;
+    slides.push({
+      key: 'emojis',
+      gradient: 'from-yellow-500 to-orange-600',
+      content: (
+        <div className="text-center">
+          <SlideKicker>Emoji of the year</SlideKicker>
+          <div className="flex justify-center my-4">
+            {favorite.is_custom && favorite.emoji_id ? (
+              <Image
+                src={getCustomEmojiUrl(favorite.emoji_id)}
+                alt={favorite.emoji}
+                width={96}
+                height={96}
+                className="object-contain"
+                unoptimized
+              />
+            ) : (
+              <span className="text-8xl">{favorite.emoji}</span>
+            )}
+          </div>
+          <p className="text-white/80">Used {formatNumber(favorite.total)} times</p>
+          {rest.length > 0 && (
+            <div className="flex justify-center gap-3 mt-6">
+              {rest.map((emoji) => (
+                <div key={emoji.emoji_id || emoji.emoji} className="flex flex-col items-center">
+                  {emoji.is_custom && emoji.emoji_id ? (
+                    <Image
+                      src={getCustomEmojiUrl(emoji.emoji_id)}
+                      alt={emoji.emoji}
+                      width={32}
+                      height={32}
+                      className="object-contain"
+                      unoptimized
+                    />
+                  ) : (
+                    <span className="text-3xl">{emoji.emoji}</span>
+                  )}
+                  <span className="text-xs text-white/70">{formatNumber(emoji.total)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ),
+    });
+  }
+
+  if (summary.topChannels.length > 0) {
+    slides.push({
+      key: 'channels',
+      gradient: 'from-sky-500 to-blue-700',
+      content: (
+        <div>
+          <SlideKicker>Favorite hangouts</SlideKicker>
+          <ol className="space-y-3 mt-4">
+            {summary.topChannels.map((channel, i) => (
+              <li key={channel.channelId} className="flex items-center gap-3">
+                <span className="text-2xl font-bold text-white/50 w-6">{i + 1}</span>
+                <span className="flex-1 text-xl font-semibold text-white truncate">
+                  #{channel.channelName || 'unknown'}
+                </span>
+                <span className="text-white/70">{formatNumber(channel.messageCount)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ),
+    });
+  }
+
+  if (summary.achievements.length > 0) {
+    slides.push({
+      key: 'achievements',
+      gradient: 'from-fuchsia-600 to-pink-700',
+      content: (
+        <div>
+          <SlideKicker>{summary.achievements.length} achievements unlocked</SlideKicker>
+          <div className="grid grid-cols-2 gap-2 mt-4">
+            {summary.achievements.slice(0, 8).map((achievement) => (
+              <div key={achievement.id} className="p-2 rounded-lg bg-black/20" title={achievement.description}>
+                <p className="text-sm font-medium text-white truncate">{achievement.name}</p>
+                <p className="text-xs text-white/60 truncate">{achievement.description}</p>
+              </div>
+            ))}
+          </div>
+          {summary.achievements.length > 8 && (
+            <p className="text-white/70 text-sm mt-3">and {summary.achievements.length - 8} more</p>
+          )}
+        </div>
+      ),
+    });
+  }
+
+  return slides;
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Share2, Check } from 'lucide-react';
+
+export interface WrappedSlide {
+  key: string;
+  gradient: string; // Tailwind gradient classes for the slide background
+  content: React.ReactNode;
+}
+
+interface WrappedSlidesProps {
+  slides: WrappedSlide[];
+  shareTitle: string;
+}
+
+export function WrappedSlides({ slides, shareTitle }: WrappedSlidesProps) {
+  const [index, setIndex] = useState(0);
+  const [copied, setCopied] = useState(false);
+
+  const goTo = useCallback(
+    (next: number) => setIndex(Math.max(0, Math.min(slides.length - 1, next))),
+    [slides.length]
+  );
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') goTo(index + 1);
+      if (e.key === 'ArrowLeft') goTo(index - 1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [index, goTo]);
+
+  const handleShare = async () => {
+    const url = window.location.href;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: shareTitle, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Share sheet dismissed
+    }
+  };
+
+  const slide = slides[index];
+
+  return (
+    <div>
+      <div
+        className={`relative rounded-2xl overflow-hidden min-h-[28rem] flex items-center justify-center p-8 bg-gradient-to-br ${slide.gradient} transition-colors`}
+      >
+        <div key={slide.key} className="w-full max-w-lg">
+          {slide.content}
+        </div>
+
+        {/* Navigation */}
+        <button
+          onClick={() => goTo(index - 1)}
+          disabled={index === 0}
+          className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/20 text-white/80 hover:text-white disabled:opacity-0 transition-opacity"
+          aria-label="Previous slide"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => goTo(index + 1)}
+          disabled={index === slides.length - 1}
+          className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/20 text-white/80 hover:text-white disabled:opacity-0 transition-opacity"
+          aria-label="Next slide"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <div className="flex gap-1.5">
+          {slides.map((s, i) => (
+            <button
+              key={s.key}
+              onClick={() => goTo(i)}
+              className={`h-1.5 rounded-full transition-all ${
+                i === index ? 'w-6 bg-white' : 'w-1.5 bg-gray-600 hover:bg-gray-400'
+              }`}
+              aria-label={`Slide ${i + 1}`}
+            />
+          ))}
+        </div>
+        <button
+          onClick={handleShare}
+          className="inline-flex items-center gap-2 px-3 py-1 text-sm rounded-md bg-discord-darker text-gray-400 hover:text-white transition-colors"
+        >
+          {copied ? <Check className="w-4 h-4" /> : <Share2 className="w-4 h-4" />}
+          {copied ? 'Link copied' : 'Share'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,15 @@
-import { AchievementDefinition, AchievementCategory } from '@/types';
+import {
+  AchievementDefinition,
+  AchievementCategory,
+  AchievementGoal,
+  AchievementMetric,
+  AchievementProgress,
+  AchievementRarity,
+  AchievementTier,
+} from '@/types';
+import { formatNumber } from './utils';
 
+// Built-in definitions, used when the achievement_definitions table has no shared rows
 export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
   // Milestone achievements
   { id: 'first_words', name: 'First Words', description: 'Send your first message', category: 'milestone', xp: 50 },
@@ -55,13 +65,61 @@ export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
   { id: 'thread_starter', name: 'Thread Starter', description: 'Create a thread that gets 20+ messages', category: 'reaction', xp: 200 },
 ];
 
-export const TOTAL_ACHIEVEMENTS = ACHIEVEMENT_DEFINITIONS.length;
-
 // Create a map for quick lookups by ID
 export const ACHIEVEMENT_MAP = new Map<string, AchievementDefinition>(
   ACHIEVEMENT_DEFINITIONS.map((a) => [a.id, a])
 );
 
+// Numeric goals for achievements whose progress can be tracked before they unlock
+export const ACHIEVEMENT_GOALS: Record<string, AchievementGoal> = {
+  first_words: { metric: 'messages', target: 1 },
+  chatterbox: { metric: 'messages', target: 1000 },
+  novelist: { metric: 'messages', target: 10000 },
+  voice_debut: { metric: 'voice_minutes', target: 1 },
+  hang_time: { metric: 'voice_minutes', target: 10 * 60 },
+  resident_dj: { metric: 'voice_minutes', target: 100 * 60 },
+  level_10_club: { metric: 'level', target: 10 },
+  level_25_club: { metric: 'level', target: 25 },
+  the_prestige: { metric: 'level', target: 50 },
+  on_a_roll: { metric: 'daily_streak', target: 7 },
+  dedicated: { metric: 'daily_streak', target: 30 },
+  no_life: { metric: 'daily_streak', target: 100 },
+  weekly_warrior: { metric: 'weekly_streak', target: 4 },
+};
+
+// Progress towards every goal whose metric is given, capped at the target
+export function getAchievementProgress(values: Partial<Record<AchievementMetric, number>>): AchievementProgress[] {
+  return Object.entries(ACHIEVEMENT_GOALS).flatMap(([achievementId, goal]) => {
+    const value = values[goal.metric];
+    if (value === undefined) return [];
+    return [{ achievement_id: achievementId, ...goal, current: Math.min(goal.target, value) }];
+  });
+}
+
+// Progress as a fraction from 0 to 1
+export function getProgressRatio(progress: AchievementProgress): number {
+  return progress.target > 0 ? Math.min(1, progress.current / progress.target) : 0;
+}
+
+// e.g. "6,240 / 10,000 messages", "71 / 100 hours" or "Level 18 / 25"
+export function formatAchievementProgress(progress: AchievementProgress): string {
+  const { metric, current, target } = progress;
+  switch (metric) {
+    case 'level':
+      return `Level ${current} / ${target}`;
+    case 'voice_minutes':
+      return target >= 60
+        ? `${formatNumber(Math.floor(current / 60))} / ${formatNumber(target / 60)} hours`
+        : `${current} / ${target} ${target === 1 ? 'minute' : 'minutes'}`;
+    case 'daily_streak':
+      return `${current} / ${target} days in a row`;
+    case 'weekly_streak':
+      return `${current} / ${target} weeks in a row`;
+    default:
+      return `${formatNumber(current)} / ${formatNumber(target)} ${target === 1 ? 'message' : 'messages'}`;
+  }
+}
+
 // Category display info
 export const CATEGORY_INFO: Record<AchievementCategory, { name: string; color: string }> = {
   milestone: { name: 'Milestones', color: 'text-yellow-400' },
@@ -71,9 +129,69 @@ export const CATEGORY_INFO: Record<AchievementCategory, { name: string; color: s
   activity: { name: 'Activity', color: 'text-green-400' },
   fun: { name: 'Fun', color: 'text-purple-400' },
   reaction: { name: 'Reactions', color: 'text-red-400' },
+  other: { name: 'Other', color: 'text-gray-400' },
+};
+
+export function isAchievementCategory(value: string): value is AchievementCategory {
+  return value in CATEGORY_INFO;
+}
+
+// Tier display info, lowest first
+export const TIER_INFO: Record<AchievementTier, { name: string; color: string }> = {
+  bronze: { name: 'Bronze', color: 'text-amber-600' },
+  silver: { name: 'Silver', color: 'text-gray-300' },
+  gold: { name: 'Gold', color: 'text-yellow-400' },
 };
 
-// Get achievement definition by ID
+export const TIER_ORDER: AchievementTier[] = ['bronze', 'silver', 'gold'];
+
+export const SECRET_DESCRIPTION = 'Secret achievement. Keep playing to find out.';
+
+// Hide what a secret achievement asks for
+export function maskSecretAchievement<T extends AchievementDefinition>(achievement: T): T {
+  return achievement.hidden ? { ...achievement, description: SECRET_DESCRIPTION } : achievement;
+}
+
+// Placeholder for an earned ID that no definition covers, so it's shown rather than dropped
+export function getUnknownAchievement(id: string): AchievementDefinition {
+  return {
+    id,
+    name: id
+      .split(/[_-]+/)
+      .filter(Boolean)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ') || id,
+    description: 'This achievement is no longer defined',
+    category: 'other',
+    xp: 0,
+    unknown: true,
+  };
+}
+
+// Look up a definition, falling back to the unknown placeholder
+export function resolveAchievement(
+  definitions: Map<string, AchievementDefinition>,
+  id: string
+): AchievementDefinition {
+  return definitions.get(id) || getUnknownAchievement(id);
+}
+
+// Rarity tiers by the share of members who have earned an achievement, rarest last
+export const RARITY_INFO: Record<AchievementRarity, { name: string; color: string; minPercent: number }> = {
+  common: { name: 'Common', color: 'text-gray-300', minPercent: 50 },
+  uncommon: { name: 'Uncommon', color: 'text-green-400', minPercent: 20 },
+  rare: { name: 'Rare', color: 'text-blue-400', minPercent: 5 },
+  epic: { name: 'Epic', color: 'text-purple-400', minPercent: 1 },
+  legendary: { name: 'Legendary', color: 'text-yellow-400', minPercent: 0 },
+};
+
+export const RARITY_ORDER: AchievementRarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+export function getAchievementRarity(percent: number): AchievementRarity {
+  return RARITY_ORDER.find((rarity) => percent >= RARITY_INFO[rarity].minPercent) || 'legendary';
+}
+
+// Get a built-in achievement definition by ID
 export function getAchievementById(id: string): AchievementDefinition | undefined {
   return ACHIEVEMENT_MAP.get(id);
 }
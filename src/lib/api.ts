@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServer } from './queries/server';
+import { ApiErrorResponse, ApiPagination, Guild } from '@/types';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+};
+
+// Error with an HTTP status, thrown from route handlers and rendered by withApiErrors
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// Does the If-None-Match header contain this ETag (or the * wildcard)?
+function matchesETag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
+
+/**
+ * Serialize a JSON body with a content-hash ETag.
+ * Returns 304 Not Modified when the client already has this exact body.
+ */
+export function jsonWithETag(request: NextRequest, body: unknown): NextResponse {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash('sha1').update(json).digest('base64url')}"`;
+
+  const headers = {
+    ...CORS_HEADERS,
+    ETag: etag,
+    'Cache-Control': 'public, max-age=0, s-maxage=60, stale-while-revalidate=300',
+  };
+
+  if (matchesETag(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(json, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+export function jsonError(status: number, message: string): NextResponse<ApiErrorResponse> {
+  return NextResponse.json(
+    { error: { status, message } },
+    { status, headers: CORS_HEADERS }
+  );
+}
+
+export function corsPreflight(): NextResponse {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/**
+ * Wrap a route handler so thrown ApiErrors become JSON error responses
+ * and anything else becomes a 500.
+ */
+export function withApiErrors<C>(
+  handler: (request: NextRequest, context: C) => Promise<NextResponse>
+): (request: NextRequest, context: C) => Promise<NextResponse> {
+  return async (request, context) => {
+    try {
+      return await handler(request, context);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        return jsonError(err.status, err.message);
+      }
+      console.error('API request failed:', err);
+      return jsonError(500, 'Internal server error');
+    }
+  };
+}
+
+/**
+ * Read page/limit query params, clamping limit to MAX_PAGE_LIMIT.
+ */
+export function parsePagination(searchParams: URLSearchParams): { page: number; limit: number } {
+  const page = parseInt(searchParams.get('page') || '1', 10);
+  const limit = parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_LIMIT), 10);
+
+  if (isNaN(page) || page < 1) {
+    throw new ApiError(400, '`page` must be a positive integer');
+  }
+  if (isNaN(limit) || limit < 1) {
+    throw new ApiError(400, '`limit` must be a positive integer');
+  }
+
+  return { page, limit: Math.min(limit, MAX_PAGE_LIMIT) };
+}
+
+/**
+ * Read an enum query param, falling back to a default when absent.
+ */
+export function parseEnumParam<T extends string>(
+  searchParams: URLSearchParams,
+  name: string,
+  allowed: readonly T[],
+  fallback: T
+): T {
+  const value = searchParams.get(name);
+  if (value === null) return fallback;
+  if (!allowed.includes(value as T)) {
+    throw new ApiError(400, `\`${name}\` must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+export function buildPagination(page: number, limit: number, totalCount: number): ApiPagination {
+  return {
+    page,
+    limit,
+    totalCount,
+    totalPages: Math.ceil(totalCount / limit),
+  };
+}
+
+/**
+ * Look up a guild, throwing a 404 ApiError when the bot doesn't know it.
+ */
+export async function requireGuild(guildId: string): Promise<Guild> {
+  const guild = await getServer(guildId);
+  if (!guild) {
+    throw new ApiError(404, 'Guild not found');
+  }
+  return guild;
+}
@@ -0,0 +1,40 @@
+import { getSession } from './session';
+import { hasGuildAdministrator } from './discord';
+import { SessionUser } from '@/types';
+
+// Revoked admins lose access within this long
+const ADMIN_CHECK_TTL_MS = 5 * 60 * 1000;
+
+const adminChecks = new Map<string, { isAdmin: boolean; checkedAt: number }>();
+
+/**
+ * Is the user a Discord administrator of this guild? Checked against Discord,
+ * not the sign-in snapshot, and cached for a few minutes per user and guild.
+ */
+export async function isGuildAdmin(user: SessionUser | null, guildId: string): Promise<boolean> {
+  if (!user) return false;
+
+  const key = `${guildId}:${user.id}`;
+  const cached = adminChecks.get(key);
+  if (cached && Date.now() - cached.checkedAt < ADMIN_CHECK_TTL_MS) {
+    return cached.isAdmin;
+  }
+
+  try {
+    const isAdmin = await hasGuildAdministrator(guildId, user.id);
+    adminChecks.set(key, { isAdmin, checkedAt: Date.now() });
+    return isAdmin;
+  } catch (err) {
+    // Deny without caching so the next request asks Discord again
+    console.error('Failed to check admin permissions:', err);
+    return false;
+  }
+}
+
+/**
+ * Get the signed-in user if they administer this guild (server components and route handlers).
+ */
+export async function getGuildAdmin(guildId: string): Promise<SessionUser | null> {
+  const user = await getSession();
+  return (await isGuildAdmin(user, guildId)) ? user : null;
+}
@@ -0,0 +1,27 @@
+import { ANONYMOUS_VIEWER } from '../queries/privacy';
+import { SessionInfo, Viewer } from '@/types';
+
+/**
+ * Load the signed-in session from the browser.
+ */
+export async function fetchSession(): Promise<SessionInfo> {
+  const response = await fetch('/api/auth/session', { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to load session: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Build the privacy viewer from the browser, falling back to anonymous on failure.
+ */
+export async function fetchViewer(): Promise<Viewer> {
+  try {
+    const { user, guilds } = await fetchSession();
+    if (!user) return ANONYMOUS_VIEWER;
+    return { userId: user.id, guildIds: guilds.map((g) => g.id) };
+  } catch (err) {
+    console.error('Failed to load viewer:', err);
+    return ANONYMOUS_VIEWER;
+  }
+}
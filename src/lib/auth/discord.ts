@@ -0,0 +1,212 @@
+import { supabase } from '../supabase';
+import { getAvatarUrl } from '../utils';
+import { SessionUser } from '@/types';
+
+const DISCORD_API = 'https://discord.com/api/v10';
+const DISCORD_AUTHORIZE_URL = 'https://discord.com/oauth2/authorize';
+
+export type AuthProvider = 'discord' | 'mock';
+
+// Discord permission bit for Administrator
+const ADMINISTRATOR = BigInt(0x8);
+
+interface DiscordUser {
+  id: string;
+  username: string;
+  global_name: string | null;
+  avatar: string | null;
+}
+
+interface DiscordPartialGuild {
+  id: string;
+  owner: boolean;
+  permissions: string; // Bitfield as a string
+}
+
+interface DiscordGuild {
+  id: string;
+  owner_id: string;
+  roles: { id: string; permissions: string }[];
+}
+
+interface DiscordGuildMember {
+  roles: string[];
+}
+
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+
+/**
+ * Which sign-in provider to use. The mock provider is never used in production.
+ */
+export function getAuthProvider(): AuthProvider {
+  if (process.env.AUTH_PROVIDER === 'mock' && process.env.NODE_ENV !== 'production') {
+    return 'mock';
+  }
+  return 'discord';
+}
+
+function getClientCredentials(): { clientId: string; clientSecret: string } {
+  const clientId = process.env.DISCORD_CLIENT_ID;
+  const clientSecret = process.env.DISCORD_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error('DISCORD_CLIENT_ID and DISCORD_CLIENT_SECRET must be set');
+  }
+  return { clientId, clientSecret };
+}
+
+export function getAuthorizeUrl(redirectUri: string, state: string): string {
+  const { clientId } = getClientCredentials();
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: 'identify guilds',
+    state,
+    prompt: 'none',
+  });
+  return `${DISCORD_AUTHORIZE_URL}?${params.toString()}`;
+}
+
+/**
+ * Exchange an authorization code for the Discord user it was issued to.
+ */
+export async function getDiscordUserFromCode(code: string, redirectUri: string): Promise<SessionUser> {
+  const { clientId, clientSecret } = getClientCredentials();
+
+  const tokenResponse = await fetch(`${DISCORD_API}/oauth2/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+    }),
+    cache: 'no-store',
+  });
+
+  if (!tokenResponse.ok) {
+    throw new Error(`Discord token exchange failed: ${tokenResponse.status}`);
+  }
+
+  const { access_token: accessToken } = await tokenResponse.json();
+
+  const userResponse = await fetch(`${DISCORD_API}/users/@me`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    cache: 'no-store',
+  });
+
+  if (!userResponse.ok) {
+    throw new Error(`Discord user lookup failed: ${userResponse.status}`);
+  }
+
+  const user = (await userResponse.json()) as DiscordUser;
+
+  return {
+    id: user.id,
+    username: user.username,
+    globalName: user.global_name,
+    avatarUrl: getAvatarUrl(user.id, user.avatar),
+    adminGuildIds: await getAdminGuildIds(accessToken),
+  };
+}
+
+/**
+ * Get the guilds where the token's user is the owner or has Administrator.
+ */
+async function getAdminGuildIds(accessToken: string): Promise<string[]> {
+  const response = await fetch(`${DISCORD_API}/users/@me/guilds`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Discord guild lookup failed: ${response.status}`);
+  }
+
+  const guilds = (await response.json()) as DiscordPartialGuild[];
+  return guilds
+    .filter((g) => g.owner || (BigInt(g.permissions) & ADMINISTRATOR) === ADMINISTRATOR)
+    .map((g) => g.id);
+}
+
+/**
+ * Local development user, taken from MOCK_DISCORD_USER_ID.
+ * Uses the member's stored name and avatar when the bot knows them.
+ */
+export async function getMockUser(): Promise<SessionUser> {
+  const userId = process.env.MOCK_DISCORD_USER_ID;
+  if (!userId) {
+    throw new Error('MOCK_DISCORD_USER_ID must be set when AUTH_PROVIDER=mock');
+  }
+
+  const { data } = await supabase
+    .from('members')
+    .select('username, display_name, avatar_url')
+    .eq('user_id', userId)
+    .limit(1)
+    .maybeSingle();
+
+  return {
+    id: userId,
+    username: data?.username || 'dev-user',
+    globalName: data?.display_name || null,
+    avatarUrl: data?.avatar_url || null,
+    adminGuildIds: getMockAdminGuildIds(),
+  };
+}
+
+function getMockAdminGuildIds(): string[] {
+  return (process.env.MOCK_DISCORD_ADMIN_GUILD_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+async function fetchWithBotToken(path: string): Promise<Response> {
+  const botToken = process.env.DISCORD_BOT_TOKEN;
+  if (!botToken) {
+    throw new Error('DISCORD_BOT_TOKEN must be set to check admin permissions');
+  }
+  return fetch(`${DISCORD_API}${path}`, {
+    headers: { Authorization: `Bot ${botToken}` },
+    cache: 'no-store',
+  });
+}
+
+/**
+ * Is the user the owner of the guild or holding a role with Administrator right now?
+ * Asks Discord as the bot, so it doesn't depend on what was true at sign-in.
+ */
+export async function hasGuildAdministrator(guildId: string, userId: string): Promise<boolean> {
+  if (getAuthProvider() === 'mock') {
+    return getMockAdminGuildIds().includes(guildId);
+  }
+  if (!SNOWFLAKE_PATTERN.test(guildId) || !SNOWFLAKE_PATTERN.test(userId)) return false;
+
+  const [guildResponse, memberResponse] = await Promise.all([
+    fetchWithBotToken(`/guilds/${guildId}`),
+    fetchWithBotToken(`/guilds/${guildId}/members/${userId}`),
+  ]);
+
+  // Not (or no longer) in the guild
+  if (memberResponse.status === 404) return false;
+
+  if (!guildResponse.ok) {
+    throw new Error(`Discord guild lookup failed: ${guildResponse.status}`);
+  }
+  if (!memberResponse.ok) {
+    throw new Error(`Discord member lookup failed: ${memberResponse.status}`);
+  }
+
+  const guild = (await guildResponse.json()) as DiscordGuild;
+  const member = (await memberResponse.json()) as DiscordGuildMember;
+  if (guild.owner_id === userId) return true;
+
+  // @everyone shares the guild's ID and applies to every member
+  const memberRoleIds = new Set([guildId, ...member.roles]);
+  return guild.roles.some(
+    (role) => memberRoleIds.has(role.id) && (BigInt(role.permissions) & ADMINISTRATOR) === ADMINISTRATOR
+  );
+}
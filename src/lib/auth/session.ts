@@ -0,0 +1,87 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { SessionUser } from '@/types';
+
+export const SESSION_COOKIE = 'pbot_session';
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // 7 days, in seconds
+export const OAUTH_STATE_COOKIE = 'pbot_oauth_state';
+
+interface SessionPayload {
+  user: SessionUser;
+  exp: number; // Unix seconds
+}
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not set');
+  }
+  return secret;
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Encode a user into a signed session token: base64url(payload).signature
+ */
+export function encodeSession(user: SessionUser): string {
+  const payload: SessionPayload = {
+    user,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Verify a session token and return its user, or null if invalid or expired.
+ */
+export function decodeSession(token: string | undefined): SessionUser | null {
+  if (!token) return null;
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as SessionPayload;
+    if (payload.exp < Date.now() / 1000) return null;
+    // Sessions issued before admin checks existed carry no admin guilds
+    return { ...payload.user, adminGuildIds: payload.user.adminGuildIds || [] };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the signed-in user from the request cookies (server components and route handlers).
+ */
+export async function getSession(): Promise<SessionUser | null> {
+  const cookieStore = await cookies();
+  return decodeSession(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+export function getCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge,
+  };
+}
+
+// Only allow same-site relative paths as post-login redirect targets
+export function sanitizeReturnTo(returnTo: string | null): string {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//')) {
+    return '/';
+  }
+  return returnTo;
+}
@@ -0,0 +1,15 @@
+import { getSession } from './session';
+import { getUserGuilds } from '../queries/user';
+import { ANONYMOUS_VIEWER } from '../queries/privacy';
+import { Viewer } from '@/types';
+
+/**
+ * Build the privacy viewer for the current request (server components and route handlers).
+ */
+export async function getViewer(): Promise<Viewer> {
+  const user = await getSession();
+  if (!user) return ANONYMOUS_VIEWER;
+
+  const guilds = await getUserGuilds(user.id);
+  return { userId: user.id, guildIds: guilds.map((g) => g.id) };
+}
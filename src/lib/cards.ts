@@ -0,0 +1,170 @@
+import { CardHoloEffect, CardRarity, CardSet, CollectibleCard } from '@/types';
+
+// Rarity tiers by achievements earned, highest first
+export const CARD_RARITY_TIERS: { rarity: CardRarity; minAchievements: number }[] = [
+  { rarity: 'holo', minAchievements: 20 },
+  { rarity: 'rare', minAchievements: 10 },
+  { rarity: 'uncommon', minAchievements: 4 },
+  { rarity: 'common', minAchievements: 0 },
+];
+
+// Lowest to highest, for sorting
+export const CARD_RARITY_ORDER: CardRarity[] = ['common', 'uncommon', 'rare', 'holo'];
+
+export const CARD_RARITY_INFO: Record<CardRarity, { name: string; color: string; symbol: string }> = {
+  common: { name: 'Common', color: '#9ca3af', symbol: '●' },
+  uncommon: { name: 'Uncommon', color: '#3ba55c', symbol: '◆' },
+  rare: { name: 'Rare', color: '#5865f2', symbol: '★' },
+  holo: { name: 'Holo Rare', color: '#faa61a', symbol: '★' },
+};
+
+const MIN_HP = 30;
+const MAX_HP = 340;
+
+export function getCardRarity(achievementCount: number): CardRarity {
+  const tier = CARD_RARITY_TIERS.find((t) => achievementCount >= t.minAchievements);
+  return tier ? tier.rarity : 'common';
+}
+
+// HP grows 10 per level, like the printed cards, capped where the real ones top out
+export function getCardHp(level: number): number {
+  return Math.min(MAX_HP, MIN_HP + level * 10);
+}
+
+// Damage scales with the log of usage so one spammy channel doesn't dwarf everything
+export function getAttackDamage(count: number): number {
+  if (count <= 0) return 0;
+  return Math.min(300, Math.max(10, Math.round((Math.log10(count) * 40) / 10) * 10));
+}
+
+export const CARD_SETS: CardSet[] = [{ id: 'base', name: 'Powerspike Base Set' }];
+
+export const CARD_EFFECT_INFO: Record<CardHoloEffect, { name: string }> = {
+  cosmos: { name: 'Cosmos' },
+  glitter: { name: 'Glitter' },
+  grain: { name: 'Grain' },
+  'reverse-holo': { name: 'Reverse Holo' },
+};
+
+export function getCardSetName(setId: string): string {
+  return CARD_SETS.find((s) => s.id === setId)?.name || setId;
+}
+
+/**
+ * One-line credits for a card: set, rarity, artist and release date.
+ */
+export function getCardCredits(card: CollectibleCard): string {
+  const [year, month, day] = card.releaseDate.split('-').map(Number);
+  const released = new Date(Date.UTC(year, month - 1, day, 12)).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return [
+    getCardSetName(card.set),
+    CARD_RARITY_INFO[card.rarity].name,
+    card.artist ? `Art by ${card.artist}` : 'Artist uncredited',
+    `Released ${released}`,
+  ].join(' · ');
+}
+
+// The printed cards members can collect, in binder order
+export const COLLECTIBLE_CARDS: CollectibleCard[] = [
+  {
+    id: 'bomb',
+    name: 'Bomb',
+    src: '/bomb.png',
+    alt: 'Bomb Pokemon Card, Holographic',
+    set: 'base',
+    rarity: 'common',
+    artist: null,
+    releaseDate: '2026-02-15',
+    effect: 'cosmos',
+    unlock: { type: 'achievement', achievementId: 'first_words' },
+  },
+  {
+    id: 'crunch',
+    name: 'Crunch',
+    src: '/crunch-card1.png',
+    alt: 'Crunch Pokemon Card, Holographic',
+    set: 'base',
+    rarity: 'uncommon',
+    artist: null,
+    releaseDate: '2026-02-15',
+    effect: 'glitter',
+    unlock: { type: 'achievement', achievementId: 'chatterbox' },
+  },
+  {
+    id: 'prock',
+    name: 'Prock',
+    src: '/card2.png',
+    alt: 'Prock - Stage 1 Pokemon Card, Holographic',
+    set: 'base',
+    rarity: 'rare',
+    artist: null,
+    releaseDate: '2026-02-15',
+    effect: 'reverse-holo',
+    unlock: { type: 'level_role', tier: 1 },
+  },
+  {
+    id: 'ice',
+    name: 'Monkey D. Ice',
+    src: '/ice-card2.png',
+    alt: 'Monkey D. Ice - Basic Pokemon Card, Holographic',
+    set: 'base',
+    rarity: 'uncommon',
+    artist: null,
+    releaseDate: '2026-02-15',
+    effect: 'grain',
+    unlock: { type: 'achievement', achievementId: 'hang_time' },
+  },
+  {
+    id: 'forest-sprite',
+    name: 'Forest Sprite',
+    src: '/forest-sprite.png',
+    alt: 'Forest Sprite Pokemon Card, Holographic',
+    set: 'base',
+    rarity: 'rare',
+    artist: null,
+    releaseDate: '2026-02-15',
+    effect: 'glitter',
+    unlock: { type: 'achievement', achievementId: 'on_a_roll' },
+  },
+  {
+    id: 'jordy',
+    name: 'Cunning Warlock',
+    src: '/jordy.png',
+    alt: 'Cunning Warlock Pokemon Card, Holographic',
+    set: 'base',
+    rarity: 'holo',
+    artist: null,
+    releaseDate: '2026-02-15',
+    effect: 'cosmos',
+    unlock: { type: 'level_role', tier: 2 },
+  },
+  {
+    id: 'nick-punkrock',
+    name: 'Nick Sims',
+    src: '/nick-punkrock.png',
+    alt: 'Nick Sims punkrock look',
+    set: 'base',
+    rarity: 'common',
+    artist: null,
+    releaseDate: '2026-02-15',
+    effect: 'grain',
+    unlock: { type: 'achievement', achievementId: 'night_owl' },
+  },
+  {
+    id: 'bg-lift',
+    name: 'BG Lift',
+    src: '/bg-lift.png',
+    alt: 'BG Lift Card, Holographic',
+    set: 'base',
+    rarity: 'holo',
+    artist: null,
+    releaseDate: '2026-02-15',
+    effect: 'reverse-holo',
+    unlock: { type: 'level_role', tier: 3 },
+  },
+];
@@ -0,0 +1,38 @@
+import { DailyMemberStats, HourOfWeekActivity } from '@/types';
+import type { MemberVoiceActivity } from './queries/profile';
+
+/**
+ * Load a slice of a member's profile from the browser. The profile routes check
+ * the signed-in viewer on the server, so hidden members come back as null.
+ */
+async function fetchProfileData<T>(guildId: string, userId: string, path: string): Promise<T | null> {
+  const response = await fetch(`/api/profile/${guildId}/${userId}/${path}`, { cache: 'no-store' });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load profile ${path}: ${response.status}`);
+  }
+  return response.json();
+}
+
+export async function fetchMemberDailyStats(
+  guildId: string,
+  userId: string,
+  days: number
+): Promise<DailyMemberStats[]> {
+  return (await fetchProfileData<DailyMemberStats[]>(guildId, userId, `activity?days=${days}`)) || [];
+}
+
+export function fetchMemberHourOfWeekActivity(
+  guildId: string,
+  userId: string,
+  timeZone: string
+): Promise<HourOfWeekActivity | null> {
+  return fetchProfileData(guildId, userId, `rhythm?timeZone=${encodeURIComponent(timeZone)}`);
+}
+
+export function fetchMemberVoiceActivity(
+  guildId: string,
+  userId: string
+): Promise<MemberVoiceActivity | null> {
+  return fetchProfileData(guildId, userId, 'voice');
+}
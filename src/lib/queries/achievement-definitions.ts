@@ -0,0 +1,69 @@
+import { supabase } from '../supabase';
+import { AchievementDefinition, AchievementDefinitionRow } from '@/types';
+import { ACHIEVEMENT_DEFINITIONS, isAchievementCategory } from '../achievements';
+
+// Postgres and PostgREST codes for a table that doesn't exist yet
+const MISSING_TABLE_CODES = ['42P01', 'PGRST205'];
+
+function toDefinition(row: AchievementDefinitionRow): AchievementDefinition {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    category: isAchievementCategory(row.category) ? row.category : 'other',
+    xp: row.xp || 0,
+    family: row.family,
+    tier: row.tier,
+    hidden: row.is_hidden,
+    icon: row.icon,
+    guild_id: row.guild_id,
+  };
+}
+
+/**
+ * Every achievement defined for a guild: the shared definitions from the
+ * database (or the built-in list when there are none), with the guild's own
+ * custom achievements added on top. A custom achievement with the same ID
+ * replaces the shared one.
+ */
+export async function getAchievementDefinitions(guildId: string): Promise<AchievementDefinition[]> {
+  // Two plain filters rather than one .or() string, so the guild ID from the URL
+  // is only ever a value and can't change the filter
+  const [sharedResult, customResult] = await Promise.all([
+    supabase
+      .from('achievement_definitions')
+      .select('*')
+      .is('guild_id', null)
+      .order('sort_order', { ascending: true })
+      .order('id', { ascending: true }),
+    supabase
+      .from('achievement_definitions')
+      .select('*')
+      .eq('guild_id', guildId)
+      .order('sort_order', { ascending: true })
+      .order('id', { ascending: true }),
+  ]);
+
+  const error = sharedResult.error || customResult.error;
+  if (error) {
+    if (MISSING_TABLE_CODES.includes(error.code)) return ACHIEVEMENT_DEFINITIONS;
+    throw error;
+  }
+
+  const shared = ((sharedResult.data || []) as AchievementDefinitionRow[]).map(toDefinition);
+  const custom = ((customResult.data || []) as AchievementDefinitionRow[]).map(toDefinition);
+  const customIds = new Set(custom.map((d) => d.id));
+
+  const base = shared.length > 0 ? shared : ACHIEVEMENT_DEFINITIONS;
+  return [...base.filter((d) => !customIds.has(d.id)), ...custom];
+}
+
+/**
+ * A guild's achievement definitions keyed by ID.
+ */
+export async function getAchievementDefinitionMap(
+  guildId: string
+): Promise<Map<string, AchievementDefinition>> {
+  const definitions = await getAchievementDefinitions(guildId);
+  return new Map(definitions.map((d) => [d.id, d]));
+}
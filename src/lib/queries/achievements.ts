@@ -1,6 +1,32 @@
 import { supabase } from '../supabase';
-import { MemberAchievement, EarnedAchievement } from '@/types';
-import { getAchievementById, TOTAL_ACHIEVEMENTS } from '../achievements';
+import {
+  MemberAchievement,
+  EarnedAchievement,
+  AchievementDefinition,
+  AchievementEarner,
+  AchievementProgress,
+  AchievementRarity,
+  AchievementStat,
+  AchievementUnlockPoint,
+  RecentUnlock,
+  ServerAchievementStats,
+  Viewer,
+} from '@/types';
+import {
+  getAchievementProgress,
+  getAchievementRarity,
+  getUnknownAchievement,
+  maskSecretAchievement,
+  resolveAchievement,
+} from '../achievements';
+import { getUTCDateString } from '../utils';
+import { getAchievementDefinitionMap, getAchievementDefinitions } from './achievement-definitions';
+import { canViewerSeeMember, getHiddenUserIds } from './privacy';
+import { fetchAllRows } from './paging';
+
+const RECENT_EARNERS_LIMIT = 5;
+
+type UnlockRow = Pick<MemberAchievement, 'user_id' | 'achievement_id' | 'earned_at'>;
 
 export interface AchievementStats {
   earnedCount: number;
@@ -15,29 +41,25 @@ export async function getMemberAchievements(
   guildId: string,
   userId: string
 ): Promise<EarnedAchievement[]> {
-  const { data, error } = await supabase
-    .from('member_achievements')
-    .select('*')
-    .eq('guild_id', guildId)
-    .eq('user_id', userId)
-    .order('earned_at', { ascending: false });
+  const [{ data, error }, definitions] = await Promise.all([
+    supabase
+      .from('member_achievements')
+      .select('*')
+      .eq('guild_id', guildId)
+      .eq('user_id', userId)
+      .order('earned_at', { ascending: false }),
+    getAchievementDefinitionMap(guildId),
+  ]);
 
   if (error) throw error;
 
-  // Map database records to EarnedAchievement by joining with definitions
-  const achievements: EarnedAchievement[] = [];
-  for (const record of data || []) {
-    const definition = getAchievementById(record.achievement_id);
-    if (definition) {
-      achievements.push({
-        ...definition,
-        earned_at: record.earned_at,
-        xp_awarded: record.xp_awarded,
-      });
-    }
-  }
-
-  return achievements;
+  // Map database records to EarnedAchievement by joining with definitions,
+  // keeping IDs that no longer have one
+  return (data || []).map((record) => ({
+    ...resolveAchievement(definitions, record.achievement_id),
+    earned_at: record.earned_at,
+    xp_awarded: record.xp_awarded,
+  }));
 }
 
 /**
@@ -47,20 +69,24 @@ export async function getMemberAchievementStats(
   guildId: string,
   userId: string
 ): Promise<AchievementStats> {
-  const { data, error } = await supabase
-    .from('member_achievements')
-    .select('xp_awarded')
-    .eq('guild_id', guildId)
-    .eq('user_id', userId);
+  const [{ data, error }, definitions] = await Promise.all([
+    supabase
+      .from('member_achievements')
+      .select('achievement_id, xp_awarded')
+      .eq('guild_id', guildId)
+      .eq('user_id', userId),
+    getAchievementDefinitionMap(guildId),
+  ]);
 
   if (error) throw error;
 
   const records = data || [];
   const totalXp = records.reduce((sum, r) => sum + (r.xp_awarded || 0), 0);
+  const unknownCount = records.filter((r) => !definitions.has(r.achievement_id)).length;
 
   return {
     earnedCount: records.length,
-    totalCount: TOTAL_ACHIEVEMENTS,
+    totalCount: definitions.size + unknownCount,
     totalXpFromAchievements: totalXp,
   };
 }
@@ -73,27 +99,351 @@ export async function getMemberRecentAchievements(
   userId: string,
   limit = 5
 ): Promise<EarnedAchievement[]> {
-  const { data, error } = await supabase
+  const [{ data, error }, definitions] = await Promise.all([
+    supabase
+      .from('member_achievements')
+      .select('*')
+      .eq('guild_id', guildId)
+      .eq('user_id', userId)
+      .order('earned_at', { ascending: false })
+      .limit(limit),
+    getAchievementDefinitionMap(guildId),
+  ]);
+
+  if (error) throw error;
+
+  return (data || []).map((record) => ({
+    ...resolveAchievement(definitions, record.achievement_id),
+    earned_at: record.earned_at,
+    xp_awarded: record.xp_awarded,
+  }));
+}
+
+// Attach member info and definitions, dropping unlocks by members the viewer can't see
+async function toRecentUnlocks(
+  guildId: string,
+  records: MemberAchievement[],
+  viewer: Viewer,
+  hiddenUserIds: Set<string>
+): Promise<RecentUnlock[]> {
+  const visible = records.filter((record) => !hiddenUserIds.has(record.user_id));
+  if (visible.length === 0) return [];
+
+  const userIds = Array.from(new Set(visible.map((r) => r.user_id)));
+  const [definitions, membersResult] = await Promise.all([
+    getAchievementDefinitionMap(guildId),
+    supabase
+      .from('members')
+      .select('user_id, username, display_name, avatar_url')
+      .eq('guild_id', guildId)
+      .in('user_id', userIds),
+  ]);
+
+  if (membersResult.error) throw membersResult.error;
+  const memberMap = new Map((membersResult.data || []).map((m) => [m.user_id, m]));
+
+  return visible.map((record) => {
+    const member = memberMap.get(record.user_id);
+    const definition = resolveAchievement(definitions, record.achievement_id);
+    return {
+      ...(record.user_id === viewer.userId ? definition : maskSecretAchievement(definition)),
+      earned_at: record.earned_at,
+      xp_awarded: record.xp_awarded,
+      unlock_id: record.id,
+      user_id: record.user_id,
+      username: member?.username || null,
+      display_name: member?.display_name || null,
+      avatar_url: member?.avatar_url || null,
+    };
+  });
+}
+
+/**
+ * Latest achievement unlocks across a server, newest first.
+ */
+export async function getRecentUnlocks(
+  guildId: string,
+  viewer: Viewer,
+  limit = 10
+): Promise<RecentUnlock[]> {
+  const hiddenUserIds = await getHiddenUserIds(guildId, viewer);
+
+  let query = supabase
     .from('member_achievements')
     .select('*')
-    .eq('guild_id', guildId)
-    .eq('user_id', userId)
+    .eq('guild_id', guildId);
+
+  // Hidden members are left out by the query itself so the limit counts visible unlocks
+  if (hiddenUserIds.size > 0) {
+    query = query.not('user_id', 'in', `(${Array.from(hiddenUserIds).join(',')})`);
+  }
+
+  const { data, error } = await query
     .order('earned_at', { ascending: false })
+    .order('id', { ascending: false })
     .limit(limit);
 
   if (error) throw error;
 
-  const achievements: EarnedAchievement[] = [];
-  for (const record of data || []) {
-    const definition = getAchievementById(record.achievement_id);
-    if (definition) {
-      achievements.push({
-        ...definition,
-        earned_at: record.earned_at,
-        xp_awarded: record.xp_awarded,
-      });
+  return toRecentUnlocks(guildId, (data || []) as MemberAchievement[], viewer, hiddenUserIds);
+}
+
+/**
+ * Describe a single unlock, e.g. one that just arrived over realtime.
+ * Null when the member is hidden from the viewer.
+ */
+export async function getRecentUnlock(
+  guildId: string,
+  record: MemberAchievement,
+  viewer: Viewer
+): Promise<RecentUnlock | null> {
+  const hiddenUserIds = await getHiddenUserIds(guildId, viewer);
+  const [unlock] = await toRecentUnlocks(guildId, [record], viewer, hiddenUserIds);
+  return unlock || null;
+}
+
+async function getMemberVoiceMinutes(guildId: string, userId: string): Promise<number> {
+  const sessions = await fetchAllRows<{
+    joined_at: string;
+    left_at: string | null;
+    duration_seconds: number | null;
+  }>((from, to) =>
+    supabase
+      .from('voice_sessions')
+      .select('id, joined_at, left_at, duration_seconds')
+      .eq('guild_id', guildId)
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  const now = Date.now();
+  let seconds = 0;
+  sessions.forEach((session) => {
+    // Count the ongoing session up to now
+    seconds += session.left_at
+      ? session.duration_seconds || 0
+      : Math.max(0, (now - new Date(session.joined_at).getTime()) / 1000);
+  });
+
+  return Math.floor(seconds / 60);
+}
+
+/**
+ * Progress towards every milestone achievement with a numeric goal. Streak
+ * goals depend on the viewer's today, so the profile works those out in the
+ * browser from the member's streak days. Null when the viewer can't see the member.
+ */
+export async function getMemberAchievementProgress(
+  guildId: string,
+  userId: string,
+  viewer: Viewer
+): Promise<AchievementProgress[] | null> {
+  if (!(await canViewerSeeMember(guildId, userId, viewer))) return null;
+
+  const [levelResult, voiceMinutes] = await Promise.all([
+    supabase
+      .from('member_levels')
+      .select('level, message_count')
+      .eq('guild_id', guildId)
+      .eq('user_id', userId)
+      .maybeSingle(),
+    getMemberVoiceMinutes(guildId, userId),
+  ]);
+
+  if (levelResult.error) throw levelResult.error;
+
+  return getAchievementProgress({
+    messages: levelResult.data?.message_count || 0,
+    voice_minutes: voiceMinutes,
+    level: levelResult.data?.level || 0,
+  });
+}
+
+async function getGuildUnlocks(guildId: string): Promise<UnlockRow[]> {
+  const rows = await fetchAllRows<UnlockRow>((from, to) =>
+    supabase
+      .from('member_achievements')
+      .select('id, user_id, achievement_id, earned_at')
+      .eq('guild_id', guildId)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  return rows.map((row) => ({ user_id: row.user_id, achievement_id: row.achievement_id, earned_at: row.earned_at }));
+}
+
+// Rarity is measured against members with XP, the same count the server page shows
+async function getMemberCount(guildId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('member_levels')
+    .select('*', { count: 'exact', head: true })
+    .eq('guild_id', guildId);
+
+  if (error) throw error;
+  return count || 0;
+}
+
+function getEarnedPercent(earnedCount: number, memberCount: number): number {
+  return memberCount > 0 ? Math.min(100, (earnedCount / memberCount) * 100) : 0;
+}
+
+function countEarners(unlocks: UnlockRow[]): Map<string, number> {
+  const earners = new Map<string, Set<string>>();
+  unlocks.forEach((row) => {
+    const users = earners.get(row.achievement_id) || new Set<string>();
+    users.add(row.user_id);
+    earners.set(row.achievement_id, users);
+  });
+  return new Map(Array.from(earners.entries()).map(([id, users]) => [id, users.size]));
+}
+
+// The guild's definitions plus a placeholder for each earned ID none of them cover
+function withUnknownAchievements(
+  definitions: AchievementDefinition[],
+  unlocks: UnlockRow[]
+): AchievementDefinition[] {
+  const knownIds = new Set(definitions.map((d) => d.id));
+  const unknownIds = new Set(unlocks.map((row) => row.achievement_id).filter((id) => !knownIds.has(id)));
+  return [...definitions, ...Array.from(unknownIds).map(getUnknownAchievement)];
+}
+
+function getMonthStart(date: Date): string {
+  return getUTCDateString(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)));
+}
+
+/**
+ * Rarity tier of every achievement in a server, keyed by achievement ID.
+ */
+export async function getAchievementRarities(guildId: string): Promise<Record<string, AchievementRarity>> {
+  const [unlocks, memberCount, definitions] = await Promise.all([
+    getGuildUnlocks(guildId),
+    getMemberCount(guildId),
+    getAchievementDefinitions(guildId),
+  ]);
+  const earnedCounts = countEarners(unlocks);
+
+  const rarities: Record<string, AchievementRarity> = {};
+  withUnknownAchievements(definitions, unlocks).forEach((def) => {
+    rarities[def.id] = getAchievementRarity(getEarnedPercent(earnedCounts.get(def.id) || 0, memberCount));
+  });
+  return rarities;
+}
+
+/**
+ * Server-wide unlock statistics for every achievement: how many members have it,
+ * who got it first and most recently, and how unlocks built up month by month.
+ * Percentages count everyone; members the viewer can't see are left out of the names,
+ * and secret achievements stay masked unless the viewer has earned them.
+ */
+export async function getServerAchievementStats(
+  guildId: string,
+  viewer: Viewer
+): Promise<ServerAchievementStats> {
+  const [unlocks, memberCount, hiddenUserIds, definitions] = await Promise.all([
+    getGuildUnlocks(guildId),
+    getMemberCount(guildId),
+    getHiddenUserIds(guildId, viewer),
+    getAchievementDefinitions(guildId),
+  ]);
+
+  const earnedCounts = countEarners(unlocks);
+  const sorted = unlocks
+    .slice()
+    .sort((a, b) => new Date(a.earned_at).getTime() - new Date(b.earned_at).getTime());
+
+  // Shared monthly axis from the server's first unlock to this month
+  const months: string[] = [];
+  if (sorted.length > 0) {
+    const cursor = new Date(`${getMonthStart(new Date(sorted[0].earned_at))}T00:00:00Z`);
+    const thisMonth = getMonthStart(new Date());
+    while (getUTCDateString(cursor) <= thisMonth) {
+      months.push(getUTCDateString(cursor));
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
     }
   }
 
-  return achievements;
+  const unlocksById = new Map<string, UnlockRow[]>();
+  sorted.forEach((row) => {
+    const rows = unlocksById.get(row.achievement_id) || [];
+    rows.push(row);
+    unlocksById.set(row.achievement_id, rows);
+  });
+
+  // Names only for members the viewer can see
+  const visibleById = new Map<string, UnlockRow[]>();
+  unlocksById.forEach((rows, id) => {
+    visibleById.set(id, rows.filter((row) => !hiddenUserIds.has(row.user_id)));
+  });
+  const earnerIds = new Set<string>();
+  unlocksById.forEach((rows, id) => {
+    if (!hiddenUserIds.has(rows[0].user_id)) earnerIds.add(rows[0].user_id);
+    (visibleById.get(id) || []).slice(-RECENT_EARNERS_LIMIT).forEach((row) => earnerIds.add(row.user_id));
+  });
+
+  let memberMap = new Map<string, { username: string | null; display_name: string | null; avatar_url: string | null }>();
+  if (earnerIds.size > 0) {
+    const { data: members, error } = await supabase
+      .from('members')
+      .select('user_id, username, display_name, avatar_url')
+      .eq('guild_id', guildId)
+      .in('user_id', Array.from(earnerIds));
+
+    if (error) throw error;
+    memberMap = new Map((members || []).map((m) => [m.user_id, m]));
+  }
+
+  const toEarner = (row: UnlockRow): AchievementEarner => {
+    const member = memberMap.get(row.user_id);
+    return {
+      user_id: row.user_id,
+      username: member?.username || null,
+      display_name: member?.display_name || null,
+      avatar_url: member?.avatar_url || null,
+      earned_at: row.earned_at,
+    };
+  };
+
+  const viewerEarnedIds = new Set(
+    unlocks.filter((row) => row.user_id === viewer.userId).map((row) => row.achievement_id)
+  );
+
+  const achievements: AchievementStat[] = withUnknownAchievements(definitions, unlocks).map((def) => {
+    const rows = unlocksById.get(def.id) || [];
+    const visible = visibleById.get(def.id) || [];
+    const earnedCount = earnedCounts.get(def.id) || 0;
+    const percent = getEarnedPercent(earnedCount, memberCount);
+
+    // Cumulative earners at the end of each month
+    let index = 0;
+    const timeline: AchievementUnlockPoint[] = months.map((month, i) => {
+      const nextMonth = months[i + 1];
+      while (index < rows.length && (!nextMonth || getMonthStart(new Date(rows[index].earned_at)) < nextMonth)) {
+        index++;
+      }
+      return { month, total: index };
+    });
+
+    return {
+      ...(viewerEarnedIds.has(def.id) ? def : maskSecretAchievement(def)),
+      earned_count: earnedCount,
+      percent,
+      rarity: getAchievementRarity(percent),
+      first_earner: rows.length > 0 && !hiddenUserIds.has(rows[0].user_id) ? toEarner(rows[0]) : null,
+      recent_earners: visible.slice(-RECENT_EARNERS_LIMIT).reverse().map(toEarner),
+      timeline,
+    };
+  });
+
+  // Rarest first, unearned ones last
+  achievements.sort((a, b) => {
+    if ((a.earned_count === 0) !== (b.earned_count === 0)) return a.earned_count === 0 ? 1 : -1;
+    return a.percent - b.percent;
+  });
+
+  return {
+    memberCount,
+    totalUnlocks: unlocks.length,
+    achievements,
+  };
 }
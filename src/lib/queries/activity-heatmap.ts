@@ -0,0 +1,67 @@
+import { supabase } from '../supabase';
+import { HourOfWeekActivity, Viewer } from '@/types';
+import { canViewerSeeMember } from './privacy';
+
+export const HOURS_PER_WEEK = 7 * 24;
+
+export const UTC_TIME_ZONE = 'UTC';
+
+interface HourOfWeekRow {
+  hour_of_week: number;
+  message_count: number;
+  voice_minutes: number;
+}
+
+/**
+ * Bucket messages and voice minutes by hour of the week in an IANA time zone.
+ * get_hour_of_week_activity aggregates on the database (sessions are split
+ * across every hour they span, open ones count up to now), so this is a single
+ * request however much history the guild has.
+ */
+async function getHourOfWeekActivity(
+  guildId: string,
+  timeZone: string,
+  userId: string | null
+): Promise<HourOfWeekActivity> {
+  const { data, error } = await supabase.rpc('get_hour_of_week_activity', {
+    p_guild_id: guildId,
+    p_user_id: userId,
+    p_time_zone: timeZone,
+  });
+
+  if (error) throw error;
+
+  const messages = new Array<number>(HOURS_PER_WEEK).fill(0);
+  const voiceMinutes = new Array<number>(HOURS_PER_WEEK).fill(0);
+  ((data || []) as HourOfWeekRow[]).forEach((row) => {
+    if (row.hour_of_week < 0 || row.hour_of_week >= HOURS_PER_WEEK) return;
+    messages[row.hour_of_week] = row.message_count || 0;
+    voiceMinutes[row.hour_of_week] = Math.round(row.voice_minutes || 0);
+  });
+
+  return { messages, voiceMinutes };
+}
+
+/**
+ * Messages and voice minutes for the whole server by hour of the week.
+ */
+export async function getServerHourOfWeekActivity(
+  guildId: string,
+  timeZone: string
+): Promise<HourOfWeekActivity> {
+  return getHourOfWeekActivity(guildId, timeZone, null);
+}
+
+/**
+ * Messages and voice minutes for one member by hour of the week. Returns
+ * null if the member is hidden from this viewer.
+ */
+export async function getMemberHourOfWeekActivity(
+  guildId: string,
+  userId: string,
+  viewer: Viewer,
+  timeZone: string
+): Promise<HourOfWeekActivity | null> {
+  if (!(await canViewerSeeMember(guildId, userId, viewer))) return null;
+  return getHourOfWeekActivity(guildId, timeZone, userId);
+}
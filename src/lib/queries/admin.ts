@@ -0,0 +1,151 @@
+import { supabase } from '../supabase';
+import { getSupabaseAdmin } from '../supabase-admin';
+import { ConfiguredAchievement, GuildAchievementSetting, LevelRole } from '@/types';
+import { getAchievementDefinitions } from './achievement-definitions';
+
+// Writes use the service-role client, so only call them from admin route handlers
+
+export interface LevelRoleInput {
+  level: number;
+  role_id: string;
+  role_name: string | null;
+  role_color: string | null;
+}
+
+/**
+ * Add a level role to a guild.
+ */
+export async function createLevelRole(guildId: string, input: LevelRoleInput): Promise<LevelRole> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('level_roles')
+    .insert({ guild_id: guildId, ...input })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Update a level role. The guild filter keeps admins to their own guild's rows.
+ */
+export async function updateLevelRole(
+  guildId: string,
+  id: number,
+  input: LevelRoleInput
+): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('level_roles')
+    .update(input)
+    .eq('guild_id', guildId)
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function deleteLevelRole(guildId: string, id: number): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('level_roles')
+    .delete()
+    .eq('guild_id', guildId)
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Move a level role up or down the ladder by swapping levels with its neighbour.
+ */
+export async function moveLevelRole(
+  guildId: string,
+  id: number,
+  direction: 'up' | 'down'
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('level_roles')
+    .select('id, level')
+    .eq('guild_id', guildId)
+    .order('level', { ascending: true });
+
+  if (error) throw error;
+
+  const roles = data || [];
+  const index = roles.findIndex((r) => r.id === id);
+  const neighbourIndex = direction === 'up' ? index - 1 : index + 1;
+  if (index === -1 || neighbourIndex < 0 || neighbourIndex >= roles.length) return;
+
+  // swap_level_role_levels swaps both levels in one transaction, so a failure can't
+  // leave either role half-moved
+  const { error: swapError } = await getSupabaseAdmin().rpc('swap_level_role_levels', {
+    p_guild_id: guildId,
+    p_role_id: roles[index].id,
+    p_other_role_id: roles[neighbourIndex].id,
+  });
+
+  if (swapError) throw swapError;
+}
+
+/**
+ * Get the per-guild achievement overrides.
+ */
+export async function getGuildAchievementSettings(
+  guildId: string
+): Promise<GuildAchievementSetting[]> {
+  const { data, error } = await supabase
+    .from('guild_achievement_settings')
+    .select('*')
+    .eq('guild_id', guildId);
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Get every achievement with this guild's enabled state and XP applied.
+ */
+export async function getConfiguredAchievements(guildId: string): Promise<ConfiguredAchievement[]> {
+  const [settings, definitions] = await Promise.all([
+    getGuildAchievementSettings(guildId),
+    getAchievementDefinitions(guildId),
+  ]);
+  const settingsMap = new Map(settings.map((s) => [s.achievement_id, s]));
+
+  return definitions.map((definition) => {
+    const setting = settingsMap.get(definition.id);
+    const xpOverride = setting?.xp_override ?? null;
+
+    return {
+      ...definition,
+      xp: xpOverride ?? definition.xp,
+      enabled: setting?.enabled ?? true,
+      default_xp: definition.xp,
+      xp_overridden: xpOverride !== null,
+    };
+  });
+}
+
+/**
+ * Save a guild's override for one achievement (xpOverride null = default XP).
+ */
+export async function setGuildAchievementSetting(
+  guildId: string,
+  achievementId: string,
+  enabled: boolean,
+  xpOverride: number | null
+): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('guild_achievement_settings')
+    .upsert(
+      {
+        guild_id: guildId,
+        achievement_id: achievementId,
+        enabled,
+        xp_override: xpOverride,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'guild_id,achievement_id' }
+    );
+
+  if (error) throw error;
+}
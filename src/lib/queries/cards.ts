@@ -0,0 +1,239 @@
+import { supabase } from '../supabase';
+import {
+  AchievementDefinition,
+  CollectibleCard,
+  CollectionEntry,
+  LevelRole,
+  MemberCard,
+  MemberCollection,
+  MemberWithLevel,
+  Viewer,
+} from '@/types';
+import { getMemberProfile, getMemberTopChannels, getMemberTopEmojis } from './profile';
+import { getLevelRoles, getMembers } from './members';
+import { getMemberAchievements } from './achievements';
+import { getAchievementDefinitionMap } from './achievement-definitions';
+import { getHiddenUserIds } from './privacy';
+import { fetchAllRows } from './paging';
+import { COLLECTIBLE_CARDS, getAttackDamage, getCardHp, getCardRarity } from '../cards';
+import { totalXpForLevel } from '../utils';
+
+export const BINDER_PAGE_SIZE = 9;
+const ATTACK_COUNT = 2;
+
+export interface BinderEntry {
+  user_id: string;
+  name: string | null; // null when the member is hidden from this viewer
+}
+
+export interface BinderPage {
+  entries: BinderEntry[];
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * Build a member's trading card from their stats. Returns null if the member
+ * doesn't exist or is hidden from this viewer.
+ */
+export async function getMemberCard(
+  guildId: string,
+  userId: string,
+  viewer: Viewer
+): Promise<MemberCard | null> {
+  const profile = await getMemberProfile(guildId, userId, viewer);
+  if (!profile) return null;
+
+  const [topChannels, topEmojis, achievementResult] = await Promise.all([
+    getMemberTopChannels(guildId, userId, ATTACK_COUNT),
+    getMemberTopEmojis(guildId, userId, ATTACK_COUNT),
+    supabase
+      .from('member_achievements')
+      .select('*', { count: 'exact', head: true })
+      .eq('guild_id', guildId)
+      .eq('user_id', userId),
+  ]);
+
+  if (achievementResult.error) throw achievementResult.error;
+
+  const { data: channels, error } = await supabase
+    .from('channels')
+    .select('id, name')
+    .in('id', topChannels.map((c) => c.channelId));
+
+  if (error) throw error;
+
+  const channelMap = new Map((channels || []).map((c) => [c.id, c.name]));
+  const achievementCount = achievementResult.count || 0;
+
+  // Each attack is named after a favorite channel and costs a favorite emoji
+  const attacks = topChannels.map((channel, i) => ({
+    name: `#${channelMap.get(channel.channelId) || 'unknown'}`,
+    damage: getAttackDamage(channel.messageCount),
+    emoji: topEmojis[i] || null,
+  }));
+
+  return {
+    user_id: profile.user_id,
+    name: profile.display_name || profile.username || 'Unknown',
+    avatar_url: profile.avatar_url,
+    level: profile.level,
+    hp: getCardHp(profile.level),
+    rarity: getCardRarity(achievementCount),
+    achievementCount,
+    attacks,
+  };
+}
+
+/**
+ * One binder page of members, in leaderboard order.
+ */
+export async function getBinderPage(
+  guildId: string,
+  page: number,
+  viewer: Viewer
+): Promise<BinderPage> {
+  const [{ members, totalPages }, hiddenUserIds] = await Promise.all([
+    getMembers({ guildId, page, limit: BINDER_PAGE_SIZE }),
+    getHiddenUserIds(guildId, viewer),
+  ]);
+
+  return {
+    entries: members.map((member) => ({
+      user_id: member.user_id,
+      name: hiddenUserIds.has(member.user_id)
+        ? null
+        : member.display_name || member.username || 'Unknown',
+    })),
+    page,
+    totalPages: Math.max(1, totalPages),
+  };
+}
+
+function describeUnlock(
+  card: CollectibleCard,
+  levelRoles: LevelRole[],
+  definitions: Map<string, AchievementDefinition>
+): { requirement: string; available: boolean } {
+  if (card.unlock.type === 'achievement') {
+    const achievement = definitions.get(card.unlock.achievementId);
+    return {
+      requirement: `Earn ${achievement ? achievement.name : card.unlock.achievementId}`,
+      available: !!achievement,
+    };
+  }
+
+  const role = levelRoles[card.unlock.tier - 1];
+  if (!role) {
+    return { requirement: 'Not available in this server', available: false };
+  }
+  return {
+    requirement: `Reach ${role.role_name || 'level'} (level ${role.level})`,
+    available: true,
+  };
+}
+
+/**
+ * When the member's total XP first reached each of these levels, worked out from
+ * their daily XP. XP from before daily stats were kept counts as earned on the
+ * first tracked day.
+ */
+async function getLevelReachedDates(
+  profile: MemberWithLevel,
+  levels: number[]
+): Promise<Map<number, string>> {
+  const days = await fetchAllRows<{ date: string; xp_earned: number }>((from, to) =>
+    supabase
+      .from('daily_member_stats')
+      .select('date, xp_earned')
+      .eq('guild_id', profile.guild_id)
+      .eq('user_id', profile.user_id)
+      .order('date', { ascending: true })
+      .range(from, to)
+  );
+
+  const reached = new Map<number, string>();
+  let totalXp = profile.xp - days.reduce((sum, day) => sum + (day.xp_earned || 0), 0);
+  days.forEach((day) => {
+    totalXp += day.xp_earned || 0;
+    levels.forEach((level) => {
+      // Noon UTC keeps the date on the same day when shown in most time zones
+      if (!reached.has(level) && totalXp >= totalXpForLevel(level)) {
+        reached.set(level, `${day.date}T12:00:00.000Z`);
+      }
+    });
+  });
+
+  // No daily stats to go on, so the best we know is when they were first tracked
+  levels.forEach((level) => {
+    if (!reached.has(level)) reached.set(level, profile.created_at);
+  });
+
+  return reached;
+}
+
+/**
+ * Get a member's card collection. Nothing is stored: ownership and unlock dates
+ * are derived on every read, from when the achievement was earned or when daily
+ * XP first reached the role's level. Returns null if the member doesn't exist or
+ * is hidden from this viewer.
+ */
+export async function getMemberCollection(
+  guildId: string,
+  userId: string,
+  viewer: Viewer
+): Promise<MemberCollection | null> {
+  const profile = await getMemberProfile(guildId, userId, viewer);
+  if (!profile) return null;
+
+  const [achievements, levelRoles, definitions] = await Promise.all([
+    getMemberAchievements(guildId, userId),
+    getLevelRoles(guildId),
+    getAchievementDefinitionMap(guildId),
+  ]);
+
+  const unlockMap = new Map<string, string>();
+  const earnedMap = new Map(achievements.map((a) => [a.id, a.earned_at]));
+
+  const reachedLevels = Array.from(
+    new Set(
+      COLLECTIBLE_CARDS.flatMap((card) => {
+        if (card.unlock.type !== 'level_role') return [];
+        const role = levelRoles[card.unlock.tier - 1];
+        return role && profile.level >= role.level ? [role.level] : [];
+      })
+    )
+  );
+  const levelDates = reachedLevels.length > 0
+    ? await getLevelReachedDates(profile, reachedLevels)
+    : new Map<number, string>();
+
+  COLLECTIBLE_CARDS.forEach((card) => {
+    let unlockedAt: string | null = null;
+    if (card.unlock.type === 'achievement') {
+      unlockedAt = earnedMap.get(card.unlock.achievementId) || null;
+    } else {
+      const role = levelRoles[card.unlock.tier - 1];
+      unlockedAt = role ? levelDates.get(role.level) || null : null;
+    }
+
+    if (unlockedAt) unlockMap.set(card.id, unlockedAt);
+  });
+
+  const entries: CollectionEntry[] = COLLECTIBLE_CARDS.map((card) => ({
+    card,
+    ...describeUnlock(card, levelRoles, definitions),
+    unlockedAt: unlockMap.get(card.id) || null,
+  }));
+
+  // Earned achievements count even if the server has since removed them
+  const counted = entries.filter((e) => e.available || e.unlockedAt);
+  const ownedCount = counted.filter((e) => e.unlockedAt).length;
+
+  return {
+    entries,
+    ownedCount,
+    availableCount: counted.length,
+    completionPercent: counted.length > 0 ? Math.round((ownedCount / counted.length) * 100) : 0,
+  };
+}
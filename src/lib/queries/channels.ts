@@ -0,0 +1,284 @@
+import { supabase } from '../supabase';
+import {
+  Channel,
+  ChannelCategory,
+  ChannelDetail,
+  ChannelDirectory,
+  ChannelParticipant,
+  ChannelSummary,
+  Viewer,
+} from '@/types';
+import { getUTCDateString } from '../utils';
+import { DailyActivityStats } from './server';
+import { getHiddenUserIds } from './privacy';
+import { fetchAllRows } from './paging';
+
+export const CATEGORY_CHANNEL_TYPE = 'category';
+const VOICE_CHANNEL_TYPES = ['voice', 'stage_voice'];
+
+const TOP_PARTICIPANTS_LIMIT = 10;
+
+export function isVoiceChannel(channel: Pick<Channel, 'type'>): boolean {
+  return VOICE_CHANNEL_TYPES.includes(channel.type);
+}
+
+function byPosition(a: Channel, b: Channel): number {
+  return a.position - b.position || a.name.localeCompare(b.name);
+}
+
+// Row shapes returned by the channel activity functions
+interface ActivityTotals {
+  message_count: number;
+  voice_minutes: number;
+}
+
+interface ChannelTotalsRow extends ActivityTotals {
+  channel_id: string;
+}
+
+interface ParticipantRow extends ActivityTotals {
+  user_id: string;
+}
+
+interface HourlyRow extends ActivityTotals {
+  hour: number;
+}
+
+interface DailyRow extends ActivityTotals {
+  date: string;
+}
+
+/**
+ * Every channel in the server with its message count and voice minutes,
+ * grouped under its category in Discord's sidebar order. Deleted channels
+ * are listed separately.
+ */
+export async function getChannelDirectory(guildId: string): Promise<ChannelDirectory> {
+  const { data, error } = await supabase
+    .from('channels')
+    .select('*')
+    .eq('guild_id', guildId);
+
+  if (error) throw error;
+
+  const channels = (data || []) as Channel[];
+  const categoryChannels = channels.filter((c) => c.type === CATEGORY_CHANNEL_TYPE);
+  const otherChannels = channels.filter((c) => c.type !== CATEGORY_CHANNEL_TYPE);
+
+  // get_channel_totals counts messages and finished voice minutes per
+  // channel on the database, one row per channel with activity
+  const { data: totalsData, error: totalsError } = await supabase.rpc('get_channel_totals', {
+    p_guild_id: guildId,
+  });
+
+  if (totalsError) throw totalsError;
+
+  const totals = new Map(((totalsData || []) as ChannelTotalsRow[]).map((row) => [row.channel_id, row]));
+  const summaries: ChannelSummary[] = otherChannels.sort(byPosition).map((channel) => ({
+    ...channel,
+    message_count: totals.get(channel.id)?.message_count || 0,
+    voice_minutes: Math.round(totals.get(channel.id)?.voice_minutes || 0),
+  }));
+
+  // Channels whose category is gone show up uncategorized, like in Discord
+  const liveCategories = categoryChannels.filter((c) => !c.is_deleted).sort(byPosition);
+  const liveCategoryIds = new Set(liveCategories.map((c) => c.id));
+  const live = summaries.filter((c) => !c.is_deleted);
+
+  const categories: ChannelCategory[] = [
+    {
+      id: null,
+      name: null,
+      position: -1,
+      channels: live.filter((c) => !c.parent_id || !liveCategoryIds.has(c.parent_id)),
+    },
+    ...liveCategories.map((category) => ({
+      id: category.id,
+      name: category.name,
+      position: category.position,
+      channels: live.filter((c) => c.parent_id === category.id),
+    })),
+  ].filter((category) => category.channels.length > 0);
+
+  return {
+    categories,
+    deleted: summaries
+      .filter((c) => c.is_deleted)
+      .sort((a, b) => b.message_count + b.voice_minutes - (a.message_count + a.voice_minutes)),
+  };
+}
+
+/**
+ * Get a channel with its category. Returns null for unknown channels and
+ * for categories, which have no activity of their own.
+ */
+export async function getChannel(
+  guildId: string,
+  channelId: string
+): Promise<{ channel: Channel; category: Channel | null } | null> {
+  const { data: channel, error } = await supabase
+    .from('channels')
+    .select('*')
+    .eq('guild_id', guildId)
+    .eq('id', channelId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw error;
+  }
+  if (channel.type === CATEGORY_CHANNEL_TYPE) return null;
+
+  if (!channel.parent_id) return { channel, category: null };
+
+  const { data: category, error: categoryError } = await supabase
+    .from('channels')
+    .select('*')
+    .eq('guild_id', guildId)
+    .eq('id', channel.parent_id)
+    .maybeSingle();
+
+  if (categoryError) throw categoryError;
+  return { channel, category: category || null };
+}
+
+/**
+ * All-time totals for one channel: messages, voice minutes, who took part
+ * and when it's busiest. Returns null if the channel doesn't exist. The
+ * per-member and per-hour sums come from the database, so the work here
+ * doesn't grow with the channel's history.
+ */
+export async function getChannelDetail(
+  guildId: string,
+  channelId: string,
+  viewer: Viewer
+): Promise<ChannelDetail | null> {
+  const found = await getChannel(guildId, channelId);
+  if (!found) return null;
+
+  const [participants, hourlyResult, hiddenUserIds] = await Promise.all([
+    fetchAllRows<ParticipantRow>((from, to) =>
+      supabase
+        .rpc('get_channel_participants', {
+          p_guild_id: guildId,
+          p_channel_id: channelId,
+        })
+        .order('user_id', { ascending: true })
+        .range(from, to)
+    ),
+    supabase.rpc('get_channel_hourly_activity', {
+      p_guild_id: guildId,
+      p_channel_id: channelId,
+    }),
+    getHiddenUserIds(guildId, viewer),
+  ]);
+
+  if (hourlyResult.error) throw hourlyResult.error;
+
+  const hourlyMessages = new Array<number>(24).fill(0);
+  const hourlyVoiceMinutes = new Array<number>(24).fill(0);
+  ((hourlyResult.data || []) as HourlyRow[]).forEach((row) => {
+    if (row.hour < 0 || row.hour >= 24) return;
+    hourlyMessages[row.hour] = row.message_count || 0;
+    hourlyVoiceMinutes[row.hour] = Math.round(row.voice_minutes || 0);
+  });
+
+  let messageCount = 0;
+  let voiceMinutes = 0;
+  participants.forEach((p) => {
+    messageCount += p.message_count || 0;
+    voiceMinutes += p.voice_minutes || 0;
+  });
+
+  const voiceFirst = isVoiceChannel(found.channel);
+  const top = participants
+    .filter((p) => !hiddenUserIds.has(p.user_id))
+    .map((p) => ({
+      user_id: p.user_id,
+      message_count: p.message_count || 0,
+      voice_minutes: Math.round(p.voice_minutes || 0),
+    }))
+    .sort((a, b) =>
+      voiceFirst
+        ? b.voice_minutes - a.voice_minutes || b.message_count - a.message_count
+        : b.message_count - a.message_count || b.voice_minutes - a.voice_minutes
+    )
+    .slice(0, TOP_PARTICIPANTS_LIMIT);
+
+  let topParticipants: ChannelParticipant[] = [];
+  if (top.length > 0) {
+    const { data: members, error } = await supabase
+      .from('members')
+      .select('user_id, username, display_name, avatar_url')
+      .eq('guild_id', guildId)
+      .in('user_id', top.map((p) => p.user_id));
+
+    if (error) throw error;
+
+    const memberMap = new Map((members || []).map((m) => [m.user_id, m]));
+    topParticipants = top.map((p) => {
+      const member = memberMap.get(p.user_id);
+      return {
+        ...p,
+        username: member?.username || null,
+        display_name: member?.display_name || null,
+        avatar_url: member?.avatar_url || null,
+      };
+    });
+  }
+
+  return {
+    channel: found.channel,
+    category: found.category,
+    message_count: messageCount,
+    voice_minutes: Math.round(voiceMinutes),
+    unique_participants: participants.length,
+    topParticipants,
+    hourlyMessages,
+    hourlyVoiceMinutes,
+  };
+}
+
+/**
+ * Messages and voice minutes in one channel per UTC day, for the activity chart.
+ * get_channel_daily_activity returns one row per active day in the range.
+ */
+export async function getChannelDailyActivity(
+  guildId: string,
+  channelId: string,
+  days: number
+): Promise<DailyActivityStats[]> {
+  // Same range as the server chart: from `days` ago through tomorrow (UTC)
+  const startDate = new Date();
+  startDate.setUTCDate(startDate.getUTCDate() - days);
+  const startDateStr = getUTCDateString(startDate);
+
+  const endDate = new Date();
+  endDate.setUTCDate(endDate.getUTCDate() + 1);
+
+  const { data, error } = await supabase.rpc('get_channel_daily_activity', {
+    p_guild_id: guildId,
+    p_channel_id: channelId,
+    p_start: startDateStr,
+  });
+
+  if (error) throw error;
+
+  const dateMap = new Map(((data || []) as DailyRow[]).map((row) => [row.date, row]));
+
+  const result: DailyActivityStats[] = [];
+  const currentDate = new Date(startDate);
+
+  while (currentDate <= endDate) {
+    const dateStr = getUTCDateString(currentDate);
+    const stats = dateMap.get(dateStr);
+    result.push({
+      date: dateStr,
+      messages: stats?.message_count || 0,
+      voiceMinutes: Math.round(stats?.voice_minutes || 0),
+    });
+    currentDate.setUTCDate(currentDate.getUTCDate() + 1);
+  }
+
+  return result;
+}
@@ -0,0 +1,84 @@
+import { supabase } from '../supabase';
+import { ComparedMember, EarnedAchievement, MemberComparison, Viewer } from '@/types';
+import { getMemberProfile, getMemberTopChannels, getMemberTopEmojis } from './profile';
+import { getMemberRank } from './members';
+import { getMemberAchievements } from './achievements';
+import { getSharedVoiceTime } from './voice-connections';
+
+const TOP_LIMIT = 5;
+
+async function getComparedMember(
+  guildId: string,
+  userId: string,
+  viewer: Viewer
+): Promise<ComparedMember | null> {
+  const profile = await getMemberProfile(guildId, userId, viewer);
+  if (!profile) return null;
+
+  const [rank, topEmojis, topChannels, achievements] = await Promise.all([
+    getMemberRank(guildId, userId),
+    getMemberTopEmojis(guildId, userId, TOP_LIMIT),
+    getMemberTopChannels(guildId, userId, TOP_LIMIT),
+    getMemberAchievements(guildId, userId),
+  ]);
+
+  // Attach channel names
+  const { data: channels, error } = await supabase
+    .from('channels')
+    .select('id, name')
+    .in('id', topChannels.map((c) => c.channelId));
+
+  if (error) throw error;
+
+  const channelMap = new Map((channels || []).map((c) => [c.id, c.name]));
+
+  return {
+    profile,
+    rank,
+    topEmojis,
+    topChannels: topChannels.map((c) => ({
+      ...c,
+      channelName: channelMap.get(c.channelId) || null,
+    })),
+    achievements,
+  };
+}
+
+function missingFrom(
+  achievements: EarnedAchievement[],
+  other: EarnedAchievement[]
+): EarnedAchievement[] {
+  const otherIds = new Set(other.map((a) => a.id));
+  return achievements.filter((a) => !otherIds.has(a.id));
+}
+
+/**
+ * Put two members side by side. Returns null if either member doesn't exist
+ * or is hidden from this viewer.
+ */
+export async function getMemberComparison(
+  guildId: string,
+  userA: string,
+  userB: string,
+  viewer: Viewer
+): Promise<MemberComparison | null> {
+  const [a, b] = await Promise.all([
+    getComparedMember(guildId, userA, viewer),
+    getComparedMember(guildId, userB, viewer),
+  ]);
+
+  if (!a || !b) return null;
+
+  const sharedVoice = await getSharedVoiceTime(guildId, userA, userB);
+  const onlyA = missingFrom(a.achievements, b.achievements);
+  const onlyB = missingFrom(b.achievements, a.achievements);
+
+  return {
+    a,
+    b,
+    sharedVoice,
+    onlyA,
+    onlyB,
+    sharedAchievementCount: a.achievements.length - onlyA.length,
+  };
+}
@@ -0,0 +1,303 @@
+import { supabase } from '../supabase';
+import { getSupabaseAdmin } from '../supabase-admin';
+import { DiagnosticSession, SessionOverlap, VoicePairDiagnostics } from '@/types';
+import { fetchAllRows } from './paging';
+
+// An open session older than this almost certainly missed its leave event
+export const STALE_SESSION_HOURS = 12;
+
+// Longer than a day is treated as suspicious rather than a real session
+export const MAX_PLAUSIBLE_DURATION_SECONDS = 24 * 60 * 60;
+
+// How far back to scan for overlapping sessions
+export const OVERLAP_WINDOW_DAYS = 30;
+
+// Cap on rows shown per check
+const MAX_RESULTS = 100;
+
+const SESSION_COLUMNS =
+  'id, guild_id, user_id, channel_id, joined_at, left_at, duration_seconds, was_streaming, was_video';
+
+type RawSession = Omit<DiagnosticSession, 'username' | 'display_name' | 'channel_name'>;
+
+/**
+ * Attach member and channel names to raw sessions.
+ */
+async function withNames(guildId: string, sessions: RawSession[]): Promise<DiagnosticSession[]> {
+  if (sessions.length === 0) return [];
+
+  const userIds = Array.from(new Set(sessions.map((s) => s.user_id)));
+  const channelIds = Array.from(new Set(sessions.map((s) => s.channel_id)));
+
+  const [membersResult, channelsResult] = await Promise.all([
+    supabase
+      .from('members')
+      .select('user_id, username, display_name')
+      .eq('guild_id', guildId)
+      .in('user_id', userIds),
+    supabase
+      .from('channels')
+      .select('id, name')
+      .in('id', channelIds),
+  ]);
+
+  if (membersResult.error) throw membersResult.error;
+  if (channelsResult.error) throw channelsResult.error;
+
+  const memberMap = new Map((membersResult.data || []).map((m) => [m.user_id, m]));
+  const channelMap = new Map((channelsResult.data || []).map((c) => [c.id, c.name]));
+
+  return sessions.map((s) => ({
+    ...s,
+    username: memberMap.get(s.user_id)?.username || null,
+    display_name: memberMap.get(s.user_id)?.display_name || null,
+    channel_name: channelMap.get(s.channel_id) || null,
+  }));
+}
+
+/**
+ * Open sessions that joined before this are treated as stale.
+ */
+export function getStaleSessionCutoff(): string {
+  return new Date(Date.now() - STALE_SESSION_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+function getSessionEnd(session: { left_at: string | null }, now: number): number {
+  return session.left_at ? new Date(session.left_at).getTime() : now;
+}
+
+/**
+ * Sessions still open (left_at IS NULL) long after they should have closed.
+ */
+export async function getStaleSessions(guildId: string): Promise<DiagnosticSession[]> {
+  const { data, error } = await supabase
+    .from('voice_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('guild_id', guildId)
+    .is('left_at', null)
+    .lt('joined_at', getStaleSessionCutoff())
+    .order('joined_at', { ascending: true })
+    .limit(MAX_RESULTS);
+
+  if (error) throw error;
+
+  return withNames(guildId, data || []);
+}
+
+/**
+ * Closed sessions with a negative or implausibly long duration_seconds.
+ */
+export async function getSuspiciousDurationSessions(guildId: string): Promise<DiagnosticSession[]> {
+  const { data, error } = await supabase
+    .from('voice_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('guild_id', guildId)
+    .or(`duration_seconds.lt.0,duration_seconds.gt.${MAX_PLAUSIBLE_DURATION_SECONDS}`)
+    .order('joined_at', { ascending: false })
+    .limit(MAX_RESULTS);
+
+  if (error) throw error;
+
+  return withNames(guildId, data || []);
+}
+
+/**
+ * Sessions for the same user that overlap in time. A member can only be in one
+ * voice channel at once, so any overlap is a duplicate recording.
+ */
+export async function getOverlappingSessions(guildId: string): Promise<SessionOverlap[]> {
+  const since = new Date(Date.now() - OVERLAP_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const sessions = await fetchAllRows<RawSession>((from, to) =>
+    supabase
+      .from('voice_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('guild_id', guildId)
+      .gte('joined_at', since)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  // Group by user, then walk each user's sessions in join order
+  const byUser = new Map<string, RawSession[]>();
+  sessions.forEach((s) => {
+    const list = byUser.get(s.user_id) || [];
+    list.push(s);
+    byUser.set(s.user_id, list);
+  });
+
+  const now = Date.now();
+  const pairs: { first: RawSession; second: RawSession; overlap_seconds: number }[] = [];
+
+  byUser.forEach((list) => {
+    list.sort((a, b) => new Date(a.joined_at).getTime() - new Date(b.joined_at).getTime());
+
+    // Compare each session with the one that reaches furthest so far
+    let furthest = list[0];
+    for (let i = 1; i < list.length; i++) {
+      const current = list[i];
+      const currentStart = new Date(current.joined_at).getTime();
+      const furthestEnd = getSessionEnd(furthest, now);
+
+      if (currentStart < furthestEnd) {
+        const overlapEnd = Math.min(furthestEnd, getSessionEnd(current, now));
+        pairs.push({
+          first: furthest,
+          second: current,
+          overlap_seconds: Math.round((overlapEnd - currentStart) / 1000),
+        });
+      }
+
+      if (getSessionEnd(current, now) > furthestEnd) {
+        furthest = current;
+      }
+    }
+  });
+
+  const shown = pairs
+    .sort((a, b) => new Date(b.second.joined_at).getTime() - new Date(a.second.joined_at).getTime())
+    .slice(0, MAX_RESULTS);
+
+  // One name lookup for every session we're about to show; pairs stay in order
+  const named = await withNames(guildId, shown.flatMap((p) => [p.first, p.second]));
+
+  return shown.map((p, i) => ({
+    first: named[i * 2],
+    second: named[i * 2 + 1],
+    overlap_seconds: p.overlap_seconds,
+  }));
+}
+
+/**
+ * Compare two members' voice totals with their shared same-channel time,
+ * fresh and as cached in voice_connections.
+ */
+export async function getVoicePairDiagnostics(
+  guildId: string,
+  userA: string,
+  userB: string
+): Promise<VoicePairDiagnostics> {
+  const sessions = await fetchAllRows<{
+    user_id: string;
+    channel_id: string;
+    joined_at: string;
+    left_at: string | null;
+  }>((from, to) =>
+    supabase
+      .from('voice_sessions')
+      .select('id, user_id, channel_id, joined_at, left_at')
+      .eq('guild_id', guildId)
+      .in('user_id', [userA, userB])
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  const [membersResult, cachedResult] = await Promise.all([
+    supabase
+      .from('members')
+      .select('user_id, username')
+      .eq('guild_id', guildId)
+      .in('user_id', [userA, userB]),
+    supabase
+      .from('voice_connections')
+      .select('shared_seconds, calculated_at')
+      .eq('guild_id', guildId)
+      .eq('time_range', 'all')
+      .or(
+        `and(user_id_1.eq.${userA},user_id_2.eq.${userB}),and(user_id_1.eq.${userB},user_id_2.eq.${userA})`
+      )
+      .maybeSingle(),
+  ]);
+
+  if (membersResult.error) throw membersResult.error;
+  if (cachedResult.error) throw cachedResult.error;
+
+  const now = Date.now();
+  const sessionsA = sessions.filter((s) => s.user_id === userA);
+  const sessionsB = sessions.filter((s) => s.user_id === userB);
+
+  const total = (list: typeof sessions) =>
+    Math.round(
+      list.reduce((sum, s) => sum + getSessionEnd(s, now) - new Date(s.joined_at).getTime(), 0) / 1000
+    );
+
+  // Same-channel overlap, matching calculate_voice_connections
+  let sharedMs = 0;
+  sessionsA.forEach((a) => {
+    const aStart = new Date(a.joined_at).getTime();
+    const aEnd = getSessionEnd(a, now);
+    sessionsB.forEach((b) => {
+      if (a.channel_id !== b.channel_id) return;
+      const start = Math.max(aStart, new Date(b.joined_at).getTime());
+      const end = Math.min(aEnd, getSessionEnd(b, now));
+      if (end > start) sharedMs += end - start;
+    });
+  });
+
+  const usernames = new Map((membersResult.data || []).map((m) => [m.user_id, m.username]));
+
+  return {
+    user_a: {
+      user_id: userA,
+      username: usernames.get(userA) || null,
+      total_seconds: total(sessionsA),
+      session_count: sessionsA.length,
+    },
+    user_b: {
+      user_id: userB,
+      username: usernames.get(userB) || null,
+      total_seconds: total(sessionsB),
+      session_count: sessionsB.length,
+    },
+    shared_seconds: Math.round(sharedMs / 1000),
+    cached_shared_seconds: cachedResult.data?.shared_seconds ?? null,
+    cached_at: cachedResult.data?.calculated_at ?? null,
+  };
+}
+
+/**
+ * Close a stale session at the member's last recorded voice state change
+ * (or at its join time when there is none), so no phantom time is credited.
+ * Returns false if the session isn't open and stale anymore. Writes through the
+ * service-role client, so only call it from the admin diagnostics route.
+ */
+export async function closeStaleSession(guildId: string, sessionId: number): Promise<boolean> {
+  const { data: session, error } = await supabase
+    .from('voice_sessions')
+    .select('id, user_id, joined_at, left_at')
+    .eq('guild_id', guildId)
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!session || session.left_at) return false;
+  if (new Date(session.joined_at).getTime() >= new Date(getStaleSessionCutoff()).getTime()) return false;
+
+  const { data: lastChange, error: changeError } = await supabase
+    .from('voice_state_changes')
+    .select('created_at')
+    .eq('guild_id', guildId)
+    .eq('user_id', session.user_id)
+    .gte('created_at', session.joined_at)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (changeError) throw changeError;
+
+  const leftAt = lastChange?.created_at || session.joined_at;
+  const durationSeconds = Math.round(
+    (new Date(leftAt).getTime() - new Date(session.joined_at).getTime()) / 1000
+  );
+
+  // Only close it if the bot hasn't closed it in the meantime
+  const { data: updated, error: updateError } = await getSupabaseAdmin()
+    .from('voice_sessions')
+    .update({ left_at: leftAt, duration_seconds: durationSeconds })
+    .eq('guild_id', guildId)
+    .eq('id', sessionId)
+    .is('left_at', null)
+    .select('id');
+
+  if (updateError) throw updateError;
+  return (updated || []).length > 0;
+}
@@ -0,0 +1,220 @@
+import { supabase } from '../supabase';
+import {
+  EmojiTimeRange,
+  EmojiTrendPoint,
+  EmojiUsage,
+  RarelyUsedEmoji,
+  ServerEmojiStat,
+  ServerEmojiStats,
+  Viewer,
+} from '@/types';
+import { getUTCDateString } from '../utils';
+import { getHiddenUserIds } from './privacy';
+import { fetchAllRows } from './paging';
+
+const RANKING_LIMIT = 50;
+const TOP_USERS_LIMIT = 3;
+const TREND_EMOJI_LIMIT = 5;
+
+// Custom emojis used this rarely over the window are pruning candidates
+export const RARELY_USED_WINDOW_DAYS = 90;
+export const RARELY_USED_THRESHOLD = 3;
+
+interface EmojiRow {
+  user_id: string;
+  emoji: string;
+  emoji_id: string | null;
+  is_custom: boolean;
+  count: number;
+  date: string;
+}
+
+interface EmojiTotals extends EmojiUsage {
+  last_used: string;
+  users: Map<string, number>;
+}
+
+export function getEmojiKey(emoji: Pick<EmojiUsage, 'emoji' | 'emoji_id'>): string {
+  return emoji.emoji_id || emoji.emoji;
+}
+
+function getDaysAgo(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return getUTCDateString(date);
+}
+
+function getRangeStartDate(range: EmojiTimeRange): string | null {
+  if (range === 'all') return null;
+  return getDaysAgo(range === '30d' ? 30 : 90);
+}
+
+// Sunday starting the UTC week that contains this date
+function getWeekStart(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const utc = new Date(Date.UTC(year, month - 1, day));
+  utc.setUTCDate(utc.getUTCDate() - utc.getUTCDay());
+  return getUTCDateString(utc);
+}
+
+function totalUp(rows: EmojiRow[]): Map<string, EmojiTotals> {
+  const totals = new Map<string, EmojiTotals>();
+  rows.forEach((row) => {
+    const key = getEmojiKey(row);
+    let entry = totals.get(key);
+    if (!entry) {
+      entry = {
+        emoji: row.emoji,
+        emoji_id: row.emoji_id,
+        is_custom: row.is_custom,
+        total: 0,
+        last_used: row.date,
+        users: new Map(),
+      };
+      totals.set(key, entry);
+    }
+    entry.total += row.count;
+    if (row.date > entry.last_used) entry.last_used = row.date;
+    entry.users.set(row.user_id, (entry.users.get(row.user_id) || 0) + row.count);
+  });
+  return totals;
+}
+
+async function getGuildEmojiRows(guildId: string): Promise<EmojiRow[]> {
+  const rows = await fetchAllRows<EmojiRow>((from, to) =>
+    supabase
+      .from('emoji_usage')
+      .select('id, user_id, emoji, emoji_id, is_custom, count, date')
+      .eq('guild_id', guildId)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  return rows.map((row) => ({
+    user_id: row.user_id,
+    emoji: row.emoji,
+    emoji_id: row.emoji_id,
+    is_custom: row.is_custom,
+    count: row.count || 0,
+    date: row.date,
+  }));
+}
+
+/**
+ * Server-wide emoji usage for a time range: the ranking with each emoji's
+ * top users, usage over time for the leaders, and custom emojis that have
+ * barely been used lately.
+ */
+export async function getServerEmojiStats(
+  guildId: string,
+  range: EmojiTimeRange,
+  viewer: Viewer
+): Promise<ServerEmojiStats> {
+  const [allRows, hiddenUserIds] = await Promise.all([
+    getGuildEmojiRows(guildId),
+    getHiddenUserIds(guildId, viewer),
+  ]);
+
+  const startDate = getRangeStartDate(range);
+  const rows = startDate ? allRows.filter((r) => r.date >= startDate) : allRows;
+  const totals = Array.from(totalUp(rows).values()).sort((a, b) => b.total - a.total);
+
+  const ranked = totals.slice(0, RANKING_LIMIT);
+  const topUserIds = new Map<string, [string, number][]>();
+  ranked.forEach((entry) => {
+    topUserIds.set(
+      getEmojiKey(entry),
+      Array.from(entry.users.entries())
+        .filter(([userId]) => !hiddenUserIds.has(userId))
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_USERS_LIMIT)
+    );
+  });
+
+  const userIds = Array.from(
+    new Set(Array.from(topUserIds.values()).flatMap((users) => users.map(([userId]) => userId)))
+  );
+  let memberMap = new Map<string, { username: string | null; display_name: string | null; avatar_url: string | null }>();
+  if (userIds.length > 0) {
+    const { data: members, error } = await supabase
+      .from('members')
+      .select('user_id, username, display_name, avatar_url')
+      .eq('guild_id', guildId)
+      .in('user_id', userIds);
+
+    if (error) throw error;
+    memberMap = new Map((members || []).map((m) => [m.user_id, m]));
+  }
+
+  const ranking: ServerEmojiStat[] = ranked.map((entry) => ({
+    emoji: entry.emoji,
+    emoji_id: entry.emoji_id,
+    is_custom: entry.is_custom,
+    total: entry.total,
+    unique_users: entry.users.size,
+    last_used: entry.last_used,
+    topUsers: (topUserIds.get(getEmojiKey(entry)) || []).map(([userId, total]) => {
+      const member = memberMap.get(userId);
+      return {
+        user_id: userId,
+        username: member?.username || null,
+        display_name: member?.display_name || null,
+        avatar_url: member?.avatar_url || null,
+        total,
+      };
+    }),
+  }));
+
+  // Usage over time for the leaders, daily for a month and weekly beyond that
+  const trendEmojis = ranked.slice(0, TREND_EMOJI_LIMIT).map(({ emoji, emoji_id, is_custom, total }) => ({
+    emoji,
+    emoji_id,
+    is_custom,
+    total,
+  }));
+  const trendKeys = new Set(trendEmojis.map(getEmojiKey));
+  const trendBucket = range === '30d' ? 'day' : 'week';
+  const toBucket = (date: string) => (trendBucket === 'day' ? date : getWeekStart(date));
+
+  const buckets = new Map<string, Record<string, number>>();
+  const firstDate = startDate || rows.reduce((min, r) => (r.date < min ? r.date : min), getUTCDateString());
+  const cursor = new Date(`${toBucket(firstDate)}T00:00:00Z`);
+  const today = getUTCDateString();
+  while (getUTCDateString(cursor) <= today) {
+    buckets.set(getUTCDateString(cursor), {});
+    cursor.setUTCDate(cursor.getUTCDate() + (trendBucket === 'day' ? 1 : 7));
+  }
+  rows.forEach((row) => {
+    const key = getEmojiKey(row);
+    if (!trendKeys.has(key)) return;
+    const bucket = buckets.get(toBucket(row.date));
+    if (bucket) bucket[key] = (bucket[key] || 0) + row.count;
+  });
+  const trend: EmojiTrendPoint[] = Array.from(buckets.entries()).map(([date, counts]) => ({ date, counts }));
+
+  // Pruning candidates always look at the same window, whatever the range
+  const rareStart = getDaysAgo(RARELY_USED_WINDOW_DAYS);
+  const recentTotals = totalUp(allRows.filter((r) => r.is_custom && r.date >= rareStart));
+  const rarelyUsed: RarelyUsedEmoji[] = Array.from(totalUp(allRows.filter((r) => r.is_custom)).values())
+    .map((entry) => ({
+      emoji: entry.emoji,
+      emoji_id: entry.emoji_id,
+      is_custom: entry.is_custom,
+      total: entry.total,
+      recent_uses: recentTotals.get(getEmojiKey(entry))?.total || 0,
+      last_used: entry.last_used,
+    }))
+    .filter((entry) => entry.recent_uses <= RARELY_USED_THRESHOLD)
+    .sort((a, b) => a.recent_uses - b.recent_uses || a.last_used.localeCompare(b.last_used));
+
+  return {
+    totalUses: rows.reduce((sum, r) => sum + r.count, 0),
+    customUses: rows.filter((r) => r.is_custom).reduce((sum, r) => sum + r.count, 0),
+    uniqueEmojis: totals.length,
+    ranking,
+    trendEmojis,
+    trendBucket,
+    trend,
+    rarelyUsed,
+  };
+}
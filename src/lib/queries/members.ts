@@ -1,5 +1,6 @@
 import { supabase } from '../supabase';
 import { MemberWithLevel, LevelRole } from '@/types';
+import { fetchAllRows } from './paging';
 
 export type SortField = 'xp' | 'level' | 'message_count' | 'voice_minutes';
 export type SortOrder = 'asc' | 'desc';
@@ -13,13 +14,49 @@ interface GetMembersOptions {
   search?: string;
 }
 
-interface GetMembersResult {
+export interface GetMembersResult {
   members: MemberWithLevel[];
   totalCount: number;
   page: number;
   totalPages: number;
 }
 
+// Build a quoted ilike pattern for a PostgREST filter string. LIKE wildcards
+// (%, _) and its escape character are matched literally; * is dropped because
+// PostgREST treats it as a wildcard too.
+function toSearchPattern(search: string): string | null {
+  const term = search.replace(/\*/g, '').trim();
+  if (!term) return null;
+
+  const escaped = term.replace(/[\\%_]/g, '\\$&');
+  return `"%${escaped.replace(/[\\"]/g, '\\$&')}%"`;
+}
+
+function nameFilter(pattern: string): string {
+  return `username.ilike.${pattern},display_name.ilike.${pattern}`;
+}
+
+/**
+ * IDs of every member whose username or display name contains the search term.
+ * For filtering in memory; the list can be too long to send back in a query.
+ */
+export async function getMatchingUserIds(guildId: string, search: string): Promise<string[]> {
+  const pattern = toSearchPattern(search);
+  if (!pattern) return [];
+
+  const rows = await fetchAllRows<{ user_id: string }>((from, to) =>
+    supabase
+      .from('members')
+      .select('user_id')
+      .eq('guild_id', guildId)
+      .or(nameFilter(pattern))
+      .order('user_id', { ascending: true })
+      .range(from, to)
+  );
+
+  return rows.map((m) => m.user_id);
+}
+
 export async function getMembers({
   guildId,
   page = 1,
@@ -30,80 +67,32 @@ export async function getMembers({
 }: GetMembersOptions): Promise<GetMembersResult> {
   const offset = (page - 1) * limit;
 
-  // First get member levels
-  const { data: levelsData, error: levelsError, count } = await supabase
-    .from('member_levels')
+  // member_leaderboard joins names onto levels, so the name search, ordering,
+  // paging and total count all happen in this one query
+  let query = supabase
+    .from('member_leaderboard')
     .select('*', { count: 'exact' })
-    .eq('guild_id', guildId)
-    .order(sortBy, { ascending: sortOrder === 'asc' })
-    .range(offset, offset + limit - 1);
-
-  if (levelsError) throw levelsError;
+    .eq('guild_id', guildId);
 
-  if (!levelsData || levelsData.length === 0) {
-    return {
-      members: [],
-      totalCount: 0,
-      page,
-      totalPages: 0,
-    };
+  const pattern = toSearchPattern(search);
+  if (pattern) {
+    query = query.or(nameFilter(pattern));
   }
 
-  // Get user IDs to fetch member info
-  const userIds = levelsData.map((l) => l.user_id);
-
-  // Fetch member info for these users
-  const { data: membersData, error: membersError } = await supabase
-    .from('members')
-    .select('user_id, username, display_name, avatar_url')
-    .eq('guild_id', guildId)
-    .in('user_id', userIds);
-
-  if (membersError) throw membersError;
-
-  // Create a map for quick lookup
-  const memberMap = new Map(
-    (membersData || []).map((m) => [m.user_id, m])
-  );
+  const { data, error, count } = await query
+    .order(sortBy, { ascending: sortOrder === 'asc' })
+    .order('user_id', { ascending: true })
+    .range(offset, offset + limit - 1);
 
-  // Combine the data
-  let members: MemberWithLevel[] = levelsData.map((level) => {
-    const member = memberMap.get(level.user_id);
-    return {
-      id: level.id,
-      guild_id: level.guild_id,
-      user_id: level.user_id,
-      xp: level.xp,
-      level: level.level,
-      message_count: level.message_count,
-      voice_minutes: level.voice_minutes,
-      last_xp_at: level.last_xp_at,
-      created_at: level.created_at,
-      updated_at: level.updated_at,
-      username: member?.username || null,
-      display_name: member?.display_name || null,
-      avatar_url: member?.avatar_url || null,
-    };
-  });
-
-  // Filter by search if provided (client-side since we already have the data)
-  if (search) {
-    const searchLower = search.toLowerCase();
-    members = members.filter(
-      (m) =>
-        m.username?.toLowerCase().includes(searchLower) ||
-        m.display_name?.toLowerCase().includes(searchLower)
-    );
-  }
+  if (error) throw error;
 
   const totalCount = count || 0;
-  const totalPages = Math.ceil(totalCount / limit);
 
   return {
-    members,
+    members: (data || []) as MemberWithLevel[],
     totalCount,
     page,
-    totalPages,
+    totalPages: Math.ceil(totalCount / limit),
   };
 }
 
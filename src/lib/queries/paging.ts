@@ -0,0 +1,52 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+// Supabase caps each response at 1000 rows
+export const FETCH_PAGE_SIZE = 1000;
+
+type PageResponse<T> = PromiseLike<{ data: T[] | null; error: PostgrestError | null }>;
+
+/**
+ * Read every row of a query a page at a time. fetchPage is given the inclusive
+ * row range to request and must order the query on a unique column, otherwise
+ * pages can overlap or skip rows.
+ */
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PageResponse<T>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += FETCH_PAGE_SIZE) {
+    const { data, error } = await fetchPage(offset, offset + FETCH_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+
+    if (!data || data.length < FETCH_PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+// IDs per .in() filter, so the filter stays well inside a request URL
+export const IN_FILTER_BATCH_SIZE = 100;
+
+/**
+ * Run a query once per batch of IDs and combine the rows. For .in() lookups
+ * whose ID list can grow with the guild. Each batch must return fewer than
+ * FETCH_PAGE_SIZE rows, as one row per ID lookups do.
+ */
+export async function fetchInBatches<T>(
+  ids: string[],
+  fetchBatch: (batch: string[]) => PageResponse<T>
+): Promise<T[]> {
+  const batches: string[][] = [];
+  for (let i = 0; i < ids.length; i += IN_FILTER_BATCH_SIZE) {
+    batches.push(ids.slice(i, i + IN_FILTER_BATCH_SIZE));
+  }
+
+  const results = await Promise.all(batches.map((batch) => fetchBatch(batch)));
+  return results.flatMap(({ data, error }) => {
+    if (error) throw error;
+    return data || [];
+  });
+}
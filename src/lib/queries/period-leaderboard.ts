@@ -0,0 +1,230 @@
+import { supabase } from '../supabase';
+import { PeriodMemberStats } from '@/types';
+import { getUTCDateString } from '../utils';
+import { getMatchingUserIds } from './members';
+import { fetchAllRows } from './paging';
+
+export type PeriodSortField = 'xp_earned' | 'message_count' | 'reaction_count' | 'voice_minutes';
+
+export type LeaderboardPeriod = '7d' | '30d' | 'custom';
+
+// Inclusive range of UTC dates (YYYY-MM-DD), matching daily_member_stats.date
+export interface PeriodRange {
+  start: string;
+  end: string;
+}
+
+interface GetPeriodLeaderboardOptions {
+  guildId: string;
+  range: PeriodRange;
+  page?: number;
+  limit?: number;
+  sortBy?: PeriodSortField;
+  search?: string;
+}
+
+export interface GetPeriodLeaderboardResult {
+  members: PeriodMemberStats[];
+  totalCount: number;
+  page: number;
+  totalPages: number;
+  range: PeriodRange;
+  previousRange: PeriodRange;
+}
+
+interface PeriodTotals {
+  user_id: string;
+  xp_earned: number;
+  message_count: number;
+  reaction_count: number;
+  voice_minutes: number;
+}
+
+// Rolling windows ending today, not calendar weeks or months
+const PERIOD_DAYS: Record<Exclude<LeaderboardPeriod, 'custom'>, number> = {
+  '7d': 7,
+  '30d': 30,
+};
+
+// Longest custom window we will aggregate
+export const MAX_PERIOD_DAYS = 366;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseUTCDate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function addUTCDays(dateStr: string, days: number): string {
+  const date = parseUTCDate(dateStr);
+  date.setUTCDate(date.getUTCDate() + days);
+  return getUTCDateString(date);
+}
+
+function isValidDate(dateStr: string | undefined): dateStr is string {
+  return !!dateStr && DATE_PATTERN.test(dateStr) && !isNaN(parseUTCDate(dateStr).getTime());
+}
+
+/**
+ * Number of days covered by an inclusive range.
+ */
+export function getRangeLength(range: PeriodRange): number {
+  const ms = parseUTCDate(range.end).getTime() - parseUTCDate(range.start).getTime();
+  return Math.round(ms / (24 * 60 * 60 * 1000)) + 1;
+}
+
+/**
+ * Resolve a period (and optional custom dates) to an inclusive UTC date range.
+ * Rolling periods end today; invalid custom dates fall back to the last 7 days.
+ */
+export function getPeriodRange(
+  period: LeaderboardPeriod,
+  from?: string,
+  to?: string
+): PeriodRange {
+  const today = getUTCDateString(new Date());
+
+  if (period === 'custom' && isValidDate(from) && isValidDate(to)) {
+    const [start, end] = from <= to ? [from, to] : [to, from];
+    // Clamp overly long windows to the most recent MAX_PERIOD_DAYS
+    if (getRangeLength({ start, end }) > MAX_PERIOD_DAYS) {
+      return { start: addUTCDays(end, -(MAX_PERIOD_DAYS - 1)), end };
+    }
+    return { start, end };
+  }
+
+  const days = period === 'custom' ? PERIOD_DAYS['7d'] : PERIOD_DAYS[period];
+  return { start: addUTCDays(today, -(days - 1)), end: today };
+}
+
+/**
+ * The window of the same length immediately before the given range.
+ */
+export function getPreviousRange(range: PeriodRange): PeriodRange {
+  const length = getRangeLength(range);
+  return {
+    start: addUTCDays(range.start, -length),
+    end: addUTCDays(range.start, -1),
+  };
+}
+
+/**
+ * Each active member's totals over the range. get_period_member_totals sums
+ * daily_member_stats with a group by on the database, so only one row per
+ * member comes back however long the window is.
+ */
+async function getPeriodTotals(guildId: string, range: PeriodRange): Promise<PeriodTotals[]> {
+  return fetchAllRows<PeriodTotals>((from, to) =>
+    supabase
+      .rpc('get_period_member_totals', {
+        p_guild_id: guildId,
+        p_start: range.start,
+        p_end: range.end,
+      })
+      .order('user_id', { ascending: true })
+      .range(from, to)
+  );
+}
+
+// Rank members with activity in the sort field (highest first, XP as tiebreaker)
+function rankTotals(totals: PeriodTotals[], sortBy: PeriodSortField): PeriodTotals[] {
+  return totals
+    .filter((t) => t[sortBy] > 0)
+    .sort((a, b) => {
+      if (b[sortBy] !== a[sortBy]) return b[sortBy] - a[sortBy];
+      if (b.xp_earned !== a.xp_earned) return b.xp_earned - a.xp_earned;
+      return a.user_id.localeCompare(b.user_id);
+    });
+}
+
+/**
+ * Get a leaderboard of activity summed over a date range, with each member's
+ * rank movement compared to the previous window of the same length.
+ */
+export async function getPeriodLeaderboard({
+  guildId,
+  range,
+  page = 1,
+  limit = 20,
+  sortBy = 'xp_earned',
+  search = '',
+}: GetPeriodLeaderboardOptions): Promise<GetPeriodLeaderboardResult> {
+  const previousRange = getPreviousRange(range);
+
+  const [currentTotals, previousTotals, matchingUserIds] = await Promise.all([
+    getPeriodTotals(guildId, range),
+    getPeriodTotals(guildId, previousRange),
+    search.trim() ? getMatchingUserIds(guildId, search) : Promise.resolve(null),
+  ]);
+
+  const previousRanks = new Map<string, number>();
+  rankTotals(previousTotals, sortBy).forEach((t, index) => {
+    previousRanks.set(t.user_id, index + 1);
+  });
+
+  // Ranks are computed before the search filter so matches keep their real position
+  let ranked = rankTotals(currentTotals, sortBy).map((t, index) => {
+    const rank = index + 1;
+    const previousRank = previousRanks.get(t.user_id) ?? null;
+    return {
+      ...t,
+      rank,
+      previous_rank: previousRank,
+      rank_change: previousRank === null ? null : previousRank - rank,
+    };
+  });
+
+  if (matchingUserIds) {
+    const matching = new Set(matchingUserIds);
+    ranked = ranked.filter((t) => matching.has(t.user_id));
+  }
+
+  const totalCount = ranked.length;
+  const totalPages = Math.ceil(totalCount / limit);
+  const offset = (page - 1) * limit;
+  const pageEntries = ranked.slice(offset, offset + limit);
+
+  if (pageEntries.length === 0) {
+    return {
+      members: [],
+      totalCount,
+      page,
+      totalPages,
+      range,
+      previousRange,
+    };
+  }
+
+  // Fetch member info for this page only
+  const { data: membersData, error: membersError } = await supabase
+    .from('members')
+    .select('user_id, username, display_name, avatar_url')
+    .eq('guild_id', guildId)
+    .in('user_id', pageEntries.map((t) => t.user_id));
+
+  if (membersError) throw membersError;
+
+  const memberMap = new Map(
+    (membersData || []).map((m) => [m.user_id, m])
+  );
+
+  const members: PeriodMemberStats[] = pageEntries.map((entry) => {
+    const member = memberMap.get(entry.user_id);
+    return {
+      ...entry,
+      username: member?.username || null,
+      display_name: member?.display_name || null,
+      avatar_url: member?.avatar_url || null,
+    };
+  });
+
+  return {
+    members,
+    totalCount,
+    page,
+    totalPages,
+    range,
+    previousRange,
+  };
+}
@@ -0,0 +1,116 @@
+import { supabase } from '../supabase';
+import { getSupabaseAdmin } from '../supabase-admin';
+import { MemberPrivacy, PrivacyVisibility, Viewer } from '@/types';
+import { fetchAllRows } from './paging';
+
+export const DEFAULT_VISIBILITY: PrivacyVisibility = 'public';
+
+export const ANONYMOUS_VIEWER: Viewer = { userId: null, guildIds: [] };
+
+/**
+ * Can this viewer see a member's profile, voice history and friends?
+ * Members can always see themselves.
+ */
+export function canViewMember(
+  visibility: PrivacyVisibility,
+  viewer: Viewer,
+  guildId: string,
+  userId: string
+): boolean {
+  if (viewer.userId === userId) return true;
+  if (visibility === 'public') return true;
+  if (visibility === 'server') return viewer.guildIds.includes(guildId);
+  return false;
+}
+
+/**
+ * Get a member's privacy setting (public when they haven't chosen one).
+ */
+export async function getMemberVisibility(
+  guildId: string,
+  userId: string
+): Promise<PrivacyVisibility> {
+  const { data, error } = await supabase
+    .from('member_privacy')
+    .select('visibility')
+    .eq('guild_id', guildId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.visibility || DEFAULT_VISIBILITY;
+}
+
+/**
+ * Check a single member against the viewer.
+ */
+export async function canViewerSeeMember(
+  guildId: string,
+  userId: string,
+  viewer: Viewer
+): Promise<boolean> {
+  if (viewer.userId === userId) return true;
+  const visibility = await getMemberVisibility(guildId, userId);
+  return canViewMember(visibility, viewer, guildId, userId);
+}
+
+/**
+ * Get the IDs of members in a guild that this viewer is not allowed to see.
+ */
+export async function getHiddenUserIds(guildId: string, viewer: Viewer): Promise<Set<string>> {
+  const rows = await fetchAllRows<Pick<MemberPrivacy, 'user_id' | 'visibility'>>((from, to) =>
+    supabase
+      .from('member_privacy')
+      .select('user_id, visibility')
+      .eq('guild_id', guildId)
+      .neq('visibility', 'public')
+      .order('user_id', { ascending: true })
+      .range(from, to)
+  );
+
+  return new Set(
+    rows
+      .filter((row) => !canViewMember(row.visibility, viewer, guildId, row.user_id))
+      .map((row) => row.user_id)
+  );
+}
+
+/**
+ * Drop any connection that involves a hidden member.
+ */
+export function filterHiddenConnections<T extends { user_id_1: string; user_id_2: string }>(
+  connections: T[],
+  hiddenUserIds: Set<string>
+): T[] {
+  if (hiddenUserIds.size === 0) return connections;
+  return connections.filter(
+    (conn) => !hiddenUserIds.has(conn.user_id_1) && !hiddenUserIds.has(conn.user_id_2)
+  );
+}
+
+/**
+ * Save a member's privacy setting. Uses the service-role client, so only call it
+ * from the privacy route once the session user is known to be this member.
+ */
+export async function setMemberVisibility(
+  guildId: string,
+  userId: string,
+  visibility: PrivacyVisibility
+): Promise<MemberPrivacy> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('member_privacy')
+    .upsert(
+      {
+        guild_id: guildId,
+        user_id: userId,
+        visibility,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'guild_id,user_id' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
@@ -1,11 +1,16 @@
 import { supabase } from '../supabase';
-import { MemberWithLevel, DailyMemberStats, EmojiUsage, VoiceSession, VoiceStateChange } from '@/types';
+import { MemberWithLevel, DailyMemberStats, EmojiUsage, VoiceSession, VoiceStateChange, Viewer } from '@/types';
 import { getUTCDateString } from '../utils';
+import { canViewerSeeMember } from './privacy';
 
 export async function getMemberProfile(
   guildId: string,
-  userId: string
+  userId: string,
+  viewer: Viewer
 ): Promise<MemberWithLevel | null> {
+  // Private profiles look the same as missing ones to viewers who can't see them
+  if (!(await canViewerSeeMember(guildId, userId, viewer))) return null;
+
   // Fetch member levels
   const { data: levelData, error: levelError } = await supabase
     .from('member_levels')
@@ -297,9 +302,12 @@ export async function getMemberJoinDate(
 export async function getMemberVoiceSessions(
   guildId: string,
   userId: string,
+  viewer: Viewer,
   limit = 10,
   includeActive = true
 ): Promise<VoiceSession[]> {
+  if (!(await canViewerSeeMember(guildId, userId, viewer))) return [];
+
   // Get completed sessions
   const { data: completedSessions, error: completedError } = await supabase
     .from('voice_sessions')
@@ -362,9 +370,12 @@ export async function getMemberVoiceSessions(
 export async function getMemberVoiceStateChanges(
   guildId: string,
   userId: string,
+  viewer: Viewer,
   startTime: string,
   endTime: string
 ): Promise<VoiceStateChange[]> {
+  if (!(await canViewerSeeMember(guildId, userId, viewer))) return [];
+
   const { data, error } = await supabase
     .from('voice_state_changes')
     .select('*')
@@ -377,3 +388,39 @@ export async function getMemberVoiceStateChanges(
   if (error) throw error;
   return data || [];
 }
+
+export interface MemberVoiceActivity {
+  activeSession: (VoiceSession & { stateChanges: VoiceStateChange[] }) | null;
+  yearly: YearlyActivityDay[];
+}
+
+/**
+ * The member's session in progress (with its state changes) and this year's
+ * daily activity, for the profile timeline. Null if the member is hidden from
+ * this viewer.
+ */
+export async function getMemberVoiceActivity(
+  guildId: string,
+  userId: string,
+  viewer: Viewer
+): Promise<MemberVoiceActivity | null> {
+  if (!(await canViewerSeeMember(guildId, userId, viewer))) return null;
+
+  const [voiceSessions, yearly] = await Promise.all([
+    getMemberVoiceSessions(guildId, userId, viewer, 1, true),
+    getMemberYearlyActivityStats(guildId, userId),
+  ]);
+
+  const active = voiceSessions.find((s) => !s.left_at);
+  if (!active) return { activeSession: null, yearly };
+
+  const stateChanges = await getMemberVoiceStateChanges(
+    guildId,
+    userId,
+    viewer,
+    active.joined_at,
+    new Date().toISOString()
+  );
+
+  return { activeSession: { ...active, stateChanges }, yearly };
+}
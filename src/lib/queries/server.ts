@@ -1,6 +1,9 @@
 import { supabase } from '../supabase';
-import { Guild, ServerStats, ActiveVoiceSession } from '@/types';
+import { Guild, ServerStats, ServerSummary, ActiveVoiceSession, Viewer } from '@/types';
 import { getDayName, getUTCDateString } from '../utils';
+import { getHiddenUserIds } from './privacy';
+import { getServerHourOfWeekActivity, UTC_TIME_ZONE } from './activity-heatmap';
+import { getStaleSessionCutoff } from './diagnostics';
 
 export async function getAllServers(): Promise<Guild[]> {
   const { data, error } = await supabase
@@ -12,6 +15,65 @@ export async function getAllServers(): Promise<Guild[]> {
   return data || [];
 }
 
+/**
+ * Members in voice right now, per guild. Counted on the database, and stale
+ * sessions that never recorded a leave are left out.
+ */
+export async function getActiveVoiceCounts(): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc('get_active_voice_counts', {
+    p_joined_after: getStaleSessionCutoff(),
+  });
+
+  if (error) throw error;
+
+  const counts: Record<string, number> = {};
+  ((data || []) as { guild_id: string; active_count: number }[]).forEach((row) => {
+    counts[row.guild_id] = row.active_count;
+  });
+  return counts;
+}
+
+/**
+ * Finished voice seconds per guild, or for just one guild.
+ */
+async function getVoiceSecondsByGuild(guildId: string | null): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc('get_guild_voice_seconds', { p_guild_id: guildId });
+
+  if (error) throw error;
+  return new Map(
+    ((data || []) as { guild_id: string; voice_seconds: number }[]).map((row) => [
+      row.guild_id,
+      row.voice_seconds,
+    ])
+  );
+}
+
+export async function getServerSummaries(): Promise<ServerSummary[]> {
+  const [servers, activeCounts, voiceSeconds] = await Promise.all([
+    getAllServers(),
+    getActiveVoiceCounts(),
+    getVoiceSecondsByGuild(null),
+  ]);
+
+  // Member and message head counts per guild, fetched in parallel
+  return Promise.all(
+    servers.map(async (server) => {
+      const [memberCount, totalMessages] = await Promise.all([
+        getServerMemberCount(server.id),
+        getServerMessageCount(server.id),
+      ]);
+
+      return {
+        ...server,
+        memberCount,
+        totalMessages,
+        totalVoiceHours: Math.round((voiceSeconds.get(server.id) || 0) / 3600),
+        activeVoiceCount: activeCounts[server.id] || 0,
+      };
+    })
+  );
+}
+
 export async function getServer(guildId: string): Promise<Guild | null> {
   const { data, error } = await supabase
     .from('guilds')
@@ -26,110 +88,63 @@ export async function getServer(guildId: string): Promise<Guild | null> {
   return data;
 }
 
-export async function getServerStats(guildId: string): Promise<ServerStats> {
-  // Run all queries in parallel
-  const [messagesResult, voiceResult, xpResult, membersResult, activeDayResult, peakHourResult] = await Promise.all([
-    // Total messages
-    supabase
-      .from('messages')
-      .select('*', { count: 'exact', head: true })
-      .eq('guild_id', guildId),
+export async function getServerMessageCount(guildId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('messages')
+    .select('*', { count: 'exact', head: true })
+    .eq('guild_id', guildId);
 
-    // Total voice hours
-    supabase
-      .from('voice_sessions')
-      .select('duration_seconds')
-      .eq('guild_id', guildId)
-      .not('duration_seconds', 'is', null),
+  if (error) throw error;
+  return count || 0;
+}
 
-    // Total XP
-    supabase
-      .from('member_levels')
-      .select('xp')
-      .eq('guild_id', guildId),
+/**
+ * Total hours of finished voice sessions.
+ */
+export async function getServerVoiceHours(guildId: string): Promise<number> {
+  const voiceSeconds = await getVoiceSecondsByGuild(guildId);
+  return Math.round((voiceSeconds.get(guildId) || 0) / 3600);
+}
 
-    // Total members with XP
-    supabase
-      .from('member_levels')
-      .select('*', { count: 'exact', head: true })
-      .eq('guild_id', guildId),
+export async function getServerTotalXp(guildId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('get_guild_total_xp', { p_guild_id: guildId });
 
-    // Most active day (from daily stats)
-    supabase
-      .from('daily_member_stats')
-      .select('date, message_count')
-      .eq('guild_id', guildId),
+  if (error) throw error;
+  return data || 0;
+}
 
-    // Peak hour (from messages)
-    supabase
-      .from('messages')
-      .select('created_at')
-      .eq('guild_id', guildId)
-      .limit(1000),
+export async function getServerStats(guildId: string): Promise<ServerStats> {
+  // Run all queries in parallel
+  const [totalMessages, totalVoiceHours, totalXp, totalMembers, hourOfWeek] = await Promise.all([
+    getServerMessageCount(guildId),
+    getServerVoiceHours(guildId),
+    getServerTotalXp(guildId),
+    // Total members with XP
+    getServerMemberCount(guildId),
+    // Messages by UTC hour of the week, aggregated on the database, for the busiest day and hour
+    getServerHourOfWeekActivity(guildId, UTC_TIME_ZONE),
   ]);
 
-  // Calculate totals
-  const totalMessages = messagesResult.count || 0;
-
-  const totalVoiceSeconds = voiceResult.data?.reduce(
-    (sum, s) => sum + (s.duration_seconds || 0),
-    0
-  ) || 0;
-  const totalVoiceHours = Math.round(totalVoiceSeconds / 3600);
-
-  const totalXp = xpResult.data?.reduce((sum, m) => sum + (m.xp || 0), 0) || 0;
-
-  const totalMembers = membersResult.count || 0;
+  // Fold the hour-of-week grid into weekday and hour totals (both UTC)
+  const dayTotals = new Array<number>(7).fill(0);
+  const hourTotals = new Array<number>(24).fill(0);
+  hourOfWeek.messages.forEach((count, index) => {
+    dayTotals[Math.floor(index / 24)] += count;
+    hourTotals[index % 24] += count;
+  });
 
-  // Calculate most active day
+  // Calculate most active day (a UTC weekday, so it's labelled as such)
   let mostActiveDay: string | null = null;
-  if (activeDayResult.data && activeDayResult.data.length > 0) {
-    const dayTotals: Record<number, number> = {};
-    activeDayResult.data.forEach((stat) => {
-      // Parse date string directly to avoid timezone issues
-      // stat.date is in format "YYYY-MM-DD"
-      const [year, month, day] = stat.date.split('-').map(Number);
-      const date = new Date(year, month - 1, day); // Creates date in local timezone
-      const dayOfWeek = date.getDay();
-      dayTotals[dayOfWeek] = (dayTotals[dayOfWeek] || 0) + stat.message_count;
-    });
-
-    let maxDay = 0;
-    let maxCount = 0;
-    Object.entries(dayTotals).forEach(([day, count]) => {
-      if (count > maxCount) {
-        maxDay = parseInt(day);
-        maxCount = count;
-      }
-    });
-
-    if (maxCount > 0) {
-      mostActiveDay = getDayName(maxDay);
-    }
+  const maxDayCount = Math.max(...dayTotals);
+  if (maxDayCount > 0) {
+    mostActiveDay = getDayName(dayTotals.indexOf(maxDayCount));
   }
 
-  // Calculate peak hour (in UTC for consistent server-side calculation)
+  // Calculate peak hour (displays convert it to the viewer's timezone)
   let peakHour: number | null = null;
-  if (peakHourResult.data && peakHourResult.data.length > 0) {
-    const hourCounts: Record<number, number> = {};
-    peakHourResult.data.forEach((msg) => {
-      // Use UTC hours for consistent calculation regardless of server timezone
-      const hour = new Date(msg.created_at).getUTCHours();
-      hourCounts[hour] = (hourCounts[hour] || 0) + 1;
-    });
-
-    let maxHour = 0;
-    let maxCount = 0;
-    Object.entries(hourCounts).forEach(([hour, count]) => {
-      if (count > maxCount) {
-        maxHour = parseInt(hour);
-        maxCount = count;
-      }
-    });
-
-    if (maxCount > 0) {
-      peakHour = maxHour;
-    }
+  const maxHourCount = Math.max(...hourTotals);
+  if (maxHourCount > 0) {
+    peakHour = hourTotals.indexOf(maxHourCount);
   }
 
   return {
@@ -221,18 +236,23 @@ export async function getServerDailyActivity(
 }
 
 export async function getActiveVoiceSessions(
-  guildId: string
+  guildId: string,
+  viewer: Viewer
 ): Promise<ActiveVoiceSession[]> {
   // Get active sessions (where left_at is null)
-  const { data: sessionsData, error: sessionsError } = await supabase
-    .from('voice_sessions')
-    .select('id, guild_id, user_id, channel_id, joined_at')
-    .eq('guild_id', guildId)
-    .is('left_at', null)
-    .order('joined_at', { ascending: true });
+  const [{ data: allSessions, error: sessionsError }, hiddenUserIds] = await Promise.all([
+    supabase
+      .from('voice_sessions')
+      .select('id, guild_id, user_id, channel_id, joined_at')
+      .eq('guild_id', guildId)
+      .is('left_at', null)
+      .order('joined_at', { ascending: true }),
+    getHiddenUserIds(guildId, viewer),
+  ]);
 
   if (sessionsError) throw sessionsError;
-  if (!sessionsData || sessionsData.length === 0) return [];
+  const sessionsData = (allSessions || []).filter((s) => !hiddenUserIds.has(s.user_id));
+  if (sessionsData.length === 0) return [];
 
   // Get unique user IDs and channel IDs
   const userIds = Array.from(new Set(sessionsData.map((s) => s.user_id)));
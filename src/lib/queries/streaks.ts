@@ -0,0 +1,129 @@
+import { supabase } from '../supabase';
+import { Member, Streak, StreakActivity, StreakBoard, StreakDay, Viewer } from '@/types';
+import { computeMemberStreaks, STREAK_ACTIVITIES } from '../streaks';
+import { getUTCDateString } from '../utils';
+import { canViewerSeeMember, getHiddenUserIds } from './privacy';
+import { fetchAllRows, fetchInBatches } from './paging';
+
+// The server board only looks this far back, so longer runs are capped
+export const STREAK_BOARD_WINDOW_DAYS = 365;
+
+export const STREAK_BOARD_LIMIT = 10;
+
+/**
+ * All of a member's active UTC days, oldest first. Null when the viewer can't see them.
+ */
+export async function getMemberStreakDays(
+  guildId: string,
+  userId: string,
+  viewer: Viewer
+): Promise<StreakDay[] | null> {
+  if (!(await canViewerSeeMember(guildId, userId, viewer))) return null;
+
+  const rows = await fetchAllRows<StreakDay>((from, to) =>
+    supabase
+      .from('daily_member_stats')
+      .select('date, message_count, voice_minutes')
+      .eq('guild_id', guildId)
+      .eq('user_id', userId)
+      .order('date', { ascending: true })
+      .range(from, to)
+  );
+
+  return rows.map((row) => ({
+    date: row.date,
+    message_count: row.message_count || 0,
+    voice_minutes: row.voice_minutes || 0,
+  }));
+}
+
+async function getActiveDaysByUser(guildId: string, startDate: string): Promise<Map<string, StreakDay[]>> {
+  const rows = await fetchAllRows<StreakDay & { user_id: string }>((from, to) =>
+    supabase
+      .from('daily_member_stats')
+      .select('id, user_id, date, message_count, voice_minutes')
+      .eq('guild_id', guildId)
+      .gte('date', startDate)
+      .or('message_count.gt.0,voice_minutes.gt.0')
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  const byUser = new Map<string, StreakDay[]>();
+  rows.forEach((row) => {
+    if (!row.message_count && !row.voice_minutes) return;
+    const days = byUser.get(row.user_id) || [];
+    days.push({
+      date: row.date,
+      message_count: row.message_count || 0,
+      voice_minutes: row.voice_minutes || 0,
+    });
+    byUser.set(row.user_id, days);
+  });
+
+  return byUser;
+}
+
+/**
+ * The longest current daily streaks among the members the viewer can see, for
+ * each kind of activity. Streaks are judged against today in the viewer's
+ * timezone, so this runs on the server with the timezone the browser sends.
+ */
+export async function getStreakBoard(
+  guildId: string,
+  viewer: Viewer,
+  timeZone: string,
+  limit: number = STREAK_BOARD_LIMIT
+): Promise<StreakBoard> {
+  const start = new Date();
+  start.setUTCDate(start.getUTCDate() - STREAK_BOARD_WINDOW_DAYS);
+
+  const [hiddenUserIds, daysByUser] = await Promise.all([
+    getHiddenUserIds(guildId, viewer),
+    getActiveDaysByUser(guildId, getUTCDateString(start)),
+  ]);
+
+  const visible = Array.from(daysByUser.entries())
+    .filter(([userId]) => !hiddenUserIds.has(userId))
+    .map(([userId, days]) => ({ userId, streaks: computeMemberStreaks(days, timeZone) }));
+
+  const ranked = {} as Record<StreakActivity, { userId: string; streak: Streak }[]>;
+  STREAK_ACTIVITIES.forEach((activity) => {
+    ranked[activity] = visible
+      .map(({ userId, streaks }) => ({ userId, streak: streaks[activity].daily }))
+      .filter(({ streak }) => streak.current > 0)
+      .sort((a, b) => b.streak.current - a.streak.current || b.streak.longest - a.streak.longest)
+      .slice(0, limit);
+  });
+
+  // Only members that made the board need names
+  const boardUserIds = Array.from(
+    new Set(STREAK_ACTIVITIES.flatMap((activity) => ranked[activity].map((entry) => entry.userId)))
+  );
+  const members = await fetchInBatches<Pick<Member, 'user_id' | 'username' | 'display_name' | 'avatar_url'>>(
+    boardUserIds,
+    (batch) =>
+      supabase
+        .from('members')
+        .select('user_id, username, display_name, avatar_url')
+        .eq('guild_id', guildId)
+        .in('user_id', batch)
+  );
+  const memberMap = new Map(members.map((m) => [m.user_id, m]));
+
+  const board = {} as StreakBoard;
+  STREAK_ACTIVITIES.forEach((activity) => {
+    board[activity] = ranked[activity].map(({ userId, streak }) => {
+      const member = memberMap.get(userId);
+      return {
+        user_id: userId,
+        username: member?.username || null,
+        display_name: member?.display_name || null,
+        avatar_url: member?.avatar_url || null,
+        streak,
+      };
+    });
+  });
+
+  return board;
+}
@@ -6,8 +6,10 @@ import {
   ConnectionTimeRange,
   ServerActivityWeight,
   CombinedFriend,
+  Viewer,
 } from '@/types';
 import { calculateVoiceConnections } from './voice-connections';
+import { canViewerSeeMember, filterHiddenConnections, getHiddenUserIds } from './privacy';
 
 const TIME_RANGE_DAYS: Record<ConnectionTimeRange, number | null> = {
   '30d': 30,
@@ -326,14 +328,16 @@ async function getTextConnectionsWithMembersFallback(
 
 /**
  * Transform raw text connections into graph-ready format (nodes and edges).
+ * Members in hiddenUserIds are left out along with all of their edges.
  */
 export function transformToTextGraph(
-  connections: TextConnection[]
+  connections: TextConnection[],
+  hiddenUserIds: Set<string> = new Set()
 ): { nodes: TextGraphNode[]; edges: TextGraphEdge[] } {
   const nodeMap = new Map<string, TextGraphNode>();
 
   // Build edges and collect node data
-  const edges: TextGraphEdge[] = connections.map((conn) => {
+  const edges: TextGraphEdge[] = filterHiddenConnections(connections, hiddenUserIds).map((conn) => {
     // Add/update user 1
     const existing1 = nodeMap.get(conn.user_id_1);
     if (existing1) {
@@ -386,6 +390,7 @@ export function transformToTextGraph(
 export async function getTextGraph(
   guildId: string,
   timeRange: ConnectionTimeRange,
+  viewer: Viewer,
   maxAgeHours: number = 24
 ): Promise<{
   nodes: TextGraphNode[];
@@ -407,8 +412,11 @@ export async function getTextGraph(
   }
 
   // Fetch the connections
-  const connections = await getTextConnections(guildId, timeRange);
-  const { nodes, edges } = transformToTextGraph(connections);
+  const [connections, hiddenUserIds] = await Promise.all([
+    getTextConnections(guildId, timeRange),
+    getHiddenUserIds(guildId, viewer),
+  ]);
+  const { nodes, edges } = transformToTextGraph(connections, hiddenUserIds);
 
   const calculatedAt = isStale ? new Date() : lastCalculated;
 
@@ -426,8 +434,15 @@ export async function getTextGraph(
 export async function getTopTextFriends(
   guildId: string,
   userId: string,
+  viewer: Viewer,
   limit: number = 5
 ): Promise<CombinedFriend[]> {
+  const [canView, hiddenUserIds] = await Promise.all([
+    canViewerSeeMember(guildId, userId, viewer),
+    getHiddenUserIds(guildId, viewer),
+  ]);
+  if (!canView) return [];
+
   // Get text connections for this user
   const { data, error } = await supabase
     .from('text_connections')
@@ -436,17 +451,18 @@ export async function getTopTextFriends(
     .eq('time_range', 'all')
     .or(`user_id_1.eq.${userId},user_id_2.eq.${userId}`)
     .order('interaction_score', { ascending: false })
-    .limit(limit);
+    .limit(limit + hiddenUserIds.size);
 
   if (error) {
     console.warn('Failed to get text friends:', error);
     return [];
   }
 
-  if (!data || data.length === 0) return [];
+  const connections = filterHiddenConnections(data || [], hiddenUserIds).slice(0, limit);
+  if (connections.length === 0) return [];
 
   // Get friend user IDs
-  const friendIds = data.map((conn) =>
+  const friendIds = connections.map((conn) =>
     conn.user_id_1 === userId ? conn.user_id_2 : conn.user_id_1
   );
 
@@ -461,7 +477,7 @@ export async function getTopTextFriends(
     (members || []).map((m) => [m.user_id, m])
   );
 
-  return data.map((conn) => {
+  return connections.map((conn) => {
     const isUser1 = conn.user_id_1 === userId;
     const friendId = isUser1 ? conn.user_id_2 : conn.user_id_1;
     const member = memberMap.get(friendId);
@@ -487,8 +503,15 @@ export async function getTopTextFriends(
 export async function getCombinedTopFriends(
   guildId: string,
   userId: string,
+  viewer: Viewer,
   limit: number = 5
 ): Promise<CombinedFriend[]> {
+  const [canView, hiddenUserIds] = await Promise.all([
+    canViewerSeeMember(guildId, userId, viewer),
+    getHiddenUserIds(guildId, viewer),
+  ]);
+  if (!canView) return [];
+
   // Check if voice connections cache is stale and refresh if needed
   const maxAgeHours = 24;
   const { data: cacheCheck } = await supabase
@@ -593,6 +616,9 @@ export async function getCombinedTopFriends(
     });
   }
 
+  // Drop friends who have hidden themselves from this viewer
+  hiddenUserIds.forEach((id) => friendMap.delete(id));
+
   // Fetch member info for all friends
   const friendIds = Array.from(friendMap.keys());
   if (friendIds.length === 0) return [];
@@ -0,0 +1,26 @@
+import { supabase } from '../supabase';
+import { Guild } from '@/types';
+
+/**
+ * Get the guilds a user shares with the bot (any guild with a members row for them).
+ */
+export async function getUserGuilds(userId: string): Promise<Guild[]> {
+  const { data: memberRows, error: membersError } = await supabase
+    .from('members')
+    .select('guild_id')
+    .eq('user_id', userId);
+
+  if (membersError) throw membersError;
+  if (!memberRows || memberRows.length === 0) return [];
+
+  const guildIds = Array.from(new Set(memberRows.map((m) => m.guild_id)));
+
+  const { data, error } = await supabase
+    .from('guilds')
+    .select('*')
+    .in('id', guildIds)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
@@ -5,7 +5,9 @@ import {
   VoiceGraphEdge,
   VoiceConnectionTimeRange,
   TopFriend,
+  Viewer,
 } from '@/types';
+import { canViewerSeeMember, filterHiddenConnections, getHiddenUserIds } from './privacy';
 
 const TIME_RANGE_DAYS: Record<VoiceConnectionTimeRange, number | null> = {
   '30d': 30,
@@ -73,14 +75,16 @@ export async function getVoiceConnections(
 
 /**
  * Transform raw connections into graph-ready format (nodes and edges).
+ * Members in hiddenUserIds are left out along with all of their edges.
  */
 export function transformToGraph(
-  connections: VoiceConnection[]
+  connections: VoiceConnection[],
+  hiddenUserIds: Set<string> = new Set()
 ): { nodes: VoiceGraphNode[]; edges: VoiceGraphEdge[] } {
   const nodeMap = new Map<string, VoiceGraphNode>();
 
   // Build edges and collect node data
-  const edges: VoiceGraphEdge[] = connections.map((conn) => {
+  const edges: VoiceGraphEdge[] = filterHiddenConnections(connections, hiddenUserIds).map((conn) => {
     // Add/update user 1
     const existing1 = nodeMap.get(conn.user_id_1);
     if (existing1) {
@@ -133,6 +137,7 @@ export function transformToGraph(
 export async function getVoiceGraph(
   guildId: string,
   timeRange: VoiceConnectionTimeRange,
+  viewer: Viewer,
   maxAgeHours: number = 24
 ): Promise<{
   nodes: VoiceGraphNode[];
@@ -154,8 +159,11 @@ export async function getVoiceGraph(
   }
 
   // Fetch the connections
-  const connections = await getVoiceConnections(guildId, timeRange);
-  const { nodes, edges } = transformToGraph(connections);
+  const [connections, hiddenUserIds] = await Promise.all([
+    getVoiceConnections(guildId, timeRange),
+    getHiddenUserIds(guildId, viewer),
+  ]);
+  const { nodes, edges } = transformToGraph(connections, hiddenUserIds);
 
   // Get the updated timestamp
   const calculatedAt = isStale
@@ -191,8 +199,15 @@ async function hasActiveVoiceSessions(guildId: string): Promise<boolean> {
 export async function getTopFriends(
   guildId: string,
   userId: string,
+  viewer: Viewer,
   limit: number = 5
 ): Promise<TopFriend[]> {
+  const [canView, hiddenUserIds] = await Promise.all([
+    canViewerSeeMember(guildId, userId, viewer),
+    getHiddenUserIds(guildId, viewer),
+  ]);
+  if (!canView) return [];
+
   // Check if there are active sessions - if so, refresh the cache to include them
   const hasActiveSessions = await hasActiveVoiceSessions(guildId);
   if (hasActiveSessions) {
@@ -208,12 +223,12 @@ export async function getTopFriends(
     .eq('time_range', 'all')
     .or(`user_id_1.eq.${userId},user_id_2.eq.${userId}`)
     .order('shared_seconds', { ascending: false })
-    .limit(limit);
+    .limit(limit + hiddenUserIds.size);
 
   if (error) throw error;
 
   // Transform to TopFriend format (normalize so the friend is always the "other" user)
-  return (data || []).map((conn) => {
+  return filterHiddenConnections(data || [], hiddenUserIds).slice(0, limit).map((conn) => {
     const isUser1 = conn.user_id_1 === userId;
     return {
       user_id: isUser1 ? conn.user_id_2 : conn.user_id_1,
@@ -225,3 +240,26 @@ export async function getTopFriends(
     };
   });
 }
+
+/**
+ * Get the cached all-time shared voice time between two members, or null if they have none.
+ */
+export async function getSharedVoiceTime(
+  guildId: string,
+  userA: string,
+  userB: string
+): Promise<{ shared_seconds: number; session_count: number } | null> {
+  const { data, error } = await supabase
+    .from('voice_connections')
+    .select('shared_seconds, session_count')
+    .eq('guild_id', guildId)
+    .eq('time_range', 'all')
+    .or(
+      `and(user_id_1.eq.${userA},user_id_2.eq.${userB}),and(user_id_1.eq.${userB},user_id_2.eq.${userA})`
+    )
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
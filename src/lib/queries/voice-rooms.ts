@@ -0,0 +1,259 @@
+import { supabase } from '../supabase';
+import {
+  LiveVoiceRoom,
+  Member,
+  ServerVoiceTimelineChannel,
+  ServerVoiceTimelineSession,
+  VoiceMemberState,
+  VoiceOccupancyPoint,
+  VoiceSession,
+  VoiceStateChange,
+  Viewer,
+} from '@/types';
+import { applyVoiceStateChange, EMPTY_VOICE_STATE } from '../voice-state';
+import { getActiveVoiceSessions } from './server';
+import { getHiddenUserIds } from './privacy';
+import { fetchAllRows, fetchInBatches } from './paging';
+
+const OCCUPANCY_WINDOW_MS = 60 * 60 * 1000;
+const OCCUPANCY_STEP_MS = 5 * 60 * 1000;
+
+type MemberInfo = Pick<Member, 'user_id' | 'username' | 'display_name' | 'avatar_url'>;
+
+interface SessionInterval {
+  channel_id: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Get every state change since the earliest join, oldest first, for these
+ * members or (userIds null) for the whole guild.
+ */
+async function getStateChangesSince(
+  guildId: string,
+  userIds: string[] | null,
+  since: string,
+  until?: string
+): Promise<VoiceStateChange[]> {
+  if (userIds && userIds.length === 0) return [];
+
+  return fetchAllRows<VoiceStateChange>((from, to) => {
+    let query = supabase
+      .from('voice_state_changes')
+      .select('*')
+      .eq('guild_id', guildId)
+      .gte('created_at', since);
+
+    if (userIds) {
+      query = query.in('user_id', userIds);
+    }
+
+    if (until) {
+      query = query.lte('created_at', until);
+    }
+
+    return query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to);
+  });
+}
+
+/**
+ * Sample how many members were in a channel every few minutes over the last hour.
+ */
+function getOccupancy(intervals: SessionInterval[], now: number): VoiceOccupancyPoint[] {
+  const points: VoiceOccupancyPoint[] = [];
+  for (let time = now - OCCUPANCY_WINDOW_MS; time <= now; time += OCCUPANCY_STEP_MS) {
+    points.push({
+      time: new Date(time).toISOString(),
+      count: intervals.filter((i) => i.start <= time && i.end >= time).length,
+    });
+  }
+  return points;
+}
+
+/**
+ * Voice channels with who's in them right now, each member's mute, deafen,
+ * stream and camera state, and occupancy over the last hour. Channels that
+ * emptied out during the hour are included with no members.
+ */
+export async function getLiveVoiceRooms(guildId: string, viewer: Viewer): Promise<LiveVoiceRoom[]> {
+  const now = Date.now();
+  const windowStart = new Date(now - OCCUPANCY_WINDOW_MS).toISOString();
+
+  const [activeSessions, recentResult, hiddenUserIds] = await Promise.all([
+    getActiveVoiceSessions(guildId, viewer),
+    supabase
+      .from('voice_sessions')
+      .select('user_id, channel_id, joined_at, left_at')
+      .eq('guild_id', guildId)
+      .gte('left_at', windowStart),
+    getHiddenUserIds(guildId, viewer),
+  ]);
+
+  if (recentResult.error) throw recentResult.error;
+
+  // Replay each member's state changes since they joined
+  const earliestJoin = activeSessions.reduce(
+    (min, s) => (s.joined_at < min ? s.joined_at : min),
+    new Date(now).toISOString()
+  );
+  const stateChanges = await getStateChangesSince(
+    guildId,
+    Array.from(new Set(activeSessions.map((s) => s.user_id))),
+    earliestJoin
+  );
+
+  const members = activeSessions.map((session) => {
+    const joinedAt = new Date(session.joined_at).getTime();
+    const state = stateChanges
+      .filter((c) => c.user_id === session.user_id && new Date(c.created_at).getTime() >= joinedAt)
+      .reduce<VoiceMemberState>((s, c) => applyVoiceStateChange(s, c.event_type), EMPTY_VOICE_STATE);
+    return { ...session, state };
+  });
+
+  // Occupancy counts the same members the viewer is allowed to see
+  const intervals: SessionInterval[] = [
+    ...activeSessions.map((s) => ({
+      channel_id: s.channel_id,
+      start: new Date(s.joined_at).getTime(),
+      end: now,
+    })),
+    ...(recentResult.data || [])
+      .filter((s) => !hiddenUserIds.has(s.user_id))
+      .map((s) => ({
+        channel_id: s.channel_id,
+        start: new Date(s.joined_at).getTime(),
+        end: new Date(s.left_at).getTime(),
+      })),
+  ];
+
+  const channelIds = Array.from(new Set(intervals.map((i) => i.channel_id)));
+  if (channelIds.length === 0) return [];
+
+  const { data: channels, error } = await supabase
+    .from('channels')
+    .select('id, name')
+    .in('id', channelIds);
+
+  if (error) throw error;
+
+  const channelMap = new Map((channels || []).map((c) => [c.id, c.name]));
+
+  return channelIds
+    .map((channelId) => ({
+      channel_id: channelId,
+      channel_name: channelMap.get(channelId) || null,
+      members: members.filter((m) => m.channel_id === channelId),
+      occupancy: getOccupancy(
+        intervals.filter((i) => i.channel_id === channelId),
+        now
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        b.members.length - a.members.length ||
+        (a.channel_name || '').localeCompare(b.channel_name || '')
+    );
+}
+
+/**
+ * Get every voice session that overlaps a time window, grouped by channel,
+ * with each session's state changes for drawing mute, deafen and stream
+ * overlays. Hidden members are left out.
+ */
+export async function getServerVoiceTimeline(
+  guildId: string,
+  viewer: Viewer,
+  start: string,
+  end: string
+): Promise<ServerVoiceTimelineChannel[]> {
+  const hiddenUserIds = await getHiddenUserIds(guildId, viewer);
+
+  const sessions = (
+    await fetchAllRows<VoiceSession>((from, to) =>
+      supabase
+        .from('voice_sessions')
+        .select('*')
+        .eq('guild_id', guildId)
+        .lt('joined_at', end)
+        .or(`left_at.is.null,left_at.gte.${start}`)
+        .order('joined_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    )
+  ).filter((s) => !hiddenUserIds.has(s.user_id));
+
+  if (sessions.length === 0) return [];
+
+  const userIds = Array.from(new Set(sessions.map((s) => s.user_id)));
+  const channelIds = Array.from(new Set(sessions.map((s) => s.channel_id)));
+
+  // A week can cover hundreds of members, too many for one .in() filter, so state
+  // changes are read guild-wide and members are looked up in batches. Sessions are
+  // ordered by join time, so the first one started earliest.
+  const [stateChanges, members, channelsResult] = await Promise.all([
+    getStateChangesSince(guildId, null, sessions[0].joined_at, end),
+    fetchInBatches<MemberInfo>(userIds, (batch) =>
+      supabase
+        .from('members')
+        .select('user_id, username, display_name, avatar_url')
+        .eq('guild_id', guildId)
+        .in('user_id', batch)
+    ),
+    supabase
+      .from('channels')
+      .select('id, name')
+      .in('id', channelIds),
+  ]);
+
+  if (channelsResult.error) throw channelsResult.error;
+
+  const memberMap = new Map(members.map((m) => [m.user_id, m]));
+  const channelMap = new Map((channelsResult.data || []).map((c) => [c.id, c.name]));
+
+  // Changes by hidden members never leave the server
+  const changesByUser = new Map<string, VoiceStateChange[]>();
+  stateChanges.forEach((change) => {
+    if (hiddenUserIds.has(change.user_id)) return;
+    const list = changesByUser.get(change.user_id) || [];
+    list.push(change);
+    changesByUser.set(change.user_id, list);
+  });
+
+  const channels = new Map<string, ServerVoiceTimelineSession[]>();
+  sessions.forEach((session) => {
+    const member = memberMap.get(session.user_id);
+    const joinedAt = new Date(session.joined_at).getTime();
+    const leftAt = new Date(session.left_at || end).getTime();
+
+    const list = channels.get(session.channel_id) || [];
+    list.push({
+      id: session.id,
+      user_id: session.user_id,
+      username: member?.username || null,
+      display_name: member?.display_name || null,
+      avatar_url: member?.avatar_url || null,
+      joined_at: session.joined_at,
+      left_at: session.left_at,
+      // A member is only in one channel at a time, so time alone places each change
+      stateChanges: (changesByUser.get(session.user_id) || []).filter(
+        (c) => {
+          const changedAt = new Date(c.created_at).getTime();
+          return changedAt >= joinedAt && changedAt <= leftAt;
+        }
+      ),
+    });
+    channels.set(session.channel_id, list);
+  });
+
+  return Array.from(channels.entries())
+    .map(([channelId, channelSessions]) => ({
+      channel_id: channelId,
+      channel_name: channelMap.get(channelId) || null,
+      sessions: channelSessions,
+    }))
+    .sort((a, b) => (a.channel_name || '').localeCompare(b.channel_name || ''));
+}
@@ -0,0 +1,581 @@
+import { supabase } from '../supabase';
+import {
+  ChannelMessageCount,
+  EarnedAchievement,
+  EmojiUsage,
+  MemberWrapped,
+  ServerWrapped,
+  Viewer,
+  WrappedBusiestDay,
+  WrappedMember,
+  WrappedStreak,
+} from '@/types';
+import { resolveAchievement } from '../achievements';
+import { getUTCDateString } from '../utils';
+import { getAchievementDefinitionMap } from './achievement-definitions';
+import { canViewerSeeMember, getHiddenUserIds } from './privacy';
+import { fetchAllRows } from './paging';
+
+// Discord launched in 2015, so there is nothing to wrap before it
+export const FIRST_WRAPPED_YEAR = 2015;
+
+const TOP_LIMIT = 5;
+
+interface YearBounds {
+  startDate: string; // UTC dates, inclusive
+  endDate: string;
+  startIso: string; // Timestamps, end exclusive
+  endIso: string;
+}
+
+interface DailyRow {
+  user_id: string;
+  date: string;
+  message_count: number;
+  voice_minutes: number;
+  xp_earned: number;
+}
+
+export function isValidWrappedYear(year: number): boolean {
+  return Number.isInteger(year) && year >= FIRST_WRAPPED_YEAR && year <= new Date().getUTCFullYear();
+}
+
+/**
+ * Years that can be wrapped, newest first, starting from when the bot joined.
+ */
+export function getWrappedYears(since: string | null): number[] {
+  const currentYear = new Date().getUTCFullYear();
+  const firstYear = Math.max(
+    FIRST_WRAPPED_YEAR,
+    since ? new Date(since).getUTCFullYear() : currentYear
+  );
+
+  const years: number[] = [];
+  for (let year = currentYear; year >= firstYear; year--) {
+    years.push(year);
+  }
+  return years;
+}
+
+function getYearBounds(year: number): YearBounds {
+  return {
+    startDate: `${year}-01-01`,
+    endDate: `${year}-12-31`,
+    startIso: new Date(Date.UTC(year, 0, 1)).toISOString(),
+    endIso: new Date(Date.UTC(year + 1, 0, 1)).toISOString(),
+  };
+}
+
+function getNextUTCDate(dateStr: string): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return getUTCDateString(new Date(Date.UTC(year, month - 1, day + 1)));
+}
+
+function isActive(row: DailyRow): boolean {
+  return row.message_count > 0 || row.voice_minutes > 0;
+}
+
+/**
+ * Longest run of consecutive UTC dates.
+ */
+function getLongestStreak(dates: string[]): WrappedStreak | null {
+  const sorted = Array.from(new Set(dates)).sort();
+  if (sorted.length === 0) return null;
+
+  let best: WrappedStreak = { days: 1, start: sorted[0], end: sorted[0] };
+  let current: WrappedStreak = { ...best };
+
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] === getNextUTCDate(current.end)) {
+      current = { ...current, days: current.days + 1, end: sorted[i] };
+    } else {
+      current = { days: 1, start: sorted[i], end: sorted[i] };
+    }
+    if (current.days > best.days) best = current;
+  }
+
+  return best;
+}
+
+/**
+ * The day with the most combined activity (messages plus voice minutes).
+ */
+function getBusiestDay(rows: DailyRow[]): WrappedBusiestDay | null {
+  const byDate = new Map<string, WrappedBusiestDay>();
+  rows.forEach((row) => {
+    const existing = byDate.get(row.date) || { date: row.date, message_count: 0, voice_minutes: 0 };
+    existing.message_count += row.message_count;
+    existing.voice_minutes += row.voice_minutes;
+    byDate.set(row.date, existing);
+  });
+
+  let busiest: WrappedBusiestDay | null = null;
+  byDate.forEach((day) => {
+    const score = day.message_count + day.voice_minutes;
+    if (score > 0 && (!busiest || score > busiest.message_count + busiest.voice_minutes)) {
+      busiest = day;
+    }
+  });
+  return busiest;
+}
+
+/**
+ * "Top X%" among the values of all active members, or null when the member had none.
+ */
+function getTopPercent(values: number[], value: number): number | null {
+  if (value <= 0 || values.length === 0) return null;
+  const above = values.filter((v) => v > value).length;
+  return Math.max(1, Math.ceil(((above + 1) / values.length) * 100));
+}
+
+async function getYearDailyStats(
+  guildId: string,
+  bounds: YearBounds,
+  userId?: string
+): Promise<DailyRow[]> {
+  const rows = await fetchAllRows<DailyRow>((from, to) => {
+    let query = supabase
+      .from('daily_member_stats')
+      .select('id, user_id, date, message_count, voice_minutes, xp_earned')
+      .eq('guild_id', guildId)
+      .gte('date', bounds.startDate)
+      .lte('date', bounds.endDate);
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    return query.order('id', { ascending: true }).range(from, to);
+  });
+
+  return rows.map((row) => ({
+    user_id: row.user_id,
+    date: row.date,
+    message_count: row.message_count || 0,
+    voice_minutes: row.voice_minutes || 0,
+    xp_earned: row.xp_earned || 0,
+  }));
+}
+
+async function getYearTopEmojis(
+  guildId: string,
+  bounds: YearBounds,
+  userId?: string
+): Promise<EmojiUsage[]> {
+  const rows = await fetchAllRows<Omit<EmojiUsage, 'total'> & { count: number }>((from, to) => {
+    let query = supabase
+      .from('emoji_usage')
+      .select('id, emoji, emoji_id, is_custom, count')
+      .eq('guild_id', guildId)
+      .gte('date', bounds.startDate)
+      .lte('date', bounds.endDate);
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    return query.order('id', { ascending: true }).range(from, to);
+  });
+
+  const emojiMap = new Map<string, EmojiUsage>();
+  rows.forEach((row) => {
+    const existing = emojiMap.get(row.emoji);
+    if (existing) {
+      existing.total += row.count;
+    } else {
+      emojiMap.set(row.emoji, {
+        emoji: row.emoji,
+        emoji_id: row.emoji_id,
+        is_custom: row.is_custom,
+        total: row.count,
+      });
+    }
+  });
+
+  return Array.from(emojiMap.values())
+    .sort((a, b) => b.total - a.total)
+    .slice(0, TOP_LIMIT);
+}
+
+async function getYearAchievements(
+  guildId: string,
+  bounds: YearBounds,
+  userId?: string
+): Promise<{ achievements: EarnedAchievement[]; unlockCount: number }> {
+  const records = await fetchAllRows<{ achievement_id: string; earned_at: string; xp_awarded: number }>(
+    (from, to) => {
+      let query = supabase
+        .from('member_achievements')
+        .select('id, achievement_id, earned_at, xp_awarded')
+        .eq('guild_id', guildId)
+        .gte('earned_at', bounds.startIso)
+        .lt('earned_at', bounds.endIso);
+
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      return query
+        .order('earned_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to);
+    }
+  );
+
+  // Keep the first unlock of each achievement (all of them, for a single member),
+  // including IDs that no longer have a definition
+  const definitions = await getAchievementDefinitionMap(guildId);
+  const seen = new Set<string>();
+  const achievements: EarnedAchievement[] = [];
+  records.forEach((record) => {
+    const definition = resolveAchievement(definitions, record.achievement_id);
+    if (seen.has(definition.id)) return;
+    seen.add(definition.id);
+    achievements.push({
+      ...definition,
+      earned_at: record.earned_at,
+      xp_awarded: record.xp_awarded,
+    });
+  });
+
+  return { achievements, unlockCount: records.length };
+}
+
+async function withChannelNames(
+  counts: Map<string, number>
+): Promise<ChannelMessageCount[]> {
+  const top = Array.from(counts.entries())
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_LIMIT);
+
+  if (top.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('channels')
+    .select('id, name')
+    .in('id', top.map(([id]) => id));
+
+  if (error) throw error;
+
+  const nameMap = new Map((data || []).map((c) => [c.id, c.name]));
+  return top.map(([channelId, messageCount]) => ({
+    channelId,
+    channelName: nameMap.get(channelId) || null,
+    messageCount,
+  }));
+}
+
+async function getMemberYearTopChannels(
+  guildId: string,
+  userId: string,
+  bounds: YearBounds
+): Promise<ChannelMessageCount[]> {
+  const messages = await fetchAllRows<{ channel_id: string }>((from, to) =>
+    supabase
+      .from('messages')
+      .select('id, channel_id')
+      .eq('guild_id', guildId)
+      .eq('user_id', userId)
+      .gte('created_at', bounds.startIso)
+      .lt('created_at', bounds.endIso)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  const counts = new Map<string, number>();
+  messages.forEach((msg) => {
+    counts.set(msg.channel_id, (counts.get(msg.channel_id) || 0) + 1);
+  });
+
+  return withChannelNames(counts);
+}
+
+async function getServerYearTopChannels(
+  guildId: string,
+  bounds: YearBounds
+): Promise<ChannelMessageCount[]> {
+  const { data: channels, error } = await supabase
+    .from('channels')
+    .select('id')
+    .eq('guild_id', guildId);
+
+  if (error) throw error;
+
+  // A head count per channel is far cheaper than paging through a year of messages
+  const results = await Promise.all(
+    (channels || []).map(async (channel) => {
+      const { count, error: countError } = await supabase
+        .from('messages')
+        .select('*', { count: 'exact', head: true })
+        .eq('guild_id', guildId)
+        .eq('channel_id', channel.id)
+        .gte('created_at', bounds.startIso)
+        .lt('created_at', bounds.endIso);
+
+      if (countError) throw countError;
+      return [channel.id, count || 0] as const;
+    })
+  );
+
+  return withChannelNames(new Map(results));
+}
+
+/**
+ * Shared same-channel voice seconds for every pair of members during the year,
+ * keyed "userA:userB" with the IDs in sorted order.
+ */
+async function getYearVoiceOverlaps(
+  guildId: string,
+  bounds: YearBounds
+): Promise<Map<string, number>> {
+  const yearStart = new Date(bounds.startIso).getTime();
+  const yearEnd = Math.min(new Date(bounds.endIso).getTime(), Date.now());
+  const sessions = await fetchAllRows<{
+    user_id: string;
+    channel_id: string;
+    joined_at: string;
+    left_at: string | null;
+  }>((from, to) =>
+    supabase
+      .from('voice_sessions')
+      .select('id, user_id, channel_id, joined_at, left_at')
+      .eq('guild_id', guildId)
+      .lt('joined_at', bounds.endIso)
+      .or(`left_at.gte.${bounds.startIso},left_at.is.null`)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  const byChannel = new Map<string, { user_id: string; start: number; end: number }[]>();
+  sessions.forEach((s) => {
+    // Clip sessions that cross the year boundary
+    const start = Math.max(new Date(s.joined_at).getTime(), yearStart);
+    const end = Math.min(s.left_at ? new Date(s.left_at).getTime() : Date.now(), yearEnd);
+    if (end <= start) return;
+
+    const list = byChannel.get(s.channel_id) || [];
+    list.push({ user_id: s.user_id, start, end });
+    byChannel.set(s.channel_id, list);
+  });
+
+  const overlaps = new Map<string, number>();
+
+  byChannel.forEach((sessions) => {
+    sessions.sort((a, b) => a.start - b.start);
+    let active: typeof sessions = [];
+
+    sessions.forEach((session) => {
+      active = active.filter((other) => other.end > session.start);
+      active.forEach((other) => {
+        if (other.user_id === session.user_id) return;
+        const key = [other.user_id, session.user_id].sort().join(':');
+        const seconds = (Math.min(other.end, session.end) - session.start) / 1000;
+        overlaps.set(key, (overlaps.get(key) || 0) + seconds);
+      });
+      active.push(session);
+    });
+  });
+
+  return overlaps;
+}
+
+async function getMemberInfo(
+  guildId: string,
+  userIds: string[]
+): Promise<Map<string, WrappedMember>> {
+  if (userIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('members')
+    .select('user_id, username, display_name, avatar_url')
+    .eq('guild_id', guildId)
+    .in('user_id', userIds);
+
+  if (error) throw error;
+
+  return new Map((data || []).map((m) => [m.user_id, m]));
+}
+
+function unknownMember(userId: string): WrappedMember {
+  return { user_id: userId, username: null, display_name: null, avatar_url: null };
+}
+
+/**
+ * A member's year in review. Returns null if the member doesn't exist or is
+ * hidden from this viewer.
+ */
+export async function getMemberWrapped(
+  guildId: string,
+  userId: string,
+  year: number,
+  viewer: Viewer
+): Promise<MemberWrapped | null> {
+  if (!(await canViewerSeeMember(guildId, userId, viewer))) return null;
+
+  const memberInfo = await getMemberInfo(guildId, [userId]);
+  const member = memberInfo.get(userId);
+  if (!member) return null;
+
+  const bounds = getYearBounds(year);
+
+  const [guildRows, topEmojis, { achievements }, topChannels, overlaps, hiddenUserIds] =
+    await Promise.all([
+      getYearDailyStats(guildId, bounds),
+      getYearTopEmojis(guildId, bounds, userId),
+      getYearAchievements(guildId, bounds, userId),
+      getMemberYearTopChannels(guildId, userId, bounds),
+      getYearVoiceOverlaps(guildId, bounds),
+      getHiddenUserIds(guildId, viewer),
+    ]);
+
+  const memberRows = guildRows.filter((row) => row.user_id === userId);
+
+  // Yearly totals for everyone, for percentile ranks
+  const totals = new Map<string, { messages: number; voice: number; xp: number }>();
+  guildRows.forEach((row) => {
+    const existing = totals.get(row.user_id) || { messages: 0, voice: 0, xp: 0 };
+    existing.messages += row.message_count;
+    existing.voice += row.voice_minutes;
+    existing.xp += row.xp_earned;
+    totals.set(row.user_id, existing);
+  });
+  const allTotals = Array.from(totals.values());
+  const own = totals.get(userId) || { messages: 0, voice: 0, xp: 0 };
+
+  // Friends are the members this one shared the most voice time with
+  const friendSeconds: { user_id: string; shared_seconds: number }[] = [];
+  overlaps.forEach((seconds, key) => {
+    const [first, second] = key.split(':');
+    if (first !== userId && second !== userId) return;
+    const friendId = first === userId ? second : first;
+    if (hiddenUserIds.has(friendId)) return;
+    friendSeconds.push({ user_id: friendId, shared_seconds: Math.round(seconds) });
+  });
+  const topFriendSeconds = friendSeconds
+    .sort((a, b) => b.shared_seconds - a.shared_seconds)
+    .slice(0, TOP_LIMIT);
+  const friendInfo = await getMemberInfo(guildId, topFriendSeconds.map((f) => f.user_id));
+
+  return {
+    year,
+    member,
+    totalMessages: own.messages,
+    totalVoiceMinutes: own.voice,
+    totalXp: own.xp,
+    activeDays: memberRows.filter(isActive).length,
+    longestStreak: getLongestStreak(memberRows.filter(isActive).map((row) => row.date)),
+    busiestDay: getBusiestDay(memberRows),
+    topEmojis,
+    topChannels,
+    achievements,
+    topFriends: topFriendSeconds.map((f) => ({
+      ...(friendInfo.get(f.user_id) || unknownMember(f.user_id)),
+      shared_seconds: f.shared_seconds,
+    })),
+    percentiles: {
+      messages: getTopPercent(allTotals.map((t) => t.messages).filter((v) => v > 0), own.messages),
+      voice: getTopPercent(allTotals.map((t) => t.voice).filter((v) => v > 0), own.voice),
+      xp: getTopPercent(allTotals.map((t) => t.xp).filter((v) => v > 0), own.xp),
+    },
+  };
+}
+
+/**
+ * The whole server's year in review.
+ */
+export async function getServerWrapped(
+  guildId: string,
+  year: number,
+  viewer: Viewer
+): Promise<ServerWrapped> {
+  const bounds = getYearBounds(year);
+
+  const [rows, topEmojis, { achievements, unlockCount }, topChannels, overlaps, hiddenUserIds] =
+    await Promise.all([
+      getYearDailyStats(guildId, bounds),
+      getYearTopEmojis(guildId, bounds),
+      getYearAchievements(guildId, bounds),
+      getServerYearTopChannels(guildId, bounds),
+      getYearVoiceOverlaps(guildId, bounds),
+      getHiddenUserIds(guildId, viewer),
+    ]);
+
+  // Per-member totals and active dates
+  const totals = new Map<string, { xp_earned: number; message_count: number; voice_minutes: number }>();
+  const activeDates = new Map<string, string[]>();
+  rows.forEach((row) => {
+    const existing = totals.get(row.user_id) || { xp_earned: 0, message_count: 0, voice_minutes: 0 };
+    existing.xp_earned += row.xp_earned;
+    existing.message_count += row.message_count;
+    existing.voice_minutes += row.voice_minutes;
+    totals.set(row.user_id, existing);
+
+    if (isActive(row)) {
+      const dates = activeDates.get(row.user_id) || [];
+      dates.push(row.date);
+      activeDates.set(row.user_id, dates);
+    }
+  });
+
+  // The longest streak any visible member managed
+  let longestStreak: WrappedStreak | null = null;
+  let streakHolderId: string | null = null;
+  activeDates.forEach((dates, memberId) => {
+    if (hiddenUserIds.has(memberId)) return;
+    const streak = getLongestStreak(dates);
+    if (streak && (!longestStreak || streak.days > longestStreak.days)) {
+      longestStreak = streak;
+      streakHolderId = memberId;
+    }
+  });
+
+  const topMemberTotals = Array.from(totals.entries())
+    .filter(([id, t]) => t.xp_earned > 0 && !hiddenUserIds.has(id))
+    .sort((a, b) => b[1].xp_earned - a[1].xp_earned)
+    .slice(0, TOP_LIMIT);
+
+  // Rankings leave out anyone hidden from this viewer, like the connection graph
+  const topDuoSeconds = Array.from(overlaps.entries())
+    .map(([key, seconds]) => ({ ids: key.split(':'), shared_seconds: Math.round(seconds) }))
+    .filter(({ ids }) => !hiddenUserIds.has(ids[0]) && !hiddenUserIds.has(ids[1]))
+    .sort((a, b) => b.shared_seconds - a.shared_seconds)
+    .slice(0, TOP_LIMIT);
+
+  const info = await getMemberInfo(
+    guildId,
+    Array.from(
+      new Set([
+        ...topMemberTotals.map(([id]) => id),
+        ...topDuoSeconds.flatMap((d) => d.ids),
+        ...(streakHolderId ? [streakHolderId] : []),
+      ])
+    )
+  );
+  const lookup = (id: string) => info.get(id) || unknownMember(id);
+
+  const sum = (key: 'xp_earned' | 'message_count' | 'voice_minutes') =>
+    Array.from(totals.values()).reduce((total, t) => total + t[key], 0);
+
+  return {
+    year,
+    totalMessages: sum('message_count'),
+    totalVoiceMinutes: sum('voice_minutes'),
+    totalXp: sum('xp_earned'),
+    activeDays: new Set(rows.filter(isActive).map((row) => row.date)).size,
+    activeMembers: activeDates.size,
+    achievementUnlocks: unlockCount,
+    longestStreak,
+    streakHolder: streakHolderId ? lookup(streakHolderId) : null,
+    busiestDay: getBusiestDay(rows),
+    topEmojis,
+    topChannels,
+    achievements,
+    topMembers: topMemberTotals.map(([id, t]) => ({ ...lookup(id), ...t })),
+    topDuos: topDuoSeconds.map((d) => ({
+      a: lookup(d.ids[0]),
+      b: lookup(d.ids[1]),
+      shared_seconds: d.shared_seconds,
+    })),
+  };
+}
@@ -0,0 +1,14 @@
+import { StreakBoard } from '@/types';
+
+/**
+ * Load the server streak board from the browser. The route ranks members on
+ * the server against today in the given timezone, leaving out hidden members.
+ */
+export async function fetchStreakBoard(guildId: string, timeZone: string, limit: number): Promise<StreakBoard> {
+  const query = new URLSearchParams({ timeZone, limit: String(limit) });
+  const response = await fetch(`/api/streaks/${guildId}?${query}`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to load streaks: ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,96 @@
+import { MemberStreaks, Streak, StreakActivity, StreakDay, StreakPeriod } from '@/types';
+import { getDateStringInTimeZone, getTimeZoneName } from './utils';
+
+export const STREAK_ACTIVITIES: StreakActivity[] = ['combined', 'voice', 'text'];
+
+const EMPTY_STREAK: Streak = { current: 0, longest: 0, lastActive: null, atRisk: false };
+
+// Plain calendar arithmetic on YYYY-MM-DD strings, independent of any timezone
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return shifted.toISOString().slice(0, 10);
+}
+
+// Sunday starting the week that contains this date
+function getWeekStart(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return addDays(date, -new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+}
+
+/**
+ * Does a day count towards a streak of this kind?
+ */
+export function isActiveDay(day: StreakDay, activity: StreakActivity): boolean {
+  if (activity === 'voice') return day.voice_minutes > 0;
+  if (activity === 'text') return day.message_count > 0;
+  return day.voice_minutes > 0 || day.message_count > 0;
+}
+
+/**
+ * Re-key UTC daily stats onto the calendar of a timezone, merging any days that land on the same date.
+ */
+export function toLocalStreakDays(days: StreakDay[], timeZone: string): StreakDay[] {
+  const byDate = new Map<string, StreakDay>();
+  days.forEach((day) => {
+    // Noon UTC lands on the same calendar day everywhere within ±12 hours
+    const date = getDateStringInTimeZone(new Date(`${day.date}T12:00:00Z`), timeZone);
+    const entry = byDate.get(date) || { date, message_count: 0, voice_minutes: 0 };
+    entry.message_count += day.message_count;
+    entry.voice_minutes += day.voice_minutes;
+    byDate.set(date, entry);
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Current and longest run of consecutive active days or weeks.
+ * A run that reached yesterday (or last week) is still current but at risk
+ * until there's activity today (or this week).
+ */
+export function computeStreak(dates: string[], period: StreakPeriod, today: string): Streak {
+  const keys = period === 'daily' ? dates : dates.map(getWeekStart);
+  const step = period === 'daily' ? 1 : 7;
+  const sorted = Array.from(new Set(keys)).sort();
+  if (sorted.length === 0) return { ...EMPTY_STREAK };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < sorted.length; i++) {
+    run = sorted[i] === addDays(sorted[i - 1], step) ? run + 1 : 1;
+    if (run > longest) longest = run;
+  }
+
+  // `run` is now the streak ending at the most recent active day or week
+  const lastActive = sorted[sorted.length - 1];
+  const thisPeriod = period === 'daily' ? today : getWeekStart(today);
+  const previousPeriod = addDays(thisPeriod, -step);
+  const isOngoing = lastActive >= thisPeriod;
+  const atRisk = lastActive === previousPeriod;
+
+  return {
+    current: isOngoing || atRisk ? run : 0,
+    longest,
+    lastActive,
+    atRisk,
+  };
+}
+
+/**
+ * Every streak for a member from their UTC daily stats, judged against today in
+ * the given timezone. Defaults to the runtime's, which is the viewer's only in
+ * the browser, so server code must pass the viewer's timezone in.
+ */
+export function computeMemberStreaks(days: StreakDay[], timeZone: string = getTimeZoneName()): MemberStreaks {
+  const today = getDateStringInTimeZone(new Date(), timeZone);
+  const localDays = toLocalStreakDays(days, timeZone);
+  const streaks = {} as MemberStreaks;
+  STREAK_ACTIVITIES.forEach((activity) => {
+    const dates = localDays.filter((day) => isActiveDay(day, activity)).map((day) => day.date);
+    streaks[activity] = {
+      daily: computeStreak(dates, 'daily', today),
+      weekly: computeStreak(dates, 'weekly', today),
+    };
+  });
+  return streaks;
+}
@@ -0,0 +1,26 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let adminClient: SupabaseClient | null = null;
+
+/**
+ * Service-role client for writes that anon users aren't allowed to make.
+ * Server only: the key bypasses row level security, so only use this from
+ * route handlers after checking who is asking.
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (typeof window !== 'undefined') {
+    throw new Error('The service-role client can only be used on the server');
+  }
+
+  if (!adminClient) {
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!serviceRoleKey) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+    }
+    adminClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+
+  return adminClient;
+}
@@ -174,8 +174,8 @@ export function formatLocalDateTime(isoString: string): string {
   });
 }
 
-// Convert a UTC hour (0-23) to local hour and format it
-export function formatUtcHourToLocal(utcHour: number): string {
+// Convert a UTC hour (0-23) to the local hour (0-23)
+export function getLocalHourFromUtc(utcHour: number): number {
   // Create a date with the UTC hour
   const now = new Date();
   const utcDate = new Date(Date.UTC(
@@ -186,9 +186,39 @@ export function formatUtcHourToLocal(utcHour: number): string {
     0,
     0
   ));
-  // Get the local hour
-  const localHour = utcDate.getHours();
-  return formatHour(localHour);
+  return utcDate.getHours();
+}
+
+// Convert a UTC hour (0-23) to local hour and format it
+export function formatUtcHourToLocal(utcHour: number): string {
+  return formatHour(getLocalHourFromUtc(utcHour));
+}
+
+// Get the runtime's IANA timezone (e.g., "Europe/Berlin"), for bucketing on the database
+export function getTimeZoneName(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Check that a string is an IANA timezone this runtime knows, before using one sent by a client
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Get the date in an IANA timezone in YYYY-MM-DD format, wherever the code runs
+export function getDateStringInTimeZone(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
 }
 
 // Get the user's timezone offset as a string (e.g., "UTC-5", "UTC+2")
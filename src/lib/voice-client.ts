@@ -0,0 +1,26 @@
+import { LiveVoiceRoom, ServerVoiceTimelineChannel } from '@/types';
+
+/**
+ * Load live voice data from the browser. The voice routes check the signed-in
+ * viewer on the server, so hidden members are already left out.
+ */
+async function fetchVoiceData<T>(guildId: string, path: string): Promise<T> {
+  const response = await fetch(`/api/voice/${guildId}/${path}`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to load voice ${path}: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function fetchLiveVoiceRooms(guildId: string): Promise<LiveVoiceRoom[]> {
+  return fetchVoiceData(guildId, 'rooms');
+}
+
+export function fetchServerVoiceTimeline(
+  guildId: string,
+  start: string,
+  end: string
+): Promise<ServerVoiceTimelineChannel[]> {
+  const query = new URLSearchParams({ start, end });
+  return fetchVoiceData(guildId, `timeline?${query}`);
+}
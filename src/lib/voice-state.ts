@@ -0,0 +1,93 @@
+import { VoiceMemberState, VoiceStateChange, VoiceStateEventType } from '@/types';
+
+export const EMPTY_VOICE_STATE: VoiceMemberState = {
+  muted: false,
+  deafened: false,
+  streaming: false,
+  video: false,
+};
+
+// Apply one voice_state_changes event to a member's state
+export function applyVoiceStateChange(
+  state: VoiceMemberState,
+  eventType: VoiceStateEventType
+): VoiceMemberState {
+  switch (eventType) {
+    case 'mute':
+      return { ...state, muted: true };
+    case 'unmute':
+      return { ...state, muted: false };
+    case 'deafen':
+      return { ...state, deafened: true };
+    case 'undeafen':
+      return { ...state, deafened: false };
+    case 'stream_start':
+      return { ...state, streaming: true };
+    case 'stream_end':
+      return { ...state, streaming: false };
+    case 'video_start':
+      return { ...state, video: true };
+    case 'video_end':
+      return { ...state, video: false };
+    default:
+      return state;
+  }
+}
+
+// Bar colors for each voice state, strongest state wins
+export const VOICE_STATE_COLORS = {
+  normal: '#3ba55c',
+  muted: '#faa61a',
+  deafened: '#ed4245',
+  streaming: '#5865f2',
+  video: '#9b59b6',
+};
+
+export interface VoiceStateSegment {
+  start: number; // ms since epoch
+  end: number;
+  state: VoiceMemberState;
+}
+
+export function getVoiceStateColor(state: VoiceMemberState): string {
+  if (state.deafened) return VOICE_STATE_COLORS.deafened;
+  if (state.streaming) return VOICE_STATE_COLORS.streaming;
+  if (state.video) return VOICE_STATE_COLORS.video;
+  if (state.muted) return VOICE_STATE_COLORS.muted;
+  return VOICE_STATE_COLORS.normal;
+}
+
+export function getVoiceStateLabel(state: VoiceMemberState): string {
+  const states: string[] = [];
+  if (state.deafened) states.push('Deafened');
+  else if (state.muted) states.push('Muted');
+  if (state.streaming) states.push('Streaming');
+  if (state.video) states.push('Video');
+  return states.length > 0 ? states.join(', ') : 'Voice';
+}
+
+// Split a session into runs of unchanged state. Changes must be oldest first.
+export function getVoiceStateSegments(
+  start: number,
+  end: number,
+  changes: VoiceStateChange[]
+): VoiceStateSegment[] {
+  const segments: VoiceStateSegment[] = [];
+  let state = EMPTY_VOICE_STATE;
+  let lastTime = start;
+
+  for (const change of changes) {
+    const changeTime = Math.min(new Date(change.created_at).getTime(), end);
+    if (changeTime > lastTime) {
+      segments.push({ start: lastTime, end: changeTime, state });
+      lastTime = changeTime;
+    }
+    state = applyVoiceStateChange(state, change.event_type);
+  }
+
+  if (lastTime < end) {
+    segments.push({ start: lastTime, end, state });
+  }
+
+  return segments;
+}
@@ -49,6 +49,20 @@ export interface DailyMemberStats {
   xp_earned: number;
 }
 
+export interface PeriodMemberStats {
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  xp_earned: number;
+  message_count: number;
+  reaction_count: number;
+  voice_minutes: number;
+  rank: number;
+  previous_rank: number | null; // null when the member was inactive in the previous window
+  rank_change: number | null; // positive = moved up
+}
+
 export interface EmojiUsage {
   emoji: string;
   emoji_id: string | null;
@@ -61,8 +75,21 @@ export interface ServerStats {
   totalVoiceHours: number;
   totalXp: number;
   totalMembers: number;
-  mostActiveDay: string | null;
-  peakHour: number | null;
+  mostActiveDay: string | null; // Busiest weekday in UTC
+  peakHour: number | null; // UTC hour, displays convert it to the viewer's timezone
+}
+
+// 168 buckets indexed by day * 24 + hour, Sunday first
+export interface HourOfWeekActivity {
+  messages: number[];
+  voiceMinutes: number[];
+}
+
+export interface ServerSummary extends Guild {
+  memberCount: number;
+  totalMessages: number;
+  totalVoiceHours: number;
+  activeVoiceCount: number;
 }
 
 export interface LevelProgress {
@@ -179,6 +206,152 @@ export interface VoiceStateChange {
   created_at: string;
 }
 
+export interface VoiceMemberState {
+  muted: boolean;
+  deafened: boolean;
+  streaming: boolean;
+  video: boolean;
+}
+
+export interface LiveVoiceMember extends ActiveVoiceSession {
+  state: VoiceMemberState;
+}
+
+export interface VoiceOccupancyPoint {
+  time: string; // ISO timestamp of the sample
+  count: number;
+}
+
+export interface LiveVoiceRoom {
+  channel_id: string;
+  channel_name: string | null;
+  members: LiveVoiceMember[];
+  occupancy: VoiceOccupancyPoint[]; // Oldest first, ending now
+}
+
+export interface ServerVoiceTimelineSession {
+  id: number;
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  joined_at: string;
+  left_at: string | null;
+  stateChanges: VoiceStateChange[]; // Since the session started, oldest first
+}
+
+export interface ServerVoiceTimelineChannel {
+  channel_id: string;
+  channel_name: string | null;
+  sessions: ServerVoiceTimelineSession[];
+}
+
+// Channel Analytics Types
+export interface ChannelSummary extends Channel {
+  message_count: number;
+  voice_minutes: number; // Completed sessions only
+}
+
+export interface ChannelCategory {
+  id: string | null; // null for channels outside any category
+  name: string | null;
+  position: number;
+  channels: ChannelSummary[];
+}
+
+export interface ChannelDirectory {
+  categories: ChannelCategory[];
+  deleted: ChannelSummary[];
+}
+
+export interface ChannelParticipant {
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  message_count: number;
+  voice_minutes: number;
+}
+
+export interface ChannelDetail {
+  channel: Channel;
+  category: Channel | null;
+  message_count: number;
+  voice_minutes: number;
+  unique_participants: number;
+  topParticipants: ChannelParticipant[]; // Hidden members left out
+  hourlyMessages: number[]; // 24 UTC hours
+  hourlyVoiceMinutes: number[];
+}
+
+// Emoji Analytics Types
+export type EmojiTimeRange = '30d' | '90d' | 'all';
+
+export interface EmojiTopUser {
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  total: number;
+}
+
+export interface ServerEmojiStat extends EmojiUsage {
+  unique_users: number;
+  last_used: string; // UTC date
+  topUsers: EmojiTopUser[]; // Hidden members left out
+}
+
+export interface EmojiTrendPoint {
+  date: string; // UTC date starting the bucket
+  counts: Record<string, number>; // Keyed by emoji_id for custom emojis, else the emoji
+}
+
+export interface RarelyUsedEmoji extends EmojiUsage {
+  recent_uses: number;
+  last_used: string; // UTC date
+}
+
+export interface ServerEmojiStats {
+  totalUses: number;
+  customUses: number;
+  uniqueEmojis: number;
+  ranking: ServerEmojiStat[];
+  trendEmojis: EmojiUsage[];
+  trendBucket: 'day' | 'week';
+  trend: EmojiTrendPoint[];
+  rarelyUsed: RarelyUsedEmoji[];
+}
+
+// Streak Types
+export type StreakActivity = 'combined' | 'voice' | 'text';
+export type StreakPeriod = 'daily' | 'weekly';
+
+export interface StreakDay {
+  date: string; // YYYY-MM-DD
+  message_count: number;
+  voice_minutes: number;
+}
+
+export interface Streak {
+  current: number; // Days or weeks, depending on the period
+  longest: number;
+  lastActive: string | null; // Local date (daily) or Sunday starting the week (weekly)
+  atRisk: boolean; // Still running, but nothing yet this day or week
+}
+
+export type MemberStreaks = Record<StreakActivity, Record<StreakPeriod, Streak>>;
+
+export interface StreakBoardMember {
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  streak: Streak; // Daily streak in the board's activity
+}
+
+// Top current daily streaks for each kind of activity, longest first
+export type StreakBoard = Record<StreakActivity, StreakBoardMember[]>;
+
 // Text Connection Types
 export type ConnectionTimeRange = '30d' | '90d' | 'all';
 
@@ -234,7 +407,17 @@ export interface CombinedFriend {
 }
 
 // Achievement Types
-export type AchievementCategory = 'milestone' | 'streak' | 'time' | 'social' | 'activity' | 'fun' | 'reaction';
+export type AchievementCategory =
+  | 'milestone'
+  | 'streak'
+  | 'time'
+  | 'social'
+  | 'activity'
+  | 'fun'
+  | 'reaction'
+  | 'other';
+
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
 
 export interface AchievementDefinition {
   id: string;
@@ -242,6 +425,27 @@ export interface AchievementDefinition {
   description: string;
   category: AchievementCategory;
   xp: number;
+  family?: string | null; // Tiers of the same achievement share a family
+  tier?: AchievementTier | null;
+  hidden?: boolean; // Secret: description masked until earned
+  icon?: string | null; // Emoji or image URL shown instead of the category icon
+  guild_id?: string | null; // Set for a server's own custom achievements
+  unknown?: boolean; // Earned, but no longer defined anywhere
+}
+
+// Row in achievement_definitions; guild_id is null for definitions shared by every server
+export interface AchievementDefinitionRow {
+  id: string;
+  guild_id: string | null;
+  name: string;
+  description: string;
+  category: string;
+  xp: number;
+  family: string | null;
+  tier: AchievementTier | null;
+  is_hidden: boolean;
+  icon: string | null;
+  sort_order: number;
 }
 
 export interface MemberAchievement {
@@ -257,3 +461,289 @@ export interface EarnedAchievement extends AchievementDefinition {
   earned_at: string;
   xp_awarded: number;
 }
+
+export interface RecentUnlock extends EarnedAchievement {
+  unlock_id: number;
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+export type AchievementMetric = 'messages' | 'voice_minutes' | 'level' | 'daily_streak' | 'weekly_streak';
+
+export interface AchievementGoal {
+  metric: AchievementMetric;
+  target: number;
+}
+
+export interface AchievementProgress extends AchievementGoal {
+  achievement_id: string;
+  current: number; // Capped at the target
+}
+
+export type AchievementRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+
+export interface AchievementEarner {
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  earned_at: string;
+}
+
+export interface AchievementUnlockPoint {
+  month: string; // YYYY-MM-01 in UTC
+  total: number; // Members who had earned it by the end of the month
+}
+
+export interface AchievementStat extends AchievementDefinition {
+  earned_count: number;
+  percent: number; // Of members with XP
+  rarity: AchievementRarity;
+  first_earner: AchievementEarner | null;
+  recent_earners: AchievementEarner[];
+  timeline: AchievementUnlockPoint[];
+}
+
+export interface ServerAchievementStats {
+  memberCount: number;
+  totalUnlocks: number;
+  achievements: AchievementStat[]; // Rarest first
+}
+
+// Comparison Types
+export interface ChannelMessageCount {
+  channelId: string;
+  channelName: string | null;
+  messageCount: number;
+}
+
+export interface ComparedMember {
+  profile: MemberWithLevel;
+  rank: number;
+  topEmojis: EmojiUsage[];
+  topChannels: ChannelMessageCount[];
+  achievements: EarnedAchievement[];
+}
+
+export interface MemberComparison {
+  a: ComparedMember;
+  b: ComparedMember;
+  sharedVoice: { shared_seconds: number; session_count: number } | null;
+  onlyA: EarnedAchievement[]; // Earned by a but not b
+  onlyB: EarnedAchievement[];
+  sharedAchievementCount: number;
+}
+
+// Wrapped (Year in Review) Types
+export interface WrappedMember {
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+export interface WrappedStreak {
+  days: number;
+  start: string; // UTC date
+  end: string;
+}
+
+export interface WrappedBusiestDay {
+  date: string; // UTC date
+  message_count: number;
+  voice_minutes: number;
+}
+
+export interface WrappedSummary {
+  year: number;
+  totalMessages: number;
+  totalVoiceMinutes: number;
+  totalXp: number;
+  activeDays: number;
+  longestStreak: WrappedStreak | null;
+  busiestDay: WrappedBusiestDay | null;
+  topEmojis: EmojiUsage[];
+  topChannels: ChannelMessageCount[];
+  achievements: EarnedAchievement[]; // Unlocked during the year
+}
+
+export interface MemberWrapped extends WrappedSummary {
+  member: WrappedMember;
+  topFriends: (WrappedMember & { shared_seconds: number })[];
+  // "Top X%" of the server's active members that year; null when the member had none
+  percentiles: {
+    messages: number | null;
+    voice: number | null;
+    xp: number | null;
+  };
+}
+
+export interface ServerWrapped extends WrappedSummary {
+  activeMembers: number;
+  achievementUnlocks: number; // Every unlock, where achievements lists each achievement once
+  streakHolder: WrappedMember | null; // Member behind longestStreak
+  topMembers: (WrappedMember & { xp_earned: number; message_count: number; voice_minutes: number })[];
+  topDuos: { a: WrappedMember; b: WrappedMember; shared_seconds: number }[];
+}
+
+// Card Types
+export type CardRarity = 'common' | 'uncommon' | 'rare' | 'holo';
+
+export interface CardAttack {
+  name: string;
+  damage: number;
+  emoji: EmojiUsage | null; // Shown as the attack's energy cost
+}
+
+export interface MemberCard {
+  user_id: string;
+  name: string;
+  avatar_url: string | null;
+  level: number;
+  hp: number;
+  rarity: CardRarity;
+  achievementCount: number;
+  attacks: CardAttack[];
+}
+
+export type CardUnlockRule =
+  | { type: 'achievement'; achievementId: string }
+  | { type: 'level_role'; tier: number }; // 1 = the guild's lowest level role
+
+export type CardHoloEffect = 'cosmos' | 'glitter' | 'grain' | 'reverse-holo';
+
+export interface CardSet {
+  id: string;
+  name: string;
+}
+
+export interface CollectibleCard {
+  id: string;
+  name: string;
+  src: string;
+  alt: string;
+  set: string; // CardSet id
+  rarity: CardRarity;
+  artist: string | null; // null until the artist is credited
+  releaseDate: string; // YYYY-MM-DD
+  effect: CardHoloEffect;
+  unlock: CardUnlockRule;
+}
+
+export interface CollectionEntry {
+  card: CollectibleCard;
+  requirement: string;
+  available: boolean; // False when the guild has no level role for the card's tier
+  unlockedAt: string | null; // Derived from the achievement or level reached, not stored
+}
+
+export interface MemberCollection {
+  entries: CollectionEntry[];
+  ownedCount: number;
+  availableCount: number;
+  completionPercent: number;
+}
+
+// Auth Types
+export interface SessionUser {
+  id: string; // Discord user ID
+  username: string;
+  globalName: string | null;
+  avatarUrl: string | null;
+  adminGuildIds: string[]; // Guilds where the user had Administrator at sign-in (menu links only)
+}
+
+export interface SessionInfo {
+  user: SessionUser | null;
+  guilds: Guild[]; // Guilds the user shares with the bot
+}
+
+// Privacy Types
+// public: anyone with the link, server: signed-in members of the same guild, hidden: only the member
+export type PrivacyVisibility = 'public' | 'server' | 'hidden';
+
+export interface MemberPrivacy {
+  guild_id: string;
+  user_id: string;
+  visibility: PrivacyVisibility;
+  updated_at: string;
+}
+
+// Who is looking at a page, for privacy checks
+export interface Viewer {
+  userId: string | null;
+  guildIds: string[]; // Guilds the viewer shares with the bot
+}
+
+// Admin Types
+export interface GuildAchievementSetting {
+  guild_id: string;
+  achievement_id: string;
+  enabled: boolean;
+  xp_override: number | null; // null = use the definition's XP
+  updated_at: string;
+}
+
+export interface ConfiguredAchievement extends AchievementDefinition {
+  enabled: boolean;
+  default_xp: number;
+  xp_overridden: boolean;
+}
+
+// Diagnostics Types
+export interface DiagnosticSession extends VoiceSession {
+  username: string | null;
+  display_name: string | null;
+}
+
+export interface SessionOverlap {
+  first: DiagnosticSession;
+  second: DiagnosticSession; // Joined before `first` ended
+  overlap_seconds: number;
+}
+
+export interface VoicePairDiagnostics {
+  user_a: { user_id: string; username: string | null; total_seconds: number; session_count: number };
+  user_b: { user_id: string; username: string | null; total_seconds: number; session_count: number };
+  shared_seconds: number; // Fresh same-channel overlap
+  cached_shared_seconds: number | null; // From voice_connections ('all')
+  cached_at: string | null;
+}
+
+// Public API Types (/api/v1)
+export interface ApiPagination {
+  page: number;
+  limit: number;
+  totalCount: number;
+  totalPages: number;
+}
+
+export interface ApiResponse<T> {
+  data: T;
+}
+
+export interface ApiPaginatedResponse<T> {
+  data: T[];
+  pagination: ApiPagination;
+}
+
+export interface ApiErrorResponse {
+  error: {
+    status: number;
+    message: string;
+  };
+}
+
+export interface ApiGuild {
+  guild: Guild;
+  stats: ServerStats;
+}
+
+export interface ApiMemberProfile {
+  member: MemberWithLevel;
+  rank: number;
+  progress: LevelProgress;
+  achievements: EarnedAchievement[];
+}
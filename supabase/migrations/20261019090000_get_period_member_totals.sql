@@ -0,0 +1,30 @@
+-- Activity per member summed over an inclusive range of UTC dates, for the
+-- period leaderboards. Members with no rows in the range are left out.
+create or replace function public.get_period_member_totals(
+  p_guild_id text,
+  p_start date,
+  p_end date
+)
+returns table (
+  user_id text,
+  xp_earned bigint,
+  message_count bigint,
+  reaction_count bigint,
+  voice_minutes bigint
+)
+language sql
+stable
+as $$
+  select
+    s.user_id,
+    coalesce(sum(s.xp_earned), 0)::bigint,
+    coalesce(sum(s.message_count), 0)::bigint,
+    coalesce(sum(s.reaction_count), 0)::bigint,
+    coalesce(sum(s.voice_minutes), 0)::bigint
+  from public.daily_member_stats s
+  where s.guild_id = p_guild_id
+    and s.date between p_start and p_end
+  group by s.user_id;
+$$;
+
+grant execute on function public.get_period_member_totals(text, date, date) to anon, authenticated;
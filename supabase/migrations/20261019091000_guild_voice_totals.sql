@@ -0,0 +1,52 @@
+-- Finished voice time per guild, or for one guild when p_guild_id is given.
+-- Summed on the database so the total doesn't stop at the API's row cap.
+create or replace function public.get_guild_voice_seconds(p_guild_id text default null)
+returns table (
+  guild_id text,
+  voice_seconds bigint
+)
+language sql
+stable
+as $$
+  select
+    s.guild_id,
+    coalesce(sum(s.duration_seconds), 0)::bigint
+  from public.voice_sessions s
+  where s.duration_seconds is not null
+    and (p_guild_id is null or s.guild_id = p_guild_id)
+  group by s.guild_id;
+$$;
+
+-- Members in voice right now per guild. Open sessions that joined before
+-- p_joined_after missed their leave event, so they aren't counted.
+create or replace function public.get_active_voice_counts(p_joined_after timestamptz)
+returns table (
+  guild_id text,
+  active_count bigint
+)
+language sql
+stable
+as $$
+  select
+    s.guild_id,
+    count(*)::bigint
+  from public.voice_sessions s
+  where s.left_at is null
+    and s.joined_at >= p_joined_after
+  group by s.guild_id;
+$$;
+
+-- Lifetime XP per guild, for the same reason as get_guild_voice_seconds
+create or replace function public.get_guild_total_xp(p_guild_id text)
+returns bigint
+language sql
+stable
+as $$
+  select coalesce(sum(l.xp), 0)::bigint
+  from public.member_levels l
+  where l.guild_id = p_guild_id;
+$$;
+
+grant execute on function public.get_guild_voice_seconds(text) to anon, authenticated;
+grant execute on function public.get_active_voice_counts(timestamptz) to anon, authenticated;
+grant execute on function public.get_guild_total_xp(text) to anon, authenticated;
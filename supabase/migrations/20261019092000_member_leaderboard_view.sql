@@ -0,0 +1,25 @@
+-- Member levels joined with member names, so the leaderboard can search by
+-- name, sort, page and count in a single query. security_invoker keeps the
+-- row level security of the underlying tables in force.
+create or replace view public.member_leaderboard
+with (security_invoker = true) as
+select
+  l.id,
+  l.guild_id,
+  l.user_id,
+  l.xp,
+  l.level,
+  l.message_count,
+  l.voice_minutes,
+  l.last_xp_at,
+  l.created_at,
+  l.updated_at,
+  m.username,
+  m.display_name,
+  m.avatar_url
+from public.member_levels l
+left join public.members m
+  on m.guild_id = l.guild_id
+  and m.user_id = l.user_id;
+
+grant select on public.member_leaderboard to anon, authenticated;
@@ -0,0 +1,29 @@
+-- Per-member profile visibility. Members without a row are public.
+--   public: anyone with the link
+--   server: signed-in members of the same guild
+--   hidden: only the member
+create table if not exists public.member_privacy (
+  guild_id text not null,
+  user_id text not null,
+  visibility text not null default 'public'
+    check (visibility in ('public', 'server', 'hidden')),
+  updated_at timestamptz not null default now(),
+  -- setMemberVisibility upserts on this key
+  constraint member_privacy_pkey primary key (guild_id, user_id)
+);
+
+-- getHiddenUserIds only reads the non-public rows of a guild
+create index if not exists member_privacy_guild_restricted_idx
+  on public.member_privacy (guild_id)
+  where visibility <> 'public';
+
+-- Anyone may read settings, since every page needs them to hide members.
+-- There are no write policies: the privacy route writes with the service
+-- role after checking the session user owns the row.
+alter table public.member_privacy enable row level security;
+
+create policy "member_privacy is readable"
+  on public.member_privacy
+  for select
+  to anon, authenticated
+  using (true);
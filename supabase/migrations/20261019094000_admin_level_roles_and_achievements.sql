@@ -0,0 +1,73 @@
+-- Per-guild overrides for achievements, set from the admin dashboard.
+-- Achievements without a row are enabled with their default XP.
+create table if not exists public.guild_achievement_settings (
+  guild_id text not null,
+  achievement_id text not null,
+  enabled boolean not null default true,
+  -- null = use the definition's XP
+  xp_override integer check (xp_override is null or xp_override >= 0),
+  updated_at timestamptz not null default now(),
+  -- setGuildAchievementSetting upserts on this key
+  constraint guild_achievement_settings_pkey primary key (guild_id, achievement_id)
+);
+
+-- Readable by everyone; only the service role (admin route handlers) writes
+alter table public.guild_achievement_settings enable row level security;
+
+create policy "guild_achievement_settings is readable"
+  on public.guild_achievement_settings
+  for select
+  to anon, authenticated
+  using (true);
+
+-- Swap the levels of two level roles in the same guild. Both rows are locked
+-- and rewritten by a single UPDATE inside the function's transaction, so the
+-- swap either happens completely or not at all, and two concurrent moves of
+-- the same role run one after the other.
+create or replace function public.swap_level_role_levels(
+  p_guild_id text,
+  p_role_id bigint,
+  p_other_role_id bigint
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_level integer;
+  v_other_level integer;
+begin
+  if p_role_id = p_other_role_id then
+    return;
+  end if;
+
+  -- Lock in id order so opposite moves of the same pair can't deadlock
+  perform 1
+  from public.level_roles
+  where guild_id = p_guild_id
+    and id in (p_role_id, p_other_role_id)
+  order by id
+  for update;
+
+  select level into v_level
+  from public.level_roles
+  where guild_id = p_guild_id and id = p_role_id;
+
+  select level into v_other_level
+  from public.level_roles
+  where guild_id = p_guild_id and id = p_other_role_id;
+
+  if v_level is null or v_other_level is null then
+    raise exception 'Level role not found in guild %', p_guild_id
+      using errcode = 'no_data_found';
+  end if;
+
+  update public.level_roles
+  set level = case when id = p_role_id then v_other_level else v_level end
+  where guild_id = p_guild_id
+    and id in (p_role_id, p_other_role_id);
+end;
+$$;
+
+-- Only the service role may reorder roles
+revoke execute on function public.swap_level_role_levels(text, bigint, bigint) from public, anon, authenticated;
+grant execute on function public.swap_level_role_levels(text, bigint, bigint) to service_role;
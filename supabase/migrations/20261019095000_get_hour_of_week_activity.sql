@@ -0,0 +1,69 @@
+-- Messages and voice minutes bucketed by hour of the week in an IANA time zone,
+-- for the whole guild or (p_user_id set) one member. hour_of_week is
+-- day * 24 + hour with Sunday as day 0, matching HourOfWeekActivity. Only
+-- buckets with activity are returned.
+--
+-- Voice sessions are split across every local hour they span, so a session
+-- from 21:40 to 23:10 adds 20, 60 and 10 minutes to three buckets. Open
+-- sessions count up to now.
+create or replace function public.get_hour_of_week_activity(
+  p_guild_id text,
+  p_user_id text default null,
+  p_time_zone text default 'UTC'
+)
+returns table (
+  hour_of_week integer,
+  message_count bigint,
+  voice_minutes double precision
+)
+language sql
+stable
+as $$
+  with message_hours as (
+    select
+      (extract(dow from m.created_at at time zone p_time_zone) * 24
+        + extract(hour from m.created_at at time zone p_time_zone))::integer as hour_of_week,
+      count(*)::bigint as message_count
+    from public.messages m
+    where m.guild_id = p_guild_id
+      and (p_user_id is null or m.user_id = p_user_id)
+    group by 1
+  ),
+  sessions as (
+    select
+      s.joined_at,
+      coalesce(s.left_at, now()) as ended_at
+    from public.voice_sessions s
+    where s.guild_id = p_guild_id
+      and (p_user_id is null or s.user_id = p_user_id)
+      and coalesce(s.left_at, now()) > s.joined_at
+  ),
+  voice_hours as (
+    select
+      (extract(dow from h.slice_start at time zone p_time_zone) * 24
+        + extract(hour from h.slice_start at time zone p_time_zone))::integer as hour_of_week,
+      sum(
+        extract(epoch from
+          least(h.slice_start + interval '1 hour', s.ended_at)
+          - greatest(h.slice_start, s.joined_at)
+        ) / 60
+      ) as voice_minutes
+    from sessions s
+    -- Slices start on local hour boundaries of the requested time zone
+    cross join lateral generate_series(
+      date_trunc('hour', s.joined_at, p_time_zone),
+      s.ended_at,
+      interval '1 hour'
+    ) as h(slice_start)
+    where h.slice_start < s.ended_at
+    group by 1
+  )
+  select
+    coalesce(mh.hour_of_week, vh.hour_of_week),
+    coalesce(mh.message_count, 0)::bigint,
+    coalesce(vh.voice_minutes, 0)::double precision
+  from message_hours mh
+  full outer join voice_hours vh on vh.hour_of_week = mh.hour_of_week;
+$$;
+
+grant execute on function public.get_hour_of_week_activity(text, text, text) to anon, authenticated;
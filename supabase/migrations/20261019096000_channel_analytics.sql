@@ -0,0 +1,189 @@
+-- Aggregates for the channel pages. Times are bucketed in UTC, voice sessions
+-- are split across every hour or day they span, and open sessions count up
+-- to now.
+
+-- Message count and finished voice minutes per channel, for the directory
+create or replace function public.get_channel_totals(p_guild_id text)
+returns table (
+  channel_id text,
+  message_count bigint,
+  voice_minutes double precision
+)
+language sql
+stable
+as $$
+  with message_totals as (
+    select m.channel_id, count(*)::bigint as message_count
+    from public.messages m
+    where m.guild_id = p_guild_id
+    group by m.channel_id
+  ),
+  voice_totals as (
+    select s.channel_id, sum(s.duration_seconds) / 60.0 as voice_minutes
+    from public.voice_sessions s
+    where s.guild_id = p_guild_id
+      and s.duration_seconds is not null
+    group by s.channel_id
+  )
+  select
+    coalesce(mt.channel_id, vt.channel_id),
+    coalesce(mt.message_count, 0)::bigint,
+    coalesce(vt.voice_minutes, 0)::double precision
+  from message_totals mt
+  full outer join voice_totals vt on vt.channel_id = mt.channel_id;
+$$;
+
+-- Everyone who has posted or talked in a channel, with their totals
+create or replace function public.get_channel_participants(p_guild_id text, p_channel_id text)
+returns table (
+  user_id text,
+  message_count bigint,
+  voice_minutes double precision
+)
+language sql
+stable
+as $$
+  with message_totals as (
+    select m.user_id, count(*)::bigint as message_count
+    from public.messages m
+    where m.guild_id = p_guild_id
+      and m.channel_id = p_channel_id
+    group by m.user_id
+  ),
+  voice_totals as (
+    select
+      s.user_id,
+      sum(extract(epoch from coalesce(s.left_at, now()) - s.joined_at) / 60) as voice_minutes
+    from public.voice_sessions s
+    where s.guild_id = p_guild_id
+      and s.channel_id = p_channel_id
+      and coalesce(s.left_at, now()) > s.joined_at
+    group by s.user_id
+  )
+  select
+    coalesce(mt.user_id, vt.user_id),
+    coalesce(mt.message_count, 0)::bigint,
+    coalesce(vt.voice_minutes, 0)::double precision
+  from message_totals mt
+  full outer join voice_totals vt on vt.user_id = mt.user_id;
+$$;
+
+-- Messages and voice minutes in a channel by UTC hour of the day (0-23)
+create or replace function public.get_channel_hourly_activity(p_guild_id text, p_channel_id text)
+returns table (
+  hour integer,
+  message_count bigint,
+  voice_minutes double precision
+)
+language sql
+stable
+as $$
+  with message_hours as (
+    select
+      extract(hour from m.created_at at time zone 'UTC')::integer as hour,
+      count(*)::bigint as message_count
+    from public.messages m
+    where m.guild_id = p_guild_id
+      and m.channel_id = p_channel_id
+    group by 1
+  ),
+  sessions as (
+    select s.joined_at, coalesce(s.left_at, now()) as ended_at
+    from public.voice_sessions s
+    where s.guild_id = p_guild_id
+      and s.channel_id = p_channel_id
+      and coalesce(s.left_at, now()) > s.joined_at
+  ),
+  voice_hours as (
+    select
+      extract(hour from h.slice_start at time zone 'UTC')::integer as hour,
+      sum(
+        extract(epoch from
+          least(h.slice_start + interval '1 hour', s.ended_at)
+          - greatest(h.slice_start, s.joined_at)
+        ) / 60
+      ) as voice_minutes
+    from sessions s
+    cross join lateral generate_series(
+      date_trunc('hour', s.joined_at, 'UTC'),
+      s.ended_at,
+      interval '1 hour'
+    ) as h(slice_start)
+    where h.slice_start < s.ended_at
+    group by 1
+  )
+  select
+    coalesce(mh.hour, vh.hour),
+    coalesce(mh.message_count, 0)::bigint,
+    coalesce(vh.voice_minutes, 0)::double precision
+  from message_hours mh
+  full outer join voice_hours vh on vh.hour = mh.hour;
+$$;
+
+-- Messages and voice minutes in a channel per UTC day from p_start on. Sessions
+-- that began before p_start only count their time after it.
+create or replace function public.get_channel_daily_activity(
+  p_guild_id text,
+  p_channel_id text,
+  p_start date
+)
+returns table (
+  date date,
+  message_count bigint,
+  voice_minutes double precision
+)
+language sql
+stable
+as $$
+  with bounds as (
+    select p_start::timestamp at time zone 'UTC' as range_start
+  ),
+  message_days as (
+    select
+      (m.created_at at time zone 'UTC')::date as date,
+      count(*)::bigint as message_count
+    from public.messages m, bounds b
+    where m.guild_id = p_guild_id
+      and m.channel_id = p_channel_id
+      and m.created_at >= b.range_start
+    group by 1
+  ),
+  sessions as (
+    select
+      greatest(s.joined_at, b.range_start) as started_at,
+      coalesce(s.left_at, now()) as ended_at
+    from public.voice_sessions s, bounds b
+    where s.guild_id = p_guild_id
+      and s.channel_id = p_channel_id
+      and coalesce(s.left_at, now()) > greatest(s.joined_at, b.range_start)
+  ),
+  voice_days as (
+    select
+      (d.slice_start at time zone 'UTC')::date as date,
+      sum(
+        extract(epoch from
+          least(d.slice_start + interval '1 day', s.ended_at)
+          - greatest(d.slice_start, s.started_at)
+        ) / 60
+      ) as voice_minutes
+    from sessions s
+    cross join lateral generate_series(
+      date_trunc('day', s.started_at, 'UTC'),
+      s.ended_at,
+      interval '1 day'
+    ) as d(slice_start)
+    where d.slice_start < s.ended_at
+    group by 1
+  )
+  select
+    coalesce(md.date, vd.date),
+    coalesce(md.message_count, 0)::bigint,
+    coalesce(vd.voice_minutes, 0)::double precision
+  from message_days md
+  full outer join voice_days vd on vd.date = md.date;
+$$;
+
+grant execute on function public.get_channel_totals(text) to anon, authenticated;
+grant execute on function public.get_channel_participants(text, text) to anon, authenticated;
+grant execute on function public.get_channel_hourly_activity(text, text) to anon, authenticated;
+grant execute on function public.get_channel_daily_activity(text, text, date) to anon, authenticated;